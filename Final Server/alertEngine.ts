@@ -0,0 +1,470 @@
+/**
+ * Server-side alert rules
+ * Every reading is checked against a set of threshold rules, so alerts fire even
+ * when no phone is connected. Each rule has:
+ * - a duration: the condition must hold for `forMs` before it fires (0 = immediately)
+ * - hysteresis: once active, the alert only clears when the value is `hysteresis`
+ *   back on the safe side of the threshold, so a value hovering at the limit doesn't flap
+ * - a cooldown: after firing, the same rule won't fire again for that device for `cooldownMs`
+ *
+ * Rules live in a JSON config file (editable by hand or via REST); fired alerts are
+ * kept in a second JSON file so they survive restarts and can be acknowledged.
+ */
+
+import { SensorState, SensorField, SENSOR_FIELDS } from './types';
+import { isValidId } from './deviceRegistry';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  field: SensorField;
+  op: AlertOperator;
+  threshold: number;
+  forMs: number;
+  hysteresis: number;
+  cooldownMs: number;
+  severity: AlertSeverity;
+  enabled: boolean;
+  plantId: string | null; // null = every plant
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  deviceId: string;
+  plantId: string | null;
+  field: SensorField;
+  value: number;
+  threshold: number;
+  message: string;
+  firedAt: number;
+  clearedAt: number | null;
+  acknowledgedAt: number | null;
+}
+
+export type AlertEventKind = 'fired' | 'cleared' | 'acknowledged';
+
+export interface AlertEvent {
+  event: AlertEventKind;
+  alert: Alert;
+}
+
+export interface AlertQuery {
+  active?: boolean;        // true = not cleared yet
+  acknowledged?: boolean;
+  plantId?: string;
+  limit?: number;
+}
+
+// Defaults mirror the app's thresholds (plantModel.ts)
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'soil-dry',
+    name: 'Soil is dry',
+    field: 'soil',
+    op: '>=',
+    threshold: 900,
+    forMs: 30 * 60 * 1000,
+    hysteresis: 50,
+    cooldownMs: 6 * 60 * 60 * 1000,
+    severity: 'warning',
+    enabled: true,
+    plantId: null,
+  },
+  {
+    id: 'smoke',
+    name: 'Smoke or gas detected',
+    field: 'mq2',
+    op: '>',
+    threshold: 350,
+    forMs: 0,
+    hysteresis: 30,
+    cooldownMs: 15 * 60 * 1000,
+    severity: 'critical',
+    enabled: true,
+    plantId: null,
+  },
+  {
+    id: 'too-hot',
+    name: 'Too hot',
+    field: 'temp',
+    op: '>',
+    threshold: 27,
+    forMs: 15 * 60 * 1000,
+    hysteresis: 1,
+    cooldownMs: 2 * 60 * 60 * 1000,
+    severity: 'warning',
+    enabled: true,
+    plantId: null,
+  },
+  {
+    id: 'too-cold',
+    name: 'Too cold',
+    field: 'temp',
+    op: '<',
+    threshold: 13,
+    forMs: 15 * 60 * 1000,
+    hysteresis: 1,
+    cooldownMs: 2 * 60 * 60 * 1000,
+    severity: 'warning',
+    enabled: true,
+    plantId: null,
+  },
+];
+
+// Fired alerts kept on disk; older ones are dropped
+const MAX_STORED_ALERTS = 500;
+
+// Evaluation state of one rule for one device
+interface RuleState {
+  pendingSince: number | null;
+  lastFiredAt: number | null;
+  activeAlertId: string | null;
+}
+
+export class AlertEngine {
+  private rules = new Map<string, AlertRule>();
+  private alerts: Alert[] = [];
+  private states = new Map<string, RuleState>(); // key: `${ruleId}:${deviceId}`
+
+  constructor(
+    private rulesFile: string,
+    private alertsFile: string,
+    private onEvent: (event: AlertEvent) => void
+  ) {}
+
+  /**
+   * Load rules (defaults if the file doesn't exist yet or isn't a list of rules) and stored alerts
+   * Stored rules are validated like rules sent over REST; invalid ones are skipped
+   */
+  load(): void {
+    const rules = readJsonFile<unknown>(this.rulesFile);
+    if (Array.isArray(rules)) {
+      for (const stored of rules) {
+        const error = validateAlertRule(stored) ?? (stored.id === undefined ? 'Invalid rule: "id" is required' : null);
+        if (error) {
+          console.error(`❌ Skipping alert rule ${stored?.id ?? '(no id)'} in ${this.rulesFile}: ${error}`);
+          continue;
+        }
+        this.rules.set(stored.id, buildRule(stored.id, stored));
+      }
+    } else {
+      if (rules !== null) {
+        console.error(`❌ ${this.rulesFile} is not a list of rules; using the default rules`);
+      }
+      for (const rule of DEFAULT_ALERT_RULES) {
+        this.rules.set(rule.id, { ...rule });
+      }
+      // Leave a broken file as it is so it can be fixed by hand
+      if (rules === null) {
+        this.saveRules();
+      }
+    }
+
+    const alerts = readJsonFile<Alert[]>(this.alertsFile);
+    this.alerts = Array.isArray(alerts) ? alerts : [];
+    // Alerts still active at shutdown keep their rule armed, so they aren't fired twice
+    for (const alert of this.alerts) {
+      const state = this.stateFor(alert.ruleId, alert.deviceId);
+      if (alert.clearedAt === null) {
+        state.activeAlertId = alert.id;
+      }
+      state.lastFiredAt = Math.max(state.lastFiredAt ?? 0, alert.firedAt);
+    }
+  }
+
+  /**
+   * Check a reading against every rule that applies to its plant
+   */
+  evaluate(reading: SensorState, deviceId: string, plantId: string | null, ts: number = Date.now()): void {
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || (rule.plantId !== null && rule.plantId !== plantId)) {
+        continue;
+      }
+
+      const value = reading[rule.field];
+      const state = this.stateFor(rule.id, deviceId);
+
+      if (state.activeAlertId) {
+        if (isCleared(rule, value)) {
+          this.clear(state, ts);
+        }
+        continue;
+      }
+
+      if (!isBreached(rule, value)) {
+        state.pendingSince = null;
+        continue;
+      }
+
+      state.pendingSince ??= ts;
+      const heldLongEnough = ts - state.pendingSince >= rule.forMs;
+      const cooledDown = state.lastFiredAt === null || ts - state.lastFiredAt >= rule.cooldownMs;
+      if (heldLongEnough && cooledDown) {
+        this.fire(rule, state, deviceId, plantId, value, ts);
+      }
+    }
+  }
+
+  listRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  getRule(ruleId: string): AlertRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  /**
+   * Create a rule; missing optional fields get defaults
+   */
+  addRule(input: Partial<AlertRule> & Pick<AlertRule, 'field' | 'op' | 'threshold'>): AlertRule {
+    const id = input.id || this.nextRuleId();
+    if (this.rules.has(id)) {
+      throw new Error(`Rule already exists: ${id}`);
+    }
+    const rule = buildRule(id, input);
+    this.rules.set(id, rule);
+    this.saveRules();
+    return rule;
+  }
+
+  updateRule(ruleId: string, update: Partial<AlertRule>): AlertRule {
+    const rule = this.rules.get(ruleId);
+    if (!rule) {
+      throw new Error(`Unknown rule: ${ruleId}`);
+    }
+    const updated: AlertRule = { ...rule, ...update, id: rule.id };
+    this.rules.set(ruleId, updated);
+    // Re-arm: pending durations were measured against the old condition
+    for (const [key, state] of this.states) {
+      if (key.startsWith(`${ruleId}:`)) {
+        state.pendingSince = null;
+      }
+    }
+    // A disabled rule is no longer evaluated, so nothing else would clear its alerts
+    if (!updated.enabled) {
+      this.clearRule(ruleId);
+    }
+    this.saveRules();
+    return updated;
+  }
+
+  deleteRule(ruleId: string): boolean {
+    if (!this.rules.delete(ruleId)) {
+      return false;
+    }
+    this.clearRule(ruleId);
+    for (const key of this.states.keys()) {
+      if (key.startsWith(`${ruleId}:`)) {
+        this.states.delete(key);
+      }
+    }
+    this.saveRules();
+    return true;
+  }
+
+  /**
+   * Stored alerts, newest first
+   */
+  listAlerts({ active, acknowledged, plantId, limit }: AlertQuery = {}): Alert[] {
+    const matches = this.alerts.filter(
+      (alert) =>
+        (active === undefined || (alert.clearedAt === null) === active) &&
+        (acknowledged === undefined || (alert.acknowledgedAt !== null) === acknowledged) &&
+        (plantId === undefined || alert.plantId === plantId)
+    );
+    matches.reverse();
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  acknowledge(alertId: string, ts: number = Date.now()): Alert {
+    const alert = this.alerts.find((a) => a.id === alertId);
+    if (!alert) {
+      throw new Error(`Unknown alert: ${alertId}`);
+    }
+    if (alert.acknowledgedAt === null) {
+      alert.acknowledgedAt = ts;
+      this.saveAlerts();
+      this.onEvent({ event: 'acknowledged', alert: { ...alert } });
+    }
+    return alert;
+  }
+
+  private fire(rule: AlertRule, state: RuleState, deviceId: string, plantId: string | null, value: number, ts: number): void {
+    const alert: Alert = {
+      id: `alert-${ts}-${Math.random().toString(36).slice(2, 8)}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      deviceId,
+      plantId,
+      field: rule.field,
+      value,
+      threshold: rule.threshold,
+      message: `${rule.name}: ${rule.field} is ${value} (${rule.op} ${rule.threshold})`,
+      firedAt: ts,
+      clearedAt: null,
+      acknowledgedAt: null,
+    };
+    state.activeAlertId = alert.id;
+    state.lastFiredAt = ts;
+    state.pendingSince = null;
+
+    this.alerts.push(alert);
+    if (this.alerts.length > MAX_STORED_ALERTS) {
+      this.alerts.splice(0, this.alerts.length - MAX_STORED_ALERTS);
+    }
+    this.saveAlerts();
+    this.onEvent({ event: 'fired', alert: { ...alert } });
+  }
+
+  private clear(state: RuleState, ts: number): void {
+    const alert = this.alerts.find((a) => a.id === state.activeAlertId);
+    state.activeAlertId = null;
+    state.pendingSince = null;
+    if (!alert) {
+      return;
+    }
+    alert.clearedAt = ts;
+    this.saveAlerts();
+    this.onEvent({ event: 'cleared', alert: { ...alert } });
+  }
+
+  // Clear every active alert of a rule (listeners get a 'cleared' event for each)
+  private clearRule(ruleId: string, ts: number = Date.now()): void {
+    for (const [key, state] of this.states) {
+      if (key.startsWith(`${ruleId}:`) && state.activeAlertId) {
+        this.clear(state, ts);
+      }
+    }
+  }
+
+  private stateFor(ruleId: string, deviceId: string): RuleState {
+    const key = `${ruleId}:${deviceId}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { pendingSince: null, lastFiredAt: null, activeAlertId: null };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private nextRuleId(): string {
+    let n = this.rules.size + 1;
+    while (this.rules.has(`rule-${n}`)) {
+      n++;
+    }
+    return `rule-${n}`;
+  }
+
+  private saveRules(): void {
+    writeJsonFile(this.rulesFile, this.listRules());
+  }
+
+  private saveAlerts(): void {
+    writeJsonFile(this.alertsFile, this.alerts);
+  }
+}
+
+// A complete rule from a validated input; missing optional fields get defaults
+function buildRule(id: string, input: Partial<AlertRule> & Pick<AlertRule, 'field' | 'op' | 'threshold'>): AlertRule {
+  return {
+    id,
+    name: input.name || `${input.field} ${input.op} ${input.threshold}`,
+    field: input.field,
+    op: input.op,
+    threshold: input.threshold,
+    forMs: input.forMs ?? 0,
+    hysteresis: input.hysteresis ?? 0,
+    cooldownMs: input.cooldownMs ?? 0,
+    severity: input.severity ?? 'warning',
+    enabled: input.enabled ?? true,
+    plantId: input.plantId ?? null,
+  };
+}
+
+function isBreached(rule: AlertRule, value: number): boolean {
+  switch (rule.op) {
+    case '>':
+      return value > rule.threshold;
+    case '>=':
+      return value >= rule.threshold;
+    case '<':
+      return value < rule.threshold;
+    case '<=':
+      return value <= rule.threshold;
+  }
+}
+
+// Active alerts clear only once the value is back past the threshold by the hysteresis margin
+function isCleared(rule: AlertRule, value: number): boolean {
+  if (rule.op === '>' || rule.op === '>=') {
+    return value < rule.threshold - rule.hysteresis;
+  }
+  return value > rule.threshold + rule.hysteresis;
+}
+
+/**
+ * Validate an untrusted rule (partial = an update, where every field is optional)
+ * Returns an error message, or null if the rule is valid
+ */
+export function validateAlertRule(input: any, partial = false): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return 'Invalid rule: expected an object';
+  }
+
+  const known = ['id', 'name', 'field', 'op', 'threshold', 'forMs', 'hysteresis', 'cooldownMs', 'severity', 'enabled', 'plantId'];
+  const unknown = Object.keys(input).find((key) => !known.includes(key));
+  if (unknown) {
+    return `Unknown rule property: ${unknown}`;
+  }
+
+  if (!partial) {
+    for (const key of ['field', 'op', 'threshold']) {
+      if (input[key] === undefined) {
+        return `Invalid rule: "${key}" is required`;
+      }
+    }
+  }
+
+  if (input.id !== undefined && !isValidId(input.id)) {
+    return 'Invalid id: use letters, digits, "-" or "_" (max 64)';
+  }
+  if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'Invalid name: must be a non-empty string';
+  }
+  if (input.field !== undefined && !SENSOR_FIELDS.includes(input.field)) {
+    return `Invalid field: must be one of ${SENSOR_FIELDS.join(', ')}`;
+  }
+  if (input.op !== undefined && !ALERT_OPERATORS.includes(input.op)) {
+    return `Invalid op: must be one of ${ALERT_OPERATORS.join(' ')}`;
+  }
+  if (input.threshold !== undefined && (typeof input.threshold !== 'number' || !Number.isFinite(input.threshold))) {
+    return 'Invalid threshold: must be a number';
+  }
+  for (const key of ['forMs', 'hysteresis', 'cooldownMs']) {
+    const value = input[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `Invalid ${key}: must be a non-negative number`;
+    }
+  }
+  if (input.severity !== undefined && !ALERT_SEVERITIES.includes(input.severity)) {
+    return `Invalid severity: must be one of ${ALERT_SEVERITIES.join(', ')}`;
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'Invalid enabled: must be true or false';
+  }
+  if (input.plantId !== undefined && input.plantId !== null && typeof input.plantId !== 'string') {
+    return 'Invalid plantId: must be a plant ID or null';
+  }
+  return null;
+}
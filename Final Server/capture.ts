@@ -0,0 +1,366 @@
+/**
+ * Capture recording and replay
+ * A capture is a JSON-lines file; each line is one timestamped reading:
+ *   { "ts": 1762560001000, "frame": "STATE;soil=395;..." }   raw serial frame
+ *   { "ts": 1762560001000, "state": { "soil": 395, ... } }    parsed SensorState
+ * Entries may carry a "deviceId" so multi-board captures replay per device.
+ * History files ({ "ts", "soil", ... } per line) can be replayed as captures too.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { BioBatch, SensorState, isSensorState } from './types';
+import { parseFrame } from './serialFramer';
+
+export interface CaptureEntry {
+  ts: number;
+  state: SensorState;
+  deviceId?: string;
+  bioBatch?: BioBatch; // only raw frames carry BioAmp samples
+}
+
+export const REPLAY_SPEEDS = [1, 10, 100];
+// Shortest pause (capture time) between the end of a capture and the start of the next loop
+const MIN_WRAP_GAP_MS = 1000;
+
+export interface ReplayControl {
+  file?: string;
+  speed?: number;
+  paused?: boolean;
+  positionMs?: number;
+  loop?: boolean;
+}
+
+export interface ReplayStatus {
+  file: string | null;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  index: number;
+  total: number;
+  positionMs: number;
+  durationMs: number;
+}
+
+/**
+ * Resolve a capture name to a file inside the captures directory
+ * Only the base name is used so requests can't escape the directory
+ */
+export function resolveCapturePath(capturesDir: string, name: string): string {
+  const base = path.basename(name);
+  return path.join(capturesDir, base.endsWith('.jsonl') ? base : `${base}.jsonl`);
+}
+
+/**
+ * List capture files, newest first
+ */
+export function listCaptures(capturesDir: string): Array<{ name: string; size: number; modified: string }> {
+  if (!fs.existsSync(capturesDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(capturesDir)
+    .filter((name) => name.endsWith('.jsonl'))
+    .map((name) => {
+      const stat = fs.statSync(path.join(capturesDir, name));
+      return { name, size: stat.size, modified: stat.mtime.toISOString() };
+    })
+    .sort((a, b) => b.modified.localeCompare(a.modified));
+}
+
+/**
+ * Read every valid entry of a capture file, ordered by timestamp
+ */
+export async function readCapture(filePath: string): Promise<CaptureEntry[]> {
+  const entries: CaptureEntry[] = [];
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of rl) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!parsed || typeof parsed.ts !== 'number') {
+      continue;
+    }
+    const ts: number = parsed.ts;
+    const deviceId: string | undefined = typeof parsed.deviceId === 'string' ? parsed.deviceId : undefined;
+
+    if (typeof parsed.frame === 'string') {
+      const result = parseFrame(parsed.frame);
+      if (result.ok) {
+        entries.push({ ts, state: result.state, deviceId: deviceId ?? result.deviceId, bioBatch: result.bioBatch });
+      }
+    } else if (isSensorState(parsed.state)) {
+      entries.push({ ts, state: parsed.state, deviceId });
+    } else if (isSensorState(parsed)) {
+      const { soil, temp, hum, mq2, rain, bio } = parsed;
+      entries.push({ ts, state: { soil, temp, hum, mq2, rain, bio }, deviceId });
+    }
+  }
+
+  return entries.sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Appends timestamped serial frames / states to a capture file
+ */
+export class CaptureRecorder {
+  private stream: fs.WriteStream | null = null;
+  private filePath: string | null = null;
+  private startedAt: number | null = null;
+  private count = 0;
+
+  constructor(private capturesDir: string) {}
+
+  /**
+   * Start a new capture; defaults to a timestamped file name
+   */
+  start(name?: string): string {
+    this.stop();
+    fs.mkdirSync(this.capturesDir, { recursive: true });
+    const fileName = name || `capture-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    this.filePath = resolveCapturePath(this.capturesDir, fileName);
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error('❌ Capture write error:', error.message);
+    });
+    this.startedAt = Date.now();
+    this.count = 0;
+    return this.filePath;
+  }
+
+  stop(): void {
+    if (this.stream) {
+      this.stream.end();
+      this.stream = null;
+    }
+    this.startedAt = null;
+  }
+
+  isRecording(): boolean {
+    return this.stream !== null;
+  }
+
+  recordFrame(frame: string, deviceId: string, ts: number = Date.now()): void {
+    this.write({ ts, deviceId, frame });
+  }
+
+  recordState(state: SensorState, deviceId: string, ts: number = Date.now()): void {
+    this.write({ ts, deviceId, state });
+  }
+
+  getStatus() {
+    return {
+      recording: this.isRecording(),
+      file: this.filePath ? path.basename(this.filePath) : null,
+      startedAt: this.startedAt,
+      entries: this.count,
+    };
+  }
+
+  private write(entry: object): void {
+    if (!this.stream) {
+      return;
+    }
+    this.stream.write(JSON.stringify(entry) + '\n');
+    this.count++;
+  }
+}
+
+/**
+ * Plays a capture back in (scaled) real time
+ * Each entry is handed to onReading after the same gap it was recorded with, divided by speed.
+ */
+export class ReplayPlayer {
+  private entries: CaptureEntry[] = [];
+  private file: string | null = null;
+  private index = 0;
+  private speed = 1;
+  private loop = false;
+  private playing = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private onReading: (state: SensorState, deviceId?: string, bioBatch?: BioBatch) => void) {}
+
+  async load(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Capture not found: ${path.basename(filePath)}`);
+    }
+    const entries = await readCapture(filePath);
+    if (entries.length === 0) {
+      throw new Error(`Capture has no valid readings: ${path.basename(filePath)}`);
+    }
+    this.pause();
+    this.entries = entries;
+    this.file = path.basename(filePath);
+    this.index = 0;
+  }
+
+  isLoaded(): boolean {
+    return this.entries.length > 0;
+  }
+
+  play(): void {
+    if (!this.isLoaded()) {
+      throw new Error('No capture loaded');
+    }
+    if (this.playing) {
+      return;
+    }
+    if (this.index >= this.entries.length) {
+      this.index = 0;
+    }
+    this.playing = true;
+    this.tick();
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  setSpeed(speed: number): void {
+    if (!REPLAY_SPEEDS.includes(speed)) {
+      throw new Error(`Invalid speed: must be one of ${REPLAY_SPEEDS.join(', ')}`);
+    }
+    this.speed = speed;
+    // Reschedule the pending entry at the new speed
+    if (this.playing) {
+      this.clearTimer();
+      this.schedule();
+    }
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Jump to an offset (capture time, ms from the first entry)
+   */
+  seek(positionMs: number): void {
+    if (!this.isLoaded()) {
+      throw new Error('No capture loaded');
+    }
+    const target = this.entries[0].ts + Math.max(0, positionMs);
+    const found = this.entries.findIndex((entry) => entry.ts >= target);
+    this.index = found === -1 ? this.entries.length - 1 : found;
+
+    if (this.playing) {
+      this.clearTimer();
+      this.tick();
+    } else {
+      // Show the reading at the new position straight away
+      this.emit(this.entries[this.index]);
+      this.index++;
+    }
+  }
+
+  getStatus(): ReplayStatus {
+    const first = this.entries[0]?.ts ?? 0;
+    const last = this.entries[this.entries.length - 1]?.ts ?? 0;
+    // index points at the next entry to emit; report the one last shown
+    const current = this.entries[Math.max(0, this.index - 1)]?.ts ?? first;
+    return {
+      file: this.file,
+      playing: this.playing,
+      speed: this.speed,
+      loop: this.loop,
+      index: this.index,
+      total: this.entries.length,
+      positionMs: current - first,
+      durationMs: last - first,
+    };
+  }
+
+  private emit(entry: CaptureEntry): void {
+    this.onReading(entry.state, entry.deviceId, entry.bioBatch);
+  }
+
+  // Emit the current entry and schedule the next one
+  private tick(): void {
+    if (!this.playing) {
+      return;
+    }
+    if (this.index >= this.entries.length) {
+      if (this.loop) {
+        this.index = 0;
+      } else {
+        this.playing = false;
+        console.log(`⏹️  Replay finished: ${this.file}`);
+        return;
+      }
+    }
+
+    this.emit(this.entries[this.index]);
+    this.index++;
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.index >= this.entries.length) {
+      // End of capture: tick() handles loop/stop, after a normal gap so a loop doesn't run back to back
+      this.timer = setTimeout(() => this.tick(), this.wrapGap() / this.speed);
+      return;
+    }
+    const gap = this.entries[this.index].ts - this.entries[this.index - 1].ts;
+    this.timer = setTimeout(() => this.tick(), Math.max(0, gap) / this.speed);
+  }
+
+  // Pause before looping: the capture's median gap, at least MIN_WRAP_GAP_MS
+  private wrapGap(): number {
+    const gaps = this.entries
+      .slice(1)
+      .map((entry, i) => entry.ts - this.entries[i].ts)
+      .sort((a, b) => a - b);
+    const median = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+    return Math.max(MIN_WRAP_GAP_MS, median);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Validate an untrusted replay control object
+ * Returns an error message, or null if the control is valid
+ */
+export function validateReplayControl(control: any): string | null {
+  if (control === undefined) {
+    return null;
+  }
+  if (!control || typeof control !== 'object') {
+    return 'Invalid replay control: must be an object';
+  }
+  if (control.file !== undefined && (typeof control.file !== 'string' || !control.file)) {
+    return 'Invalid file: must be a capture name';
+  }
+  if (control.speed !== undefined && !REPLAY_SPEEDS.includes(control.speed)) {
+    return `Invalid speed: must be one of ${REPLAY_SPEEDS.join(', ')}`;
+  }
+  if (control.paused !== undefined && typeof control.paused !== 'boolean') {
+    return 'Invalid paused: must be true or false';
+  }
+  if (control.loop !== undefined && typeof control.loop !== 'boolean') {
+    return 'Invalid loop: must be true or false';
+  }
+  if (control.positionMs !== undefined && (typeof control.positionMs !== 'number' || control.positionMs < 0)) {
+    return 'Invalid positionMs: must be a non-negative number';
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Registry of sensor boards (devices) and the plants they are assigned to
+ * Persisted as a small JSON file so names and assignments survive restarts.
+ * A board seen for the first time is registered automatically with its own plant
+ * (one board per plant), which can then be renamed or reassigned over REST.
+ */
+
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  plantId: string | null;
+  firstSeen: number | null;
+  lastSeen: number | null;
+}
+
+export interface PlantInfo {
+  id: string;
+  name: string;
+  species?: string;
+}
+
+interface RegistryFile {
+  devices: DeviceInfo[];
+  plants: PlantInfo[];
+}
+
+// Device and plant IDs: short, URL- and topic-safe
+const MAX_ID_LENGTH = 64;
+const ID_PATTERN = new RegExp(`^[A-Za-z0-9_-]{1,${MAX_ID_LENGTH}}$`);
+
+export function isValidId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+export class DeviceRegistry {
+  private devices = new Map<string, DeviceInfo>();
+  private plants = new Map<string, PlantInfo>();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Load the registry from disk (missing or unreadable file = empty registry)
+   */
+  load(): void {
+    const data = readJsonFile<RegistryFile>(this.filePath);
+    for (const plant of data?.plants || []) {
+      this.plants.set(plant.id, plant);
+    }
+    for (const device of data?.devices || []) {
+      this.devices.set(device.id, device);
+    }
+  }
+
+  /**
+   * Record that a device sent a reading; registers unknown devices
+   * Returns the device's current entry
+   */
+  touch(deviceId: string, ts: number = Date.now()): DeviceInfo {
+    let device = this.devices.get(deviceId);
+    if (!device) {
+      const plant = this.createPlantFor(deviceId);
+      device = { id: deviceId, name: deviceId, plantId: plant.id, firstSeen: ts, lastSeen: ts };
+      this.devices.set(deviceId, device);
+      console.log(`🆕 Registered device ${deviceId} → ${plant.name} (${plant.id})`);
+      this.save();
+    } else {
+      // lastSeen is kept in memory; persisting every reading would rewrite the file each second
+      device.lastSeen = ts;
+    }
+    return device;
+  }
+
+  getDevice(deviceId: string): DeviceInfo | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  listDevices(): DeviceInfo[] {
+    return Array.from(this.devices.values());
+  }
+
+  /**
+   * Rename a device and/or assign it to a plant (null = unassigned)
+   */
+  updateDevice(deviceId: string, update: { name?: string; plantId?: string | null }): DeviceInfo {
+    if (update.plantId && !this.plants.has(update.plantId)) {
+      throw new Error(`Unknown plant: ${update.plantId}`);
+    }
+    const device = this.devices.get(deviceId) || {
+      id: deviceId,
+      name: deviceId,
+      plantId: null,
+      firstSeen: null,
+      lastSeen: null,
+    };
+    if (update.name !== undefined) {
+      device.name = update.name;
+    }
+    if (update.plantId !== undefined) {
+      device.plantId = update.plantId;
+    }
+    this.devices.set(deviceId, device);
+    this.save();
+    return device;
+  }
+
+  getPlant(plantId: string): PlantInfo | undefined {
+    return this.plants.get(plantId);
+  }
+
+  /**
+   * Plants with the devices currently assigned to them
+   */
+  listPlants(): Array<PlantInfo & { deviceIds: string[]; lastSeen: number | null }> {
+    return Array.from(this.plants.values()).map((plant) => {
+      const devices = this.listDevices().filter((device) => device.plantId === plant.id);
+      const lastSeen = devices.reduce<number | null>(
+        (latest, device) => (device.lastSeen !== null && (latest === null || device.lastSeen > latest) ? device.lastSeen : latest),
+        null
+      );
+      return { ...plant, deviceIds: devices.map((device) => device.id), lastSeen };
+    });
+  }
+
+  /**
+   * Create or update a plant
+   */
+  upsertPlant(plantId: string, update: { name?: string; species?: string }): PlantInfo {
+    const plant = this.plants.get(plantId) || { id: plantId, name: update.name || plantId };
+    if (update.name !== undefined) {
+      plant.name = update.name;
+    }
+    if (update.species !== undefined) {
+      plant.species = update.species || undefined;
+    }
+    this.plants.set(plantId, plant);
+    this.save();
+    return plant;
+  }
+
+  /**
+   * Delete a plant; its devices become unassigned
+   */
+  deletePlant(plantId: string): boolean {
+    if (!this.plants.delete(plantId)) {
+      return false;
+    }
+    for (const device of this.devices.values()) {
+      if (device.plantId === plantId) {
+        device.plantId = null;
+      }
+    }
+    this.save();
+    return true;
+  }
+
+  // The plant ID is cut short to fit MAX_ID_LENGTH, so it is valid for every device ID
+  private createPlantFor(deviceId: string): PlantInfo {
+    const idFor = (suffix: string) => `plant-${deviceId}`.slice(0, MAX_ID_LENGTH - suffix.length) + suffix;
+    let id = idFor('');
+    for (let n = 2; this.plants.has(id); n++) {
+      id = idFor(`-${n}`);
+    }
+    const plant: PlantInfo = { id, name: `Plant ${this.plants.size + 1}` };
+    this.plants.set(id, plant);
+    return plant;
+  }
+
+  private save(): void {
+    const data: RegistryFile = { devices: this.listDevices(), plants: Array.from(this.plants.values()) };
+    writeJsonFile(this.filePath, data);
+  }
+}
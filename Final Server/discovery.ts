@@ -0,0 +1,130 @@
+/**
+ * Zero-config discovery and pairing
+ * - Advertises the server over mDNS/DNS-SD as `_plantagotchi._tcp` (TXT: v=<protocol>, path=/ws)
+ *   so the app can find it on the local network without knowing its IP
+ * - Builds the pairing link the control UI shows as a QR code, for networks where multicast is
+ *   blocked. Scanned with the phone's camera it opens the app's pair screen:
+ *     plantwhisperer://pair?url=ws%3A%2F%2F192.168.1.20%3A4000%2Fws&name=Plantagotchi%20on%20desk-pc
+ */
+
+import os from 'os';
+import { Bonjour, Service } from 'bonjour-service';
+import QRCode from 'qrcode';
+import { PROTOCOL_VERSION } from './protocol';
+
+export const SERVICE_TYPE = 'plantagotchi';
+const APP_SCHEME = 'plantwhisperer';
+
+export interface DiscoveryStatus {
+  advertising: boolean;
+  name: string;
+  type: string;
+  port: number;
+}
+
+export interface PairingInfo {
+  name: string;
+  urls: string[];            // WebSocket URL on every LAN address, best guess first
+  pairingUrl: string | null; // deep link for the QR code (first URL), null without a LAN address
+}
+
+/**
+ * IPv4 addresses of this machine's network interfaces, skipping loopback and link-local
+ * Wi-Fi/Ethernet interfaces come first since that's where the phone usually is
+ */
+export function lanAddresses(): string[] {
+  const entries: { name: string; address: string }[] = [];
+  for (const [name, infos] of Object.entries(os.networkInterfaces())) {
+    for (const info of infos ?? []) {
+      if (info.family === 'IPv4' && !info.internal && !info.address.startsWith('169.254.')) {
+        entries.push({ name, address: info.address });
+      }
+    }
+  }
+  const physical = (name: string) => /^(en|eth|wl|wi-?fi|ethernet)/i.test(name);
+  entries.sort((a, b) => Number(physical(b.name)) - Number(physical(a.name)));
+  return entries.map((entry) => entry.address);
+}
+
+/**
+ * Instance name shown in the app's server list, e.g. "Plantagotchi on desk-pc"
+ */
+export function defaultServiceName(): string {
+  return `Plantagotchi on ${os.hostname().replace(/\.local$/, '')}`;
+}
+
+/**
+ * Pairing details; `host` (e.g. from the control UI's address bar) is preferred when it's a LAN address
+ */
+export function buildPairingInfo(name: string, port: number, host?: string): PairingInfo {
+  const addresses = lanAddresses();
+  if (host && addresses.includes(host)) {
+    addresses.splice(addresses.indexOf(host), 1);
+    addresses.unshift(host);
+  }
+  const urls = addresses.map((address) => `ws://${address}:${port}/ws`);
+  const pairingUrl = urls.length > 0
+    ? `${APP_SCHEME}://pair?url=${encodeURIComponent(urls[0])}&name=${encodeURIComponent(name)}`
+    : null;
+  return { name, urls, pairingUrl };
+}
+
+/**
+ * QR code of a pairing link as an SVG document
+ */
+export function pairingQrSvg(pairingUrl: string): Promise<string> {
+  return QRCode.toString(pairingUrl, { type: 'svg', margin: 2, errorCorrectionLevel: 'M' });
+}
+
+/**
+ * Publishes the DNS-SD service while the server runs
+ */
+export class DiscoveryAdvertiser {
+  private bonjour: Bonjour | null = null;
+  private service: Service | null = null;
+
+  constructor(private readonly name: string, private readonly port: number) {}
+
+  start(): void {
+    if (this.bonjour) {
+      return;
+    }
+    try {
+      this.bonjour = new Bonjour(undefined, (error: Error) => {
+        console.warn(`⚠️  mDNS error: ${error.message}`);
+      });
+      this.service = this.bonjour.publish({
+        name: this.name,
+        type: SERVICE_TYPE,
+        protocol: 'tcp',
+        port: this.port,
+        txt: { v: String(PROTOCOL_VERSION), path: '/ws' },
+      });
+      this.service.on('error', (error: Error) => {
+        console.warn(`⚠️  Could not advertise over mDNS: ${error.message}`);
+      });
+    } catch (error: any) {
+      console.warn(`⚠️  mDNS unavailable: ${error.message}`);
+      this.bonjour = null;
+      this.service = null;
+    }
+  }
+
+  stop(): void {
+    const bonjour = this.bonjour;
+    this.bonjour = null;
+    this.service = null;
+    if (bonjour) {
+      bonjour.unpublishAll(() => bonjour.destroy());
+    }
+  }
+
+  getStatus(): DiscoveryStatus {
+    return {
+      advertising: this.service !== null,
+      name: this.name,
+      type: `_${SERVICE_TYPE}._tcp`,
+      port: this.port,
+    };
+  }
+}
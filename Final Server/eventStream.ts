@@ -0,0 +1,112 @@
+/**
+ * Server-Sent Events stream
+ * For networks that block WebSocket upgrades: GET /events delivers the same v1 envelopes a
+ * WebSocket client gets after its hello, one per SSE message:
+ *   event: reading
+ *   id: 42
+ *   data: {"v":1,"type":"reading","seq":42,"ts":1762560001000,"data":{...}}
+ * The stream is one-way, so the plant filter is a query parameter instead of a subscribe message.
+ * A comment line goes out every few seconds so proxies keep the connection open and clients can
+ * tell a quiet stream from a dead one.
+ */
+
+import { Request, Response } from 'express';
+import { ProtocolSession, MessageType, PROTOCOL_VERSION } from './protocol';
+
+// Shorter than the app's 10 s "stale" threshold
+const KEEPALIVE_MS = 5000;
+// Tells EventSource clients how long to wait before reconnecting
+const RETRY_MS = 3000;
+
+interface StreamClient {
+  plantId: string | null; // null = every plant
+  session: ProtocolSession;
+}
+
+export class EventStreamHub {
+  private clients = new Map<Response, StreamClient>();
+  private keepalive: NodeJS.Timeout | null = null;
+
+  /**
+   * Turn a request into an event stream and keep it until the client goes away
+   */
+  open(req: Request, res: Response, plantId: string | null): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // don't let nginx buffer the stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    // Every stream speaks the versioned protocol: there are no legacy SSE clients
+    const session = new ProtocolSession();
+    session.negotiate({ type: 'hello', v: PROTOCOL_VERSION, client: 'sse' });
+    this.clients.set(res, { plantId, session });
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopKeepalive();
+      }
+    });
+    this.startKeepalive();
+  }
+
+  /**
+   * Send a message to one stream
+   */
+  send(res: Response, type: MessageType, data: unknown): void {
+    const client = this.clients.get(res);
+    if (!client || res.writableEnded) {
+      return;
+    }
+    const envelope = client.session.wrap(type, data);
+    res.write(`event: ${type}\nid: ${envelope.seq}\ndata: ${JSON.stringify(envelope)}\n\n`);
+  }
+
+  /**
+   * Send a message to every stream following `plantId` (undefined = not plant-specific)
+   */
+  broadcast(type: MessageType, data: unknown, plantId?: string | null): void {
+    for (const [res, client] of this.clients) {
+      if (plantId === undefined || client.plantId === null || client.plantId === plantId) {
+        this.send(res, type, data);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * End every stream (server shutdown)
+   */
+  close(): void {
+    this.stopKeepalive();
+    for (const res of this.clients.keys()) {
+      res.end();
+    }
+    this.clients.clear();
+  }
+
+  private startKeepalive(): void {
+    if (this.keepalive) {
+      return;
+    }
+    this.keepalive = setInterval(() => {
+      for (const res of this.clients.keys()) {
+        res.write(': keepalive\n\n');
+      }
+    }, KEEPALIVE_MS);
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Persistent time-series storage for sensor readings
+ * Every reading is appended as one JSON line with a server timestamp,
+ * so history survives restarts and can be queried by time range
+ * - Rotation: one file per UTC day next to the configured path (history.jsonl -> history-2025-11-08.jsonl);
+ *   day files older than the retention period are deleted
+ * - Queries only open the day files their time range covers, newest first, and stop once `limit`
+ *   readings are found; a file written before rotation (the configured path itself) is read last
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { SensorState, SensorField, SENSOR_FIELDS } from './types';
+
+export interface StoredReading extends SensorState {
+  ts: number; // server timestamp (ms since epoch)
+  deviceId?: string; // absent in readings stored before multi-device support
+}
+
+export type HistoryReading = { ts: number; deviceId?: string } & Partial<SensorState>;
+
+export interface HistoryQuery {
+  from?: number;
+  to?: number;
+  fields?: SensorField[];
+  deviceIds?: string[];
+  limit?: number;
+}
+
+// Readings per query when none (or too many) are asked for; a day at 1 Hz is ~86k readings
+export const DEFAULT_HISTORY_LIMIT = 1000;
+export const MAX_HISTORY_LIMIT = 10000;
+export const DEFAULT_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class HistoryStore {
+  private stream: fs.WriteStream | null = null;
+  private streamDay: string | null = null;
+  private lastReading: StoredReading | null = null;
+  private dir: string;
+  private baseName: string;
+
+  /**
+   * @param retentionDays day files older than this are deleted (0 = keep everything)
+   */
+  constructor(private filePath: string, private retentionDays: number = DEFAULT_RETENTION_DAYS) {
+    this.dir = path.dirname(filePath);
+    this.baseName = path.basename(filePath, path.extname(filePath));
+  }
+
+  /**
+   * Open today's history file for appending (creates the directory if needed)
+   */
+  open(ts: number = Date.now()): void {
+    const day = dayOf(ts);
+    if (this.stream && this.streamDay === day) {
+      return;
+    }
+    this.close();
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.stream = fs.createWriteStream(this.dayFile(day), { flags: 'a' });
+    this.streamDay = day;
+    this.stream.on('error', (error) => {
+      console.error('❌ History store write error:', error.message);
+    });
+    this.prune(ts);
+  }
+
+  /**
+   * Append a reading, stamped with the current server time
+   */
+  append(state: SensorState, deviceId: string, ts: number = Date.now()): StoredReading {
+    // Also rolls over to the next day's file
+    this.open(ts);
+    const reading: StoredReading = { ts, deviceId, ...state };
+    this.stream!.write(JSON.stringify(reading) + '\n');
+    this.lastReading = reading;
+    return reading;
+  }
+
+  /**
+   * Most recent reading appended during this process lifetime
+   */
+  getLastReading(): StoredReading | null {
+    return this.lastReading;
+  }
+
+  /**
+   * Read the newest `limit` stored readings within [from, to] (oldest first), optionally projecting fields
+   * Lines that fail to parse (e.g. a torn write on crash) are skipped
+   */
+  async query({ from = 0, to = Number.MAX_SAFE_INTEGER, fields = SENSOR_FIELDS, deviceIds, limit }: HistoryQuery = {}): Promise<HistoryReading[]> {
+    let remaining = Math.min(limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+    const chunks: HistoryReading[][] = [];
+
+    for (const file of this.filesFor(from, to)) {
+      if (remaining <= 0) {
+        break;
+      }
+      const chunk = await readFile(file, { from, to, fields, deviceIds }, remaining);
+      chunks.unshift(chunk);
+      remaining -= chunk.length;
+    }
+
+    return chunks.flat();
+  }
+
+  /**
+   * Flush and close the underlying file
+   */
+  close(callback?: () => void): void {
+    if (!this.stream) {
+      callback?.();
+      return;
+    }
+    this.stream.end(() => callback?.());
+    this.stream = null;
+    this.streamDay = null;
+  }
+
+  private dayFile(day: string): string {
+    return path.join(this.dir, `${this.baseName}-${day}.jsonl`);
+  }
+
+  // Day files on disk, oldest first
+  private listDays(): string[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    const pattern = new RegExp(`^${escapeRegExp(this.baseName)}-(\\d{4}-\\d{2}-\\d{2})\\.jsonl$`);
+    return fs
+      .readdirSync(this.dir)
+      .map((name) => pattern.exec(name)?.[1])
+      .filter((day): day is string => day !== undefined)
+      .sort();
+  }
+
+  // Files that may hold readings in [from, to], newest first
+  private filesFor(from: number, to: number): string[] {
+    const firstDay = dayOf(Math.max(0, from));
+    const lastDay = dayOf(Math.min(to, MAX_DATE_MS));
+    const files = this.listDays()
+      .filter((day) => day >= firstDay && day <= lastDay)
+      .reverse()
+      .map((day) => this.dayFile(day));
+    if (fs.existsSync(this.filePath)) {
+      files.push(this.filePath);
+    }
+    return files;
+  }
+
+  private prune(now: number): void {
+    if (this.retentionDays <= 0) {
+      return;
+    }
+    const oldestKept = dayOf(now - this.retentionDays * DAY_MS);
+    for (const day of this.listDays()) {
+      if (day >= oldestKept) {
+        break;
+      }
+      try {
+        fs.unlinkSync(this.dayFile(day));
+        console.log(`🗑️  Deleted history older than ${this.retentionDays} days: ${this.dayFile(day)}`);
+      } catch (error: any) {
+        console.error(`❌ Could not delete ${this.dayFile(day)}:`, error.message);
+      }
+    }
+  }
+}
+
+// Last timestamp whose day still has a four-digit year (keeps day strings comparable)
+const MAX_DATE_MS = Date.UTC(9999, 11, 31);
+
+// UTC day of a timestamp, e.g. '2025-11-08'
+function dayOf(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Newest `limit` matching readings of one file, oldest first
+ * A ring buffer keeps the newest ones without shifting an array for every line
+ */
+async function readFile(
+  filePath: string,
+  { from, to, fields, deviceIds }: Required<Pick<HistoryQuery, 'from' | 'to' | 'fields'>> & Pick<HistoryQuery, 'deviceIds'>,
+  limit: number
+): Promise<HistoryReading[]> {
+  const ring: HistoryReading[] = new Array(limit);
+  let count = 0;
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of rl) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let reading: StoredReading;
+    try {
+      reading = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (typeof reading.ts !== 'number' || reading.ts < from || reading.ts > to) {
+      continue;
+    }
+
+    if (deviceIds && !(reading.deviceId && deviceIds.includes(reading.deviceId))) {
+      continue;
+    }
+
+    const projected: HistoryReading = { ts: reading.ts, deviceId: reading.deviceId };
+    for (const field of fields) {
+      if (typeof reading[field] === 'number') {
+        projected[field] = reading[field];
+      }
+    }
+    ring[count % limit] = projected;
+    count++;
+  }
+
+  if (count <= limit) {
+    return ring.slice(0, count);
+  }
+  const start = count % limit;
+  return [...ring.slice(start), ...ring.slice(0, start)];
+}
+
+/**
+ * Parse a time query parameter: epoch milliseconds or an ISO-8601 string
+ * Up to four digits is a year ('2024'), not milliseconds after 1970
+ */
+export function parseTimeParam(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  if (/^\d{5,}$/.test(value)) {
+    return Number(value);
+  }
+  const asDate = Date.parse(value);
+  return Number.isNaN(asDate) ? null : asDate;
+}
+
+/**
+ * Parse a comma-separated list of sensor fields
+ * Returns null if any field is not a known sensor channel
+ */
+export function parseFieldsParam(value: unknown): SensorField[] | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const fields = value.split(',').map((f) => f.trim()).filter(Boolean);
+  if (!fields.every((f) => (SENSOR_FIELDS as string[]).includes(f))) {
+    return null;
+  }
+  return fields as SensorField[];
+}
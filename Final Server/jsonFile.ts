@@ -0,0 +1,36 @@
+/**
+ * Small JSON files the server keeps its state in (alert rules, webhook queue, device registry...)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Parsed contents of a JSON file, or null if it doesn't exist or can't be read
+ */
+export function readJsonFile<T>(filePath: string): T | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    console.error(`❌ Could not read ${filePath}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Write a JSON file (creating its directory); errors are logged, not thrown
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash can't leave a half-written file
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  } catch (error: any) {
+    console.error(`❌ Could not save ${filePath}:`, error.message);
+  }
+}
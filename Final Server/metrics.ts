@@ -0,0 +1,84 @@
+/**
+ * Prometheus metrics
+ * Renders metric families in the text exposition format (version 0.0.4) for GET /metrics:
+ *   # HELP plantagotchi_temperature_celsius Last temperature reading
+ *   # TYPE plantagotchi_temperature_celsius gauge
+ *   plantagotchi_temperature_celsius{device="arduino-1",plant="plant-arduino-1"} 23.4
+ */
+
+import { SensorField } from './types';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricType = 'gauge' | 'counter';
+
+export interface MetricSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+// Gauge name and help text for each sensor channel
+export const SENSOR_METRICS: Record<SensorField, { name: string; help: string }> = {
+  soil: { name: 'plantagotchi_soil_moisture_raw', help: 'Last soil moisture reading (raw 0-1023, higher is drier)' },
+  temp: { name: 'plantagotchi_temperature_celsius', help: 'Last temperature reading' },
+  hum: { name: 'plantagotchi_humidity_percent', help: 'Last relative humidity reading' },
+  mq2: { name: 'plantagotchi_mq2_raw', help: 'Last MQ-2 gas sensor reading (raw 0-1023)' },
+  rain: { name: 'plantagotchi_rain_raw', help: 'Last rain sensor reading (raw 0-1023, lower is wetter)' },
+  bio: { name: 'plantagotchi_bio_raw', help: 'Last BioAmp EXG reading (raw 0-1023)' },
+};
+
+/**
+ * Counter keyed by a label value (e.g. device ID or message type)
+ */
+export class LabeledCounter {
+  private counts = new Map<string, number>();
+
+  inc(label: string, by = 1): void {
+    this.counts.set(label, (this.counts.get(label) ?? 0) + by);
+  }
+
+  samples(labelName: string): MetricSample[] {
+    return Array.from(this.counts, ([label, value]) => ({ labels: { [labelName]: label }, value }));
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function formatSample(name: string, sample: MetricSample): string {
+  const labels = Object.entries(sample.labels ?? {});
+  const labelText = labels.length
+    ? `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${formatValue(sample.value)}`;
+}
+
+export function renderMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(formatSample(family.name, sample));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
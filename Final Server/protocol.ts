@@ -0,0 +1,89 @@
+/**
+ * Versioned WebSocket protocol
+ * Clients that send a `hello` receive every message wrapped in an envelope:
+ *   { "v": 1, "type": "reading", "seq": 42, "ts": 1762560001000, "data": { ... } }
+ * Clients that never say hello are treated as legacy and keep receiving bare
+ * `{ line, json }` reading payloads (and nothing else).
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+export type MessageType = 'reading' | 'mode' | 'alert' | 'hello' | 'error' | 'pong';
+export const MESSAGE_TYPES: MessageType[] = ['reading', 'mode', 'alert', 'hello', 'error', 'pong'];
+
+export interface Envelope<T = unknown> {
+  v: number;
+  type: MessageType;
+  seq: number;   // per-connection, starts at 1; a gap means a message was missed
+  ts: number;    // server time (ms since epoch)
+  data: T;
+}
+
+// Client → server handshake
+export interface HelloMessage {
+  type: 'hello';
+  v: number;
+  accepts?: MessageType[]; // message types the client understands (default: all)
+  client?: string;         // free-form client name, for logs
+}
+
+/**
+ * Per-connection protocol state
+ * `version` stays null until the client says hello (legacy client)
+ */
+export class ProtocolSession {
+  version: number | null = null;
+  client: string | null = null;
+  private accepted = new Set<MessageType>();
+  private seq = 0;
+
+  isLegacy(): boolean {
+    return this.version === null;
+  }
+
+  /**
+   * Apply a hello message; returns the negotiated message types
+   */
+  negotiate(hello: HelloMessage): MessageType[] {
+    this.version = PROTOCOL_VERSION;
+    this.client = hello.client || null;
+    // 'hello', 'error' and 'pong' are always delivered once a client has said hello
+    const requested = hello.accepts ?? MESSAGE_TYPES;
+    this.accepted = new Set<MessageType>([...requested, 'hello', 'error', 'pong']);
+    return MESSAGE_TYPES.filter((type) => this.accepted.has(type));
+  }
+
+  accepts(type: MessageType): boolean {
+    return this.accepted.has(type);
+  }
+
+  wrap<T>(type: MessageType, data: T): Envelope<T> {
+    return { v: PROTOCOL_VERSION, type, seq: ++this.seq, ts: Date.now(), data };
+  }
+}
+
+/**
+ * Validate an untrusted hello message
+ * Returns an error message, or null if the hello is valid
+ */
+export function validateHello(message: any): string | null {
+  if (typeof message.v !== 'number') {
+    return 'Invalid hello: "v" must be the protocol version number';
+  }
+  if (message.v !== PROTOCOL_VERSION) {
+    return `Unsupported protocol version ${message.v}: server speaks v${PROTOCOL_VERSION}`;
+  }
+  if (message.accepts !== undefined) {
+    if (!Array.isArray(message.accepts)) {
+      return 'Invalid hello: "accepts" must be an array of message types';
+    }
+    const unknown = message.accepts.find((type: unknown) => !MESSAGE_TYPES.includes(type as MessageType));
+    if (unknown !== undefined) {
+      return `Invalid hello: unknown message type "${unknown}"`;
+    }
+  }
+  if (message.client !== undefined && typeof message.client !== 'string') {
+    return 'Invalid hello: "client" must be a string';
+  }
+  return null;
+}
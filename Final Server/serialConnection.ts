@@ -0,0 +1,298 @@
+/**
+ * Serial port connection manager
+ * Finds the sensor board, keeps the port open and reconnects after it drops:
+ * - Fixed port: opens the configured path (e.g. COM11)
+ * - Auto-detect: lists serial ports and probes each one for a valid sensor frame
+ * - Hot-plug: when the port closes unexpectedly (cable unplugged), retries with
+ *   exponential backoff until the board is back
+ */
+
+import { SerialPort } from 'serialport';
+import { SerialFramer } from './serialFramer';
+
+export interface SerialPortCandidate {
+  path: string;
+  manufacturer: string | null;
+  vendorId: string | null;
+  productId: string | null;
+  serialNumber: string | null;
+  likelyBoard: boolean; // USB vendor of an Arduino or a common USB-serial chip
+}
+
+export interface SerialStatus {
+  port: string | null;          // open port, or the one being tried
+  autoDetect: boolean;
+  connected: boolean;
+  baudRate: number;
+  attempts: number;             // failed attempts since the last successful open
+  nextRetryAt: number | null;   // ms since epoch
+  lastError: string | null;
+}
+
+export interface SerialConnectionOptions {
+  port: string | null;          // null = auto-detect
+  baudRate: number;
+  onData: (chunk: string) => void;
+  onOpen?: (path: string) => void;
+}
+
+// USB vendor IDs: Arduino (2341, 2a03), CH340 (1a86), FTDI (0403), CP210x (10c4), Prolific (067b)
+const BOARD_VENDOR_IDS = ['2341', '2a03', '1a86', '0403', '10c4', '067b'];
+
+// Opening the port resets an Arduino; the sketch waits 2 s in setup() before its first frame
+const PROBE_TIMEOUT_MS = 4000;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * List serial ports, likely sensor boards first
+ */
+export async function listSerialPorts(): Promise<SerialPortCandidate[]> {
+  const ports = await SerialPort.list();
+  return ports
+    .map((info) => ({
+      path: info.path,
+      manufacturer: info.manufacturer ?? null,
+      vendorId: info.vendorId ?? null,
+      productId: info.productId ?? null,
+      serialNumber: info.serialNumber ?? null,
+      likelyBoard: !!info.vendorId && BOARD_VENDOR_IDS.includes(info.vendorId.toLowerCase()),
+    }))
+    .sort((a, b) => Number(b.likelyBoard) - Number(a.likelyBoard));
+}
+
+function openPort(path: string, baudRate: number): Promise<SerialPort> {
+  return new Promise((resolve, reject) => {
+    const port = new SerialPort({ path, baudRate, autoOpen: false });
+    port.open((err) => (err ? reject(err) : resolve(port)));
+  });
+}
+
+function closePort(port: SerialPort): void {
+  if (port.isOpen) {
+    port.close(() => {});
+  }
+}
+
+/**
+ * Open a port and wait for a valid sensor frame
+ * Resolves with the open port, or rejects (and closes it) if none arrives in time
+ */
+async function probePort(path: string, baudRate: number, timeoutMs: number = PROBE_TIMEOUT_MS): Promise<SerialPort> {
+  const port = await openPort(path, baudRate);
+  const framer = new SerialFramer();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      port.off('data', onData);
+      port.off('close', onClose);
+      port.off('error', onError);
+    };
+    const onData = (data: Buffer) => {
+      if (framer.push(data.toString('utf8')).some((frame) => frame.ok)) {
+        cleanup();
+        resolve(port);
+      }
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error(`${path} closed while probing`));
+    };
+    // Without a listener an unplug mid-probe would be an uncaught 'error' event
+    const onError = (err: Error) => {
+      cleanup();
+      closePort(port);
+      reject(new Error(`${path} failed while probing: ${err.message}`));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      closePort(port);
+      reject(new Error(`No sensor frames from ${path} within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    port.on('data', onData);
+    port.on('close', onClose);
+    port.on('error', onError);
+  });
+}
+
+export class SerialConnection {
+  private port: SerialPort | null = null;
+  private requestedPort: string | null;
+  private baudRate: number;
+  private running = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private nextRetryAt: number | null = null;
+  private lastError: string | null = null;
+  private triedPort: string | null = null;
+  // Bumped by connect()/stop() so attempts still in flight know they are stale
+  private generation = 0;
+
+  constructor(private options: SerialConnectionOptions) {
+    this.requestedPort = options.port;
+    this.baudRate = options.baudRate;
+  }
+
+  /**
+   * Start connecting (no-op if already started); keeps retrying until stop()
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.attempt();
+  }
+
+  /**
+   * Close the port and stop retrying
+   */
+  stop(): void {
+    this.running = false;
+    this.generation++;
+    this.clearRetry();
+    this.closeCurrent();
+  }
+
+  /**
+   * Switch to another port (null = auto-detect) and/or baud rate at runtime
+   * Resolves true once connected; on failure keeps retrying in the background
+   */
+  async connect(port: string | null, baudRate: number = this.baudRate): Promise<boolean> {
+    this.stop();
+    this.requestedPort = port;
+    this.baudRate = baudRate;
+    this.attempts = 0;
+    this.running = true;
+    return this.attempt();
+  }
+
+  isConnected(): boolean {
+    return this.port !== null && this.port.isOpen;
+  }
+
+  getStatus(): SerialStatus {
+    return {
+      port: this.port?.path ?? this.requestedPort ?? this.triedPort,
+      autoDetect: this.requestedPort === null,
+      connected: this.isConnected(),
+      baudRate: this.baudRate,
+      attempts: this.attempts,
+      nextRetryAt: this.nextRetryAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private async attempt(): Promise<boolean> {
+    const generation = this.generation;
+    this.clearRetry();
+
+    try {
+      const port = this.requestedPort
+        ? await openPort(this.requestedPort, this.baudRate)
+        : await this.detect(generation);
+
+      if (generation !== this.generation) {
+        // connect()/stop() was called while we were opening
+        closePort(port);
+        return false;
+      }
+
+      this.attach(port);
+      return true;
+    } catch (error: any) {
+      if (generation !== this.generation) {
+        return false;
+      }
+      this.lastError = error.message;
+      console.error(`❌ Serial connection failed: ${error.message}`);
+      this.scheduleRetry();
+      return false;
+    }
+  }
+
+  // Probe every candidate port, likely boards first
+  private async detect(generation: number): Promise<SerialPort> {
+    const candidates = await listSerialPorts();
+    if (candidates.length === 0) {
+      throw new Error('No serial ports found. Is the board plugged in?');
+    }
+
+    for (const candidate of candidates) {
+      if (generation !== this.generation) {
+        break;
+      }
+      this.triedPort = candidate.path;
+      console.log(`🔍 Probing ${candidate.path}${candidate.manufacturer ? ` (${candidate.manufacturer})` : ''}...`);
+      try {
+        return await probePort(candidate.path, this.baudRate);
+      } catch (error: any) {
+        console.log(`   ${error.message}`);
+      }
+    }
+    this.triedPort = null;
+    throw new Error(`No sensor board found on ${candidates.map((c) => c.path).join(', ')}`);
+  }
+
+  private attach(port: SerialPort): void {
+    this.port = port;
+    this.attempts = 0;
+    this.lastError = null;
+    console.log(`✅ Serial port ${port.path} opened at ${this.baudRate} baud`);
+    this.options.onOpen?.(port.path);
+
+    port.on('data', (data: Buffer) => this.options.onData(data.toString('utf8')));
+
+    port.on('error', (err) => {
+      console.error('❌ Serial port error:', err.message);
+      this.lastError = err.message;
+    });
+
+    port.on('close', () => {
+      if (this.port !== port) {
+        return;
+      }
+      this.port = null;
+      console.log(`🔌 Serial port ${port.path} closed`);
+      // Unexpected close (e.g. cable unplugged): go back to reconnecting
+      if (this.running) {
+        this.lastError = `${port.path} disconnected`;
+        this.scheduleRetry();
+      }
+    });
+  }
+
+  private scheduleRetry(): void {
+    if (!this.running || this.retryTimer) {
+      return;
+    }
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, this.attempts));
+    this.attempts++;
+    this.nextRetryAt = Date.now() + delay;
+    console.log(`⏳ Retrying serial connection in ${Math.round(delay / 1000)}s (attempt ${this.attempts})`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.nextRetryAt = null;
+      this.attempt();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  private closeCurrent(): void {
+    const port = this.port;
+    this.port = null;
+    if (port) {
+      closePort(port);
+      console.log(`🔌 Serial port ${port.path} closed`);
+    }
+  }
+}
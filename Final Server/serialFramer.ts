@@ -0,0 +1,294 @@
+/**
+ * Framing layer for the Arduino serial stream
+ * Splits a raw byte stream into frames and parses each one into a SensorState.
+ *
+ * Accepted frame formats:
+ * - Bare line:      STATE;soil=395;temp=22.9;hum=19.0;mq2=85;rain=1020;bio=513
+ * - JSON envelope:  { "line": "STATE;...", "json": { "soil": 395, ... } }  (may span several lines)
+ * - Flat JSON:      { "soil": 395, "temp": 22.9, ... }
+ *
+ * Boards that share a server identify themselves with an optional device ID:
+ * `device=<id>` in a STATE line, or a "device" field in either JSON format.
+ *
+ * JSON frames may also carry the BioAmp samples taken since the previous frame as
+ * "bioRate" (samples per second) and "bioSamples" (array, oldest first). A batch that
+ * doesn't validate is dropped; the reading itself is still accepted.
+ *
+ * Chunks can end anywhere (mid-line, mid-object). CR/LF line endings are both
+ * handled, and bytes that don't belong to a frame (e.g. boot noise after a board
+ * reset) are discarded until the next '{' or 'STATE;' marker.
+ */
+
+import { BioBatch, SensorState, SENSOR_FIELDS, isBioBatch, isSensorState } from './types';
+import { isValidId } from './deviceRegistry';
+
+export type FrameFormat = 'line' | 'envelope' | 'flat';
+
+export type FrameResult =
+  | { ok: true; state: SensorState; deviceId?: string; bioBatch?: BioBatch; format: FrameFormat; raw: string }
+  | { ok: false; reason: string; raw: string };
+
+export interface FramerStats {
+  framesParsed: number;
+  framesRejected: number;
+  bytesDiscarded: number;
+}
+
+const LINE_PREFIX = 'STATE;';
+// Longest frame we are willing to buffer before giving up and resyncing
+// (a full batch of BioAmp samples fits)
+const MAX_FRAME_LENGTH = 4096;
+
+/**
+ * Parse a `STATE;key=value;...` line into a SensorState (plus optional device ID)
+ * Unknown keys are ignored; every sensor field must be present and numeric
+ */
+export function parseStateLine(line: string): { state: SensorState; deviceId?: string } | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(LINE_PREFIX)) {
+    return null;
+  }
+
+  const values: Record<string, number> = {};
+  let deviceId: string | undefined;
+  for (const part of trimmed.slice(LINE_PREFIX.length).split(';')) {
+    if (!part) {
+      continue;
+    }
+    const eq = part.indexOf('=');
+    if (eq <= 0) {
+      return null;
+    }
+    const key = part.slice(0, eq).trim();
+    const raw = part.slice(eq + 1).trim();
+    if (key === 'device') {
+      if (!isValidId(raw)) {
+        return null;
+      }
+      deviceId = raw;
+      continue;
+    }
+    const value = Number(raw);
+    if (raw === '' || !Number.isFinite(value)) {
+      return null;
+    }
+    values[key] = value;
+  }
+
+  if (!isSensorState(values)) {
+    return null;
+  }
+  return { state: pickSensorFields(values), deviceId };
+}
+
+/**
+ * Parse a single complete frame (line or JSON object)
+ */
+export function parseFrame(frame: string): FrameResult {
+  const raw = frame.trim();
+
+  if (raw.startsWith(LINE_PREFIX)) {
+    const parsedLine = parseStateLine(raw);
+    return parsedLine
+      ? { ok: true, ...parsedLine, format: 'line', raw }
+      : { ok: false, reason: 'STATE line is missing fields or has invalid values', raw };
+  }
+
+  if (!raw.startsWith('{')) {
+    return { ok: false, reason: 'Unrecognised frame', raw };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    return { ok: false, reason: `Invalid JSON: ${error.message}`, raw };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, reason: 'JSON frame is not an object', raw };
+  }
+
+  const device = parsed.device ?? parsed.json?.device;
+  if (device !== undefined && !isValidId(device)) {
+    return { ok: false, reason: 'Invalid device ID', raw };
+  }
+  const deviceId: string | undefined = device;
+
+  // Envelope: prefer the structured json, fall back to the embedded line
+  if ('json' in parsed || 'line' in parsed) {
+    const parsedLine = typeof parsed.line === 'string' ? parseStateLine(parsed.line) : null;
+    const envelopeDeviceId = deviceId ?? parsedLine?.deviceId;
+    if (isFiniteSensorState(parsed.json)) {
+      const bioBatch = pickBioBatch(parsed.json);
+      return { ok: true, state: pickSensorFields(parsed.json), deviceId: envelopeDeviceId, bioBatch, format: 'envelope', raw };
+    }
+    if (parsedLine) {
+      return { ok: true, state: parsedLine.state, deviceId: envelopeDeviceId, format: 'envelope', raw };
+    }
+    return { ok: false, reason: 'Envelope is missing or has invalid sensor fields', raw };
+  }
+
+  if (isFiniteSensorState(parsed)) {
+    return { ok: true, state: pickSensorFields(parsed), deviceId, bioBatch: pickBioBatch(parsed), format: 'flat', raw };
+  }
+
+  return { ok: false, reason: 'JSON frame is missing or has invalid sensor fields', raw };
+}
+
+function isFiniteSensorState(value: any): value is SensorState {
+  return isSensorState(value) && SENSOR_FIELDS.every((field) => Number.isFinite(value[field]));
+}
+
+function pickSensorFields(source: Record<string, any>): SensorState {
+  return {
+    soil: source.soil,
+    temp: source.temp,
+    hum: source.hum,
+    mq2: source.mq2,
+    rain: source.rain,
+    bio: source.bio,
+  };
+}
+
+function pickBioBatch(source: Record<string, any>): BioBatch | undefined {
+  const batch = { rate: source.bioRate, samples: source.bioSamples };
+  return isBioBatch(batch) ? { rate: batch.rate, samples: [...batch.samples] } : undefined;
+}
+
+/**
+ * Incremental frame splitter for a serial byte stream
+ * Feed it raw chunks with push(); it returns every frame completed by that chunk.
+ */
+export class SerialFramer {
+  private buffer = '';
+  private mode: 'scan' | 'line' | 'json' = 'scan';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stats: FramerStats = { framesParsed: 0, framesRejected: 0, bytesDiscarded: 0 };
+
+  /**
+   * Consume a chunk of serial data and return the frames it completed
+   */
+  push(chunk: string): FrameResult[] {
+    const results: FrameResult[] = [];
+
+    for (const char of chunk) {
+      switch (this.mode) {
+        case 'scan':
+          this.scan(char);
+          break;
+
+        case 'line':
+          if (char === '\n' || char === '\r') {
+            results.push(this.emit(this.buffer));
+          } else {
+            this.buffer += char;
+          }
+          break;
+
+        case 'json':
+          this.buffer += char;
+          if (this.inString) {
+            if (this.escaped) {
+              this.escaped = false;
+            } else if (char === '\\') {
+              this.escaped = true;
+            } else if (char === '"') {
+              this.inString = false;
+            } else if (char === '\n' || char === '\r') {
+              // Raw newlines can't appear inside JSON strings: the frame was cut off
+              results.push(this.reject('Frame truncated mid-string'));
+            }
+          } else if (char === '"') {
+            this.inString = true;
+          } else if (char === '{') {
+            this.depth++;
+          } else if (char === '}') {
+            this.depth--;
+            if (this.depth === 0) {
+              results.push(this.emit(this.buffer));
+            }
+          }
+          break;
+      }
+
+      if (this.mode !== 'scan' && this.buffer.length > MAX_FRAME_LENGTH) {
+        results.push(this.reject(`Frame exceeded ${MAX_FRAME_LENGTH} characters`));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Drop any partial frame (e.g. after reopening the port)
+   */
+  reset(): void {
+    if (this.mode === 'scan') {
+      this.stats.bytesDiscarded += this.buffer.length;
+    }
+    this.resetFrame();
+  }
+
+  getStats(): FramerStats {
+    return { ...this.stats };
+  }
+
+  // Between frames: wait for '{' or the 'STATE;' prefix, discarding anything else
+  private scan(char: string): void {
+    if (char === '{') {
+      this.stats.bytesDiscarded += this.buffer.length;
+      this.buffer = '{';
+      this.mode = 'json';
+      this.depth = 1;
+      return;
+    }
+
+    if (char === '\n' || char === '\r') {
+      this.stats.bytesDiscarded += this.buffer.length;
+      this.buffer = '';
+      return;
+    }
+
+    this.buffer += char;
+    const markerAt = this.buffer.indexOf(LINE_PREFIX);
+    if (markerAt >= 0) {
+      this.stats.bytesDiscarded += markerAt;
+      this.buffer = this.buffer.slice(markerAt);
+      this.mode = 'line';
+    } else if (this.buffer.length > LINE_PREFIX.length) {
+      // Keep only what could still be the start of the prefix
+      const drop = this.buffer.length - LINE_PREFIX.length;
+      this.stats.bytesDiscarded += drop;
+      this.buffer = this.buffer.slice(drop);
+    }
+  }
+
+  private emit(frame: string): FrameResult {
+    this.resetFrame();
+    const result = parseFrame(frame);
+    if (result.ok) {
+      this.stats.framesParsed++;
+    } else {
+      this.stats.framesRejected++;
+    }
+    return result;
+  }
+
+  private reject(reason: string): FrameResult {
+    const raw = this.buffer;
+    this.resetFrame();
+    this.stats.framesRejected++;
+    return { ok: false, reason, raw };
+  }
+
+  private resetFrame(): void {
+    this.buffer = '';
+    this.mode = 'scan';
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+  }
+}
@@ -2,35 +2,119 @@ import express from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
 import cors from 'cors';
-import { SerialPort } from 'serialport';
 import path from 'path';
 import fs from 'fs';
-
-interface SensorState {
-  soil: number;      // raw 0-1023
-  temp: number;      // °C
-  hum: number;       // % RH
-  mq2: number;       // raw 0-1023
-  rain: number;      // raw 0-1023
-  bio: number;       // raw 0-1023 (BioAmp EXG)
-}
+import { BioBatch, SensorState, SENSOR_FIELDS } from './types';
+import { HistoryStore, MAX_HISTORY_LIMIT, DEFAULT_RETENTION_DAYS, parseTimeParam, parseFieldsParam } from './historyStore';
+import { SerialFramer } from './serialFramer';
+import { SerialConnection, listSerialPorts } from './serialConnection';
+import {
+  CaptureRecorder,
+  ReplayPlayer,
+  ReplayControl,
+  listCaptures,
+  resolveCapturePath,
+  validateReplayControl,
+} from './capture';
+import { PlantSimulator, SimulatorParams, validateSimulatorParams } from './simulator';
+import { DeviceRegistry, isValidId } from './deviceRegistry';
+import { AlertEngine, Alert, AlertEvent, AlertRule, validateAlertRule } from './alertEngine';
+import { WebhookDispatcher, WebhookEventType, parseWebhookUrls } from './webhooks';
+import { MqttBridge, MqttCommand } from './mqttBridge';
+import { LabeledCounter, MetricFamily, METRICS_CONTENT_TYPE, SENSOR_METRICS, renderMetrics } from './metrics';
+import { ProtocolSession, MessageType, HelloMessage, PROTOCOL_VERSION, validateHello } from './protocol';
+import { EventStreamHub } from './eventStream';
+import { DiscoveryAdvertiser, buildPairingInfo, defaultServiceName, pairingQrSvg } from './discovery';
 
 interface WireStatePayload {
   line: string;
   json: SensorState;
+  deviceId: string;
+  plantId: string | null;
+  bioBatch?: BioBatch; // BioAmp samples since the previous reading; only on freshly received readings
+  source: ServerMode; // mode the reading came from; only 'real' readings are persisted or alerted on
 }
 
 interface WebSocketMessage {
-  type: 'start' | 'stop' | 'set' | 'setMode';
+  type: 'start' | 'stop' | 'set' | 'setMode' | 'subscribe' | 'hello' | 'ping';
+  id?: number;
   intervalMs?: number;
   state?: SensorState;
-  mode?: 'real' | 'mock';
+  deviceId?: string;
+  plantId?: string | null;
+  mode?: ServerMode;
+  replay?: ReplayControl;
 }
 
-// Mode: 'real' for Arduino serial, 'mock' for mock values
-type ServerMode = 'real' | 'mock';
+// Mode: 'real' for Arduino serial, 'mock' for mock values, 'replay' for recorded captures,
+// 'sim' for the plant environment simulator
+type ServerMode = 'real' | 'mock' | 'replay' | 'sim';
+const SERVER_MODES: ServerMode[] = ['real', 'mock', 'replay', 'sim'];
 let currentMode: ServerMode = 'real';
 
+// Device ID for readings that don't name their board (single-board setups, mock, sim)
+const DEFAULT_DEVICE_ID = process.env.DEVICE_ID || 'arduino-1';
+
+// Registry of boards and the plants they're assigned to
+const DEVICES_FILE = process.env.DEVICES_FILE || path.join(__dirname, 'data', 'devices.json');
+const deviceRegistry = new DeviceRegistry(DEVICES_FILE);
+deviceRegistry.load();
+
+// Latest reading per device; currentState is the most recent reading from any device
+const latestStates = new Map<string, SensorState>();
+// Mode each device's latest reading came from, so re-sends keep their source after a mode switch
+const latestSources = new Map<string, ServerMode>();
+
+// Counters for /metrics
+const readingsReceived = new LabeledCounter(); // by device
+const broadcastsSent = new LabeledCounter();   // by message type
+
+// Webhooks: alert events are POSTed to WEBHOOK_URLS (comma-separated), signed with WEBHOOK_SECRET
+const webhookUrls = parseWebhookUrls(process.env.WEBHOOK_URLS);
+if (webhookUrls.error) {
+  console.error(`❌ ${webhookUrls.error} (webhooks disabled)`);
+}
+const webhooks = new WebhookDispatcher({
+  urls: webhookUrls.urls,
+  secret: process.env.WEBHOOK_SECRET || null,
+  queueFile: process.env.WEBHOOK_QUEUE_FILE || path.join(__dirname, 'data', 'webhook-queue.json'),
+  logFile: process.env.WEBHOOK_LOG_FILE || path.join(__dirname, 'data', 'webhook-deliveries.json'),
+});
+webhooks.load();
+webhooks.start();
+
+// Optional MQTT bridge (Home Assistant discovery, command topic); enabled by MQTT_URL
+const mqttBridge = process.env.MQTT_URL
+  ? new MqttBridge({
+      url: process.env.MQTT_URL,
+      username: process.env.MQTT_USERNAME,
+      password: process.env.MQTT_PASSWORD,
+      baseTopic: process.env.MQTT_BASE_TOPIC || 'plantagotchi',
+      discoveryPrefix: process.env.MQTT_DISCOVERY_PREFIX || 'homeassistant',
+      onCommand: handleMqttCommand,
+    })
+  : null;
+
+// Alert rules checked against every reading; fired alerts are pushed to v1 clients and webhooks
+const ALERT_RULES_FILE = process.env.ALERT_RULES_FILE || path.join(__dirname, 'data', 'alert-rules.json');
+const ALERTS_FILE = process.env.ALERTS_FILE || path.join(__dirname, 'data', 'alerts.json');
+const alertEngine = new AlertEngine(ALERT_RULES_FILE, ALERTS_FILE, (event) => {
+  const icon = event.event === 'fired' ? '🚨' : event.event === 'cleared' ? '✅' : '👍';
+  console.log(`${icon} Alert ${event.event}: ${event.alert.message} (${event.alert.deviceId})`);
+  broadcastAlert(event);
+  if (event.event !== 'acknowledged') {
+    sendWebhook(`alert.${event.event}`, event.alert.deviceId, event.alert);
+  }
+});
+alertEngine.load();
+
+// Per-connection state: subscribed plant (null = all plants) and protocol session
+interface ClientState {
+  plantId: string | null;
+  session: ProtocolSession;
+}
+const clients = new WeakMap<WebSocket, ClientState>();
+
 // Current sensor state - initialized with default values
 let currentState: SensorState = {
   soil: 550,
@@ -44,16 +128,48 @@ let currentState: SensorState = {
 let streamInterval: NodeJS.Timeout | null = null;
 let streamIntervalMs = 1000;
 
-// Serial port configuration
-const SERIAL_PORT = process.env.SERIAL_PORT || (process.platform === 'win32' ? 'COM11' : '/dev/ttyUSB0');
+// Bumped on every reading; the ETag of /api/state so pollers get 304 when nothing changed
+let stateVersion = 0;
+
+// Serial port configuration (unset or 'auto' = probe ports for the board)
+const SERIAL_PORT = process.env.SERIAL_PORT && process.env.SERIAL_PORT !== 'auto' ? process.env.SERIAL_PORT : null;
 const SERIAL_BAUD_RATE = process.env.SERIAL_BAUD_RATE ? parseInt(process.env.SERIAL_BAUD_RATE, 10) : 9600;
 
-let serialPort: SerialPort | null = null;
-let isSerialConnected = false;
+// Persistent history of every reading (append-only JSON lines, one file per day)
+const HISTORY_FILE = process.env.HISTORY_FILE || path.join(__dirname, 'data', 'history.jsonl');
+const HISTORY_RETENTION_DAYS = process.env.HISTORY_RETENTION_DAYS
+  ? parseInt(process.env.HISTORY_RETENTION_DAYS, 10)
+  : DEFAULT_RETENTION_DAYS;
+const historyStore = new HistoryStore(HISTORY_FILE, HISTORY_RETENTION_DAYS);
+historyStore.open();
 
-// Buffer for accumulating multi-line JSON from Arduino
-let jsonBuffer = '';
-let braceCount = 0;
+// Splits the serial stream into STATE lines / JSON frames
+const serialFramer = new SerialFramer();
+
+// Opens (or finds) the board's serial port and reconnects when it drops
+const serialConnection = new SerialConnection({
+  port: SERIAL_PORT,
+  baudRate: SERIAL_BAUD_RATE,
+  onData: handleSerialData,
+  // Drop any partial frame left from a previous connection
+  onOpen: () => serialFramer.reset(),
+});
+
+// Capture recording (real mode) and replay (replay mode)
+const CAPTURES_DIR = process.env.CAPTURES_DIR || path.join(__dirname, 'data', 'captures');
+const captureRecorder = new CaptureRecorder(CAPTURES_DIR);
+const replayPlayer = new ReplayPlayer((state, deviceId, bioBatch) => {
+  if (currentMode === 'replay') {
+    updateStateFromSensorData(state, deviceId, bioBatch);
+  }
+});
+
+// Environment simulator (sim mode)
+const plantSimulator = new PlantSimulator((state, bioBatch) => {
+  if (currentMode === 'sim') {
+    updateStateFromSensorData(state, DEFAULT_DEVICE_ID, bioBatch);
+  }
+});
 
 // Create Express app
 const app = express();
@@ -85,57 +201,295 @@ app.get('/health', (req, res) => {
     ok: true,
     mode: currentMode,
     state: currentState,
-    serialPort: {
-      port: SERIAL_PORT,
-      connected: isSerialConnected,
-      baudRate: SERIAL_BAUD_RATE
-    }
+    serialPort: serialConnection.getStatus(),
+    recording: captureRecorder.getStatus(),
+    replay: replayPlayer.getStatus(),
+    simulator: { running: plantSimulator.isRunning() },
+    devices: deviceRegistry.listDevices().length,
+    plants: deviceRegistry.listPlants().length,
+    mqtt: mqttBridge?.getStatus() ?? null,
   });
 });
 
+// Prometheus metrics: sensor gauges per device, serial, WebSocket and server internals
+app.get('/metrics', (req, res) => {
+  const now = Date.now();
+  const devices = deviceRegistry.listDevices();
+  const serial = serialConnection.getStatus();
+  const framer = serialFramer.getStats();
+
+  const families: MetricFamily[] = SENSOR_FIELDS.map((field) => ({
+    ...SENSOR_METRICS[field],
+    type: 'gauge',
+    samples: devices
+      .filter((device) => latestStates.has(device.id))
+      .map((device) => ({
+        labels: { device: device.id, plant: device.plantId ?? '' },
+        value: latestStates.get(device.id)![field],
+      })),
+  }));
+
+  families.push(
+    {
+      name: 'plantagotchi_last_reading_age_seconds',
+      help: 'Seconds since the last reading from each device',
+      type: 'gauge',
+      samples: devices
+        .filter((device) => device.lastSeen !== null)
+        .map((device) => ({ labels: { device: device.id }, value: (now - device.lastSeen!) / 1000 })),
+    },
+    {
+      name: 'plantagotchi_readings_total',
+      help: 'Readings received since the server started',
+      type: 'counter',
+      samples: readingsReceived.samples('device'),
+    },
+    {
+      name: 'plantagotchi_mode',
+      help: 'Current server mode (1 for the active mode)',
+      type: 'gauge',
+      samples: SERVER_MODES.map((mode) => ({ labels: { mode }, value: mode === currentMode ? 1 : 0 })),
+    },
+    {
+      name: 'plantagotchi_serial_connected',
+      help: 'Whether the serial port is open',
+      type: 'gauge',
+      samples: [{ value: serial.connected ? 1 : 0 }],
+    },
+    {
+      name: 'plantagotchi_serial_reconnect_attempts',
+      help: 'Failed serial connection attempts since the last successful open',
+      type: 'gauge',
+      samples: [{ value: serial.attempts }],
+    },
+    {
+      name: 'plantagotchi_serial_frames_parsed_total',
+      help: 'Serial frames parsed into a reading',
+      type: 'counter',
+      samples: [{ value: framer.framesParsed }],
+    },
+    {
+      name: 'plantagotchi_serial_frames_rejected_total',
+      help: 'Serial frames rejected as malformed, incomplete or oversized',
+      type: 'counter',
+      samples: [{ value: framer.framesRejected }],
+    },
+    {
+      name: 'plantagotchi_serial_bytes_discarded_total',
+      help: 'Serial bytes discarded between frames',
+      type: 'counter',
+      samples: [{ value: framer.bytesDiscarded }],
+    },
+    {
+      name: 'plantagotchi_websocket_clients',
+      help: 'Connected WebSocket clients',
+      type: 'gauge',
+      samples: [{ value: wss.clients.size }],
+    },
+    {
+      name: 'plantagotchi_sse_clients',
+      help: 'Connected Server-Sent Events clients',
+      type: 'gauge',
+      samples: [{ value: eventStreams.size }],
+    },
+    {
+      name: 'plantagotchi_websocket_broadcasts_total',
+      help: 'Messages broadcast to WebSocket clients, by message type',
+      type: 'counter',
+      samples: broadcastsSent.samples('type'),
+    },
+    {
+      name: 'plantagotchi_alerts_active',
+      help: 'Alerts that have fired and not cleared yet',
+      type: 'gauge',
+      samples: [{ value: alertEngine.listAlerts({ active: true }).length }],
+    },
+    {
+      name: 'plantagotchi_webhooks_queued',
+      help: 'Webhook deliveries waiting for a retry',
+      type: 'gauge',
+      samples: [{ value: webhooks.getStatus().queued }],
+    },
+    {
+      name: 'plantagotchi_uptime_seconds',
+      help: 'Seconds since the server started',
+      type: 'gauge',
+      samples: [{ value: process.uptime() }],
+    }
+  );
+
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics(families));
+});
+
 // Get current mode
 app.get('/api/mode', (req, res) => {
   res.json({ mode: currentMode });
 });
 
-// Set mode (real or mock)
-app.post('/api/mode', (req, res) => {
-  const { mode } = req.body;
-  if (mode === 'real' || mode === 'mock') {
-    const previousMode = currentMode;
-    currentMode = mode;
-    
-    // If switching to real mode, try to connect serial port
-    if (mode === 'real' && !isSerialConnected) {
-      initializeSerialPort();
-    }
-    
-    // If switching to mock mode, stop serial port reading (but keep it open)
-    if (mode === 'mock' && serialPort && serialPort.isOpen) {
-      // Don't close serial port, just stop processing its data
-      console.log('🔄 Switched to mock mode - serial port data will be ignored');
-    }
-    
-    console.log(`🔄 Mode switched: ${previousMode} → ${mode}`);
+// Set mode (real, mock, replay or sim)
+// Replay mode accepts an optional `replay` control: { file, speed, paused, positionMs, loop }
+app.post('/api/mode', async (req, res) => {
+  const { mode, replay } = req.body;
+  if (!SERVER_MODES.includes(mode)) {
+    return res.status(400).json({ error: 'Invalid mode. Must be "real", "mock", "replay" or "sim"' });
+  }
+
+  const replayError = validateReplayControl(replay);
+  if (replayError) {
+    return res.status(400).json({ error: replayError });
+  }
+
+  try {
+    const previousMode = mode === 'replay' ? await applyReplayControl(replay || {}, true, true) : switchMode(mode);
     res.json({ mode: currentMode, previousMode });
-    
-    // Don't broadcast mode change - Android app doesn't need to know about mode changes
-    // It just receives sensor data regardless of mode
-  } else {
-    res.status(400).json({ error: 'Invalid mode. Must be "real" or "mock"' });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
   }
 });
 
+// Serial connection status
+app.get('/api/serial', (req, res) => {
+  res.json(serialConnection.getStatus());
+});
+
+// List serial ports that could be the sensor board (likely boards first)
+app.get('/api/serial/ports', async (req, res) => {
+  try {
+    res.json({ ports: await listSerialPorts(), current: serialConnection.getStatus() });
+  } catch (error: any) {
+    console.error('❌ Error listing serial ports:', error);
+    res.status(500).json({ error: `Could not list serial ports: ${error.message}` });
+  }
+});
+
+// Switch serial port at runtime: { "port": "COM5" }, or { "port": "auto" } to probe for the board
+app.post('/api/serial/connect', async (req, res) => {
+  if (currentMode !== 'real') {
+    return res.status(400).json({ error: `Cannot connect the serial port in ${currentMode} mode. Switch to real mode first.` });
+  }
+
+  const { port, baudRate } = req.body || {};
+  if (port !== undefined && (typeof port !== 'string' || !port)) {
+    return res.status(400).json({ error: 'Invalid port: must be a port path or "auto"' });
+  }
+  if (baudRate !== undefined && (!Number.isInteger(baudRate) || baudRate <= 0)) {
+    return res.status(400).json({ error: 'Invalid baudRate: must be a positive integer' });
+  }
+
+  const target = port === undefined || port === 'auto' ? null : port;
+  console.log(`🔌 Switching serial port to ${target ?? 'auto-detect'}`);
+  const connected = await serialConnection.connect(target, baudRate);
+  const status = serialConnection.getStatus();
+  if (!connected) {
+    // Keeps retrying in the background, so the board can still be plugged in later
+    return res.status(502).json({ error: status.lastError || 'Could not connect to serial port', status });
+  }
+  res.json(status);
+});
+
+// Capture recording status
+app.get('/api/record', (req, res) => {
+  res.json(captureRecorder.getStatus());
+});
+
+// Start/stop recording serial frames to a capture file (real mode only)
+app.post('/api/record', (req, res) => {
+  const { enabled, name } = req.body;
+  if (typeof enabled !== 'boolean') {
+    return res.status(400).json({ error: 'Invalid payload: "enabled" must be true or false' });
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name)) {
+    return res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+  }
+
+  if (enabled) {
+    if (currentMode !== 'real') {
+      return res.status(400).json({ error: 'Recording is only available in real mode. Switch to real mode first.' });
+    }
+    const file = captureRecorder.start(name);
+    console.log(`⏺️  Recording serial capture to ${file}`);
+  } else if (captureRecorder.isRecording()) {
+    captureRecorder.stop();
+    console.log('⏹️  Recording stopped');
+  }
+  res.json(captureRecorder.getStatus());
+});
+
+// Replay status and available captures
+app.get('/api/replay', (req, res) => {
+  res.json({ ...replayPlayer.getStatus(), captures: listCaptures(CAPTURES_DIR) });
+});
+
+// Control replay: load a capture, play/pause, seek, change speed (replay mode only)
+app.post('/api/replay', async (req, res) => {
+  if (currentMode !== 'replay') {
+    return res.status(400).json({ error: 'Cannot control replay outside replay mode. Switch to replay mode first.' });
+  }
+
+  const replayError = validateReplayControl(req.body);
+  if (replayError) {
+    return res.status(400).json({ error: replayError });
+  }
+
+  try {
+    await applyReplayControl(req.body);
+    res.json(replayPlayer.getStatus());
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Simulator status: simulated clock, parameters and latest reading
+app.get('/api/sim', (req, res) => {
+  res.json(plantSimulator.getStatus());
+});
+
+// Update simulator parameters (any subset), e.g. { "timeScale": 1440 } for one day per minute
+app.post('/api/sim/params', (req, res) => {
+  const error = validateSimulatorParams(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  const params = plantSimulator.setParams(req.body as Partial<SimulatorParams>);
+  console.log('🌱 Simulator parameters updated:', req.body);
+  res.json({ ok: true, params });
+});
+
+// Water the simulated plant (only works in sim mode)
+app.post('/api/sim/water', (req, res) => {
+  if (currentMode !== 'sim') {
+    return res.status(400).json({ error: 'Cannot water the simulator outside sim mode. Switch to sim mode first.' });
+  }
+  const { amount } = req.body || {};
+  if (amount !== undefined && (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0)) {
+    return res.status(400).json({ error: 'Invalid amount: must be a positive number' });
+  }
+  const state = plantSimulator.water(amount);
+  console.log('💧 Simulated watering');
+  res.json({ ok: true, state });
+});
+
+// Reset simulator parameters and plant state
+app.post('/api/sim/reset', (req, res) => {
+  plantSimulator.reset();
+  res.json(plantSimulator.getStatus());
+});
+
 // Set mock sensor values (only works in mock mode)
 app.post('/api/mock/sensors', (req, res) => {
   if (currentMode !== 'mock') {
-    return res.status(400).json({ error: 'Cannot set mock values in real mode. Switch to mock mode first.' });
+    return res.status(400).json({ error: `Cannot set mock values in ${currentMode} mode. Switch to mock mode first.` });
   }
   
   try {
     const payload = req.body;
     let json: SensorState;
 
+    if (payload.deviceId !== undefined && !isValidId(payload.deviceId)) {
+      return res.status(400).json({ error: 'Invalid deviceId: use letters, digits, "-" or "_" (max 64)' });
+    }
+    const deviceId: string = payload.deviceId || DEFAULT_DEVICE_ID;
+
     if (payload.json && typeof payload.json === 'object') {
       json = payload.json;
     } else if (
@@ -168,8 +522,8 @@ app.post('/api/mock/sensors', (req, res) => {
       typeof json.bio === 'number'
     ) {
       // Update state and broadcast (only in mock mode)
-      updateStateFromSensorData(json);
-      res.json({ ok: true, message: 'Mock sensor data set and broadcasted', state: currentState });
+      updateStateFromSensorData(json, deviceId);
+      res.json({ ok: true, message: 'Mock sensor data set and broadcasted', state: currentState, deviceId });
     } else {
       res.status(400).json({ error: 'Invalid sensor data: missing or invalid fields' });
     }
@@ -182,13 +536,18 @@ app.post('/api/mock/sensors', (req, res) => {
 // Endpoint to receive sensor data from hardware (works in real mode)
 app.post('/sensors', (req, res) => {
   if (currentMode !== 'real') {
-    return res.status(400).json({ error: 'Cannot receive sensor data in mock mode. Switch to real mode first.' });
+    return res.status(400).json({ error: `Cannot receive sensor data in ${currentMode} mode. Switch to real mode first.` });
   }
   
   try {
     const payload = req.body;
     let json: SensorState;
 
+    if (payload.deviceId !== undefined && !isValidId(payload.deviceId)) {
+      return res.status(400).json({ error: 'Invalid deviceId: use letters, digits, "-" or "_" (max 64)' });
+    }
+    const deviceId: string = payload.deviceId || DEFAULT_DEVICE_ID;
+
     if (payload.json && typeof payload.json === 'object') {
       json = payload.json;
     } else if (
@@ -221,7 +580,8 @@ app.post('/sensors', (req, res) => {
       typeof json.bio === 'number'
     ) {
       // Update state and broadcast (only in real mode)
-      updateStateFromSensorData(json);
+      captureRecorder.recordState(json, deviceId);
+      updateStateFromSensorData(json, deviceId);
       res.json({ ok: true, message: 'Sensor data received and broadcasted' });
     } else {
       res.status(400).json({ error: 'Invalid sensor data: missing or invalid fields' });
@@ -232,83 +592,349 @@ app.post('/sensors', (req, res) => {
   }
 });
 
+// Query stored readings
+// from/to accept epoch milliseconds or ISO-8601 strings; fields is a comma-separated list
+// limit returns the newest N readings in the range (default 1000, at most MAX_HISTORY_LIMIT)
+// device or plant narrows the readings to one board / the boards assigned to one plant
+app.get('/api/history', async (req, res) => {
+  const from = parseTimeParam(req.query.from);
+  const to = parseTimeParam(req.query.to);
+  const fields = parseFieldsParam(req.query.fields);
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+  const { device, plant } = req.query;
+
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'Invalid from/to: use epoch milliseconds or an ISO-8601 date' });
+  }
+  if (fields === null) {
+    return res.status(400).json({ error: 'Invalid fields: must be a comma-separated list of soil,temp,hum,mq2,rain,bio' });
+  }
+  if (limit !== undefined && (Number.isNaN(limit) || limit <= 0 || limit > MAX_HISTORY_LIMIT)) {
+    return res.status(400).json({ error: `Invalid limit: must be a positive integer up to ${MAX_HISTORY_LIMIT}` });
+  }
+
+  let deviceIds: string[] | undefined;
+  if (device !== undefined) {
+    if (!isValidId(device)) {
+      return res.status(400).json({ error: 'Invalid device: must be a device ID' });
+    }
+    deviceIds = [device];
+  } else if (plant !== undefined) {
+    if (!isValidId(plant) || !deviceRegistry.getPlant(plant)) {
+      return res.status(404).json({ error: `Unknown plant: ${plant}` });
+    }
+    deviceIds = deviceRegistry.listDevices().filter((d) => d.plantId === plant).map((d) => d.id);
+  }
+
+  try {
+    const readings = await historyStore.query({ from, to, fields, deviceIds, limit });
+    res.json({ from: from ?? null, to: to ?? null, count: readings.length, readings });
+  } catch (error) {
+    console.error('❌ Error reading history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stored alerts, newest first (?active=true|false&acknowledged=true|false&plant=&limit=)
+app.get('/api/alerts', (req, res) => {
+  const { active, acknowledged, plant } = req.query;
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+  for (const [name, value] of [['active', active], ['acknowledged', acknowledged]] as const) {
+    if (value !== undefined && value !== 'true' && value !== 'false') {
+      return res.status(400).json({ error: `Invalid ${name}: must be true or false` });
+    }
+  }
+  if (limit !== undefined && (Number.isNaN(limit) || limit <= 0)) {
+    return res.status(400).json({ error: 'Invalid limit: must be a positive integer' });
+  }
+
+  const alerts = alertEngine.listAlerts({
+    active: active === undefined ? undefined : active === 'true',
+    acknowledged: acknowledged === undefined ? undefined : acknowledged === 'true',
+    plantId: typeof plant === 'string' ? plant : undefined,
+    limit,
+  });
+  res.json({ count: alerts.length, alerts });
+});
+
+// Acknowledge an alert
+app.post('/api/alerts/:id/ack', (req, res) => {
+  try {
+    res.json(alertEngine.acknowledge(req.params.id));
+  } catch (error: any) {
+    res.status(404).json({ error: error.message });
+  }
+});
+
+// List alert rules
+app.get('/api/alerts/rules', (req, res) => {
+  res.json({ rules: alertEngine.listRules() });
+});
+
+// Create an alert rule, e.g. { "field": "soil", "op": ">=", "threshold": 900, "forMs": 1800000 }
+app.post('/api/alerts/rules', (req, res) => {
+  const error = validateAlertRule(req.body);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  try {
+    const rule = alertEngine.addRule(req.body);
+    console.log(`🔔 Alert rule added: ${rule.id} (${rule.field} ${rule.op} ${rule.threshold})`);
+    res.status(201).json(rule);
+  } catch (err: any) {
+    res.status(409).json({ error: err.message });
+  }
+});
+
+// Update an alert rule (any subset of its fields)
+app.put('/api/alerts/rules/:id', (req, res) => {
+  const error = validateAlertRule(req.body, true);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  if (!alertEngine.getRule(req.params.id)) {
+    return res.status(404).json({ error: `Unknown rule: ${req.params.id}` });
+  }
+  const rule = alertEngine.updateRule(req.params.id, req.body as Partial<AlertRule>);
+  console.log(`🔔 Alert rule updated: ${rule.id}`);
+  res.json(rule);
+});
+
+// Delete an alert rule
+app.delete('/api/alerts/rules/:id', (req, res) => {
+  if (!alertEngine.deleteRule(req.params.id)) {
+    return res.status(404).json({ error: `Unknown rule: ${req.params.id}` });
+  }
+  console.log(`🔔 Alert rule deleted: ${req.params.id}`);
+  res.json({ ok: true });
+});
+
+// Webhook targets and retry queue
+app.get('/api/webhooks', (req, res) => {
+  res.json(webhooks.getStatus());
+});
+
+// Webhook delivery log, newest first (?limit=)
+app.get('/api/webhooks/deliveries', (req, res) => {
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+  if (limit !== undefined && (Number.isNaN(limit) || limit <= 0)) {
+    return res.status(400).json({ error: 'Invalid limit: must be a positive integer' });
+  }
+  res.json({ deliveries: webhooks.listDeliveries(limit) });
+});
+
+// Send a test event to every webhook and report the first attempt: { "deviceId": "arduino-1" }
+app.post('/api/webhooks/test', async (req, res) => {
+  const deviceId = req.body?.deviceId ?? DEFAULT_DEVICE_ID;
+  if (!isValidId(deviceId)) {
+    return res.status(400).json({ error: 'Invalid deviceId: use letters, digits, "-" or "_" (max 64)' });
+  }
+  if (!webhooks.isEnabled()) {
+    return res.status(409).json({ error: 'No webhooks configured. Set WEBHOOK_URLS to enable them.' });
+  }
+  console.log(`📤 Sending test webhook for ${deviceId}`);
+  res.json({ deliveries: await sendWebhook('test', deviceId) });
+});
+
+// List known devices (boards) with their plant assignment and last reading time
+app.get('/api/devices', (req, res) => {
+  res.json({
+    devices: deviceRegistry.listDevices().map((device) => ({
+      ...device,
+      state: latestStates.get(device.id) || null,
+    })),
+  });
+});
+
+// Rename a device and/or assign it to a plant: { "name": "Kitchen board", "plantId": "plant-basil" }
+app.put('/api/devices/:id', (req, res) => {
+  const { id } = req.params;
+  const { name, plantId } = req.body || {};
+  if (!isValidId(id)) {
+    return res.status(400).json({ error: 'Invalid device ID: use letters, digits, "-" or "_" (max 64)' });
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+  }
+  if (plantId !== undefined && plantId !== null && !isValidId(plantId)) {
+    return res.status(400).json({ error: 'Invalid plantId: must be a plant ID or null' });
+  }
+
+  try {
+    const device = deviceRegistry.updateDevice(id, { name: name?.trim(), plantId });
+    console.log(`📟 Device ${id} updated:`, req.body);
+    res.json(device);
+  } catch (error: any) {
+    res.status(404).json({ error: error.message });
+  }
+});
+
+// List plants with their assigned devices
+app.get('/api/plants', (req, res) => {
+  res.json({ plants: deviceRegistry.listPlants() });
+});
+
+// Create or update a plant: { "name": "Basil", "species": "Ocimum basilicum" }
+app.put('/api/plants/:id', (req, res) => {
+  const { id } = req.params;
+  const { name, species } = req.body || {};
+  if (!isValidId(id)) {
+    return res.status(400).json({ error: 'Invalid plant ID: use letters, digits, "-" or "_" (max 64)' });
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+  }
+  if (species !== undefined && typeof species !== 'string') {
+    return res.status(400).json({ error: 'Invalid species: must be a string' });
+  }
+
+  const plant = deviceRegistry.upsertPlant(id, { name: name?.trim(), species });
+  console.log(`🪴 Plant ${id} updated:`, req.body);
+  res.json(plant);
+});
+
+// Delete a plant; its devices become unassigned
+app.delete('/api/plants/:id', (req, res) => {
+  if (!deviceRegistry.deletePlant(req.params.id)) {
+    return res.status(404).json({ error: `Unknown plant: ${req.params.id}` });
+  }
+  console.log(`🪴 Plant ${req.params.id} deleted`);
+  res.json({ ok: true });
+});
+
+// Plant filter from a `plantId` query parameter: null for all plants (absent or '*'),
+// undefined if it names a plant that doesn't exist
+function plantFilterParam(value: unknown): string | null | undefined {
+  if (value === undefined || value === '' || value === '*') {
+    return null;
+  }
+  return typeof value === 'string' && deviceRegistry.getPlant(value) ? value : undefined;
+}
+
+// Latest readings as a polling snapshot, for clients that can't hold a WebSocket or SSE stream open
+// Sends an ETag and answers If-None-Match with 304 while no new reading has arrived
+app.get('/api/state', (req, res) => {
+  const plantId = plantFilterParam(req.query.plantId);
+  if (plantId === undefined) {
+    return res.status(404).json({ error: `Unknown plant: ${req.query.plantId}` });
+  }
+  const etag = `"${stateVersion}-${currentMode}"`;
+  res.set({ 'Cache-Control': 'no-cache', ETag: etag });
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(304).end();
+  }
+  res.json({
+    v: PROTOCOL_VERSION,
+    ts: Date.now(),
+    mode: currentMode,
+    plantId,
+    readings: latestPayloads().filter((payload) => plantId === null || payload.plantId === plantId),
+  });
+});
+
+// Server-Sent Events: readings, alerts and mode changes as v1 envelopes (?plantId= to follow one plant)
+app.get('/events', (req, res) => {
+  const plantId = plantFilterParam(req.query.plantId);
+  if (plantId === undefined) {
+    return res.status(404).json({ error: `Unknown plant: ${req.query.plantId}` });
+  }
+  eventStreams.open(req, res, plantId);
+  console.log(`📱 SSE client connected${plantId ? ` (plant ${plantId})` : ''}`);
+  req.on('close', () => console.log('📱 SSE client disconnected'));
+
+  eventStreams.send(res, 'hello', { v: PROTOCOL_VERSION, mode: currentMode, plantId });
+  for (const payload of latestPayloads()) {
+    if (plantId === null || payload.plantId === plantId) {
+      eventStreams.send(res, 'reading', payload);
+    }
+  }
+
+  if (!streamInterval) {
+    startStream(1000);
+    console.log('🔄 Auto-started sensor streaming (1000ms interval)');
+  }
+});
+
+// Pairing details for the app: WebSocket URLs on each LAN address and the deep link the UI shows as a QR code
+app.get('/api/pairing', (req, res) => {
+  res.json({
+    ...buildPairingInfo(DISCOVERY_NAME, PORT, req.hostname),
+    mdns: discovery?.getStatus() ?? null,
+  });
+});
+
+// The pairing deep link as a QR code, scanned from the app's pair screen
+app.get('/api/pairing/qr.svg', async (req, res) => {
+  const { pairingUrl } = buildPairingInfo(DISCOVERY_NAME, PORT, req.hostname);
+  if (!pairingUrl) {
+    return res.status(503).json({ error: 'No LAN address to pair with' });
+  }
+  try {
+    res.type('image/svg+xml').set('Cache-Control', 'no-cache').send(await pairingQrSvg(pairingUrl));
+  } catch (error: any) {
+    res.status(500).json({ error: `Failed to render QR code: ${error.message}` });
+  }
+});
+
 // Create HTTP server
 const server = createServer(app);
 
 // Create WebSocket server
 const wss = new WebSocketServer({ server, path: '/ws' });
 
+// SSE clients of /events
+const eventStreams = new EventStreamHub();
+
 // Helper function to format state as Arduino-style line
 function formatStateLine(state: SensorState): string {
   return `STATE;soil=${Math.round(state.soil)};temp=${state.temp.toFixed(1)};hum=${state.hum.toFixed(1)};mq2=${Math.round(state.mq2)};rain=${Math.round(state.rain)};bio=${state.bio.toFixed(2)}`;
 }
 
-// Helper function to parse JSON object from Arduino
-function parseSensorData(data: string): SensorState | null {
-  try {
-    const trimmed = data.trim();
-    
-    if (!trimmed) {
-      return null;
-    }
-    
-    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
-      return null;
-    }
-    
-    let parsed: any;
-    try {
-      parsed = JSON.parse(trimmed);
-    } catch (jsonError: any) {
-      throw jsonError;
-    }
-    
-    if (parsed && typeof parsed === 'object' && parsed.json) {
-      const json = parsed.json;
-      
-      if (
-        typeof json.soil === 'number' &&
-        typeof json.temp === 'number' &&
-        typeof json.hum === 'number' &&
-        typeof json.mq2 === 'number' &&
-        typeof json.rain === 'number' &&
-        typeof json.bio === 'number'
-      ) {
-        return {
-          soil: json.soil,
-          temp: json.temp,
-          hum: json.hum,
-          mq2: json.mq2,
-          rain: json.rain,
-          bio: json.bio,
-        };
-      }
-    }
-    
-    return null;
-  } catch (error) {
-    throw error;
-  }
-}
-
 // Helper function to create payload in the exact format expected by the app
-function createPayload(state: SensorState): WireStatePayload {
+// (deviceId/plantId/bioBatch/source are extra fields; older clients ignore them)
+function createPayload(state: SensorState, deviceId: string, bioBatch?: BioBatch): WireStatePayload {
   return {
     line: formatStateLine(state),
     json: { ...state },
+    deviceId,
+    plantId: deviceRegistry.getDevice(deviceId)?.plantId ?? null,
+    ...(bioBatch ? { bioBatch } : {}),
+    source: latestSources.get(deviceId) ?? currentMode,
   };
 }
 
+// Latest payload for every device; before any reading arrives, the default state
+function latestPayloads(): WireStatePayload[] {
+  if (latestStates.size === 0) {
+    return [createPayload(currentState, DEFAULT_DEVICE_ID)];
+  }
+  return Array.from(latestStates, ([deviceId, state]) => createPayload(state, deviceId));
+}
+
 // Function to update state from sensor data and broadcast
-function updateStateFromSensorData(newState: SensorState) {
+// (the interval stream re-sends the latest state without its bioBatch, so no sample is delivered twice)
+function updateStateFromSensorData(newState: SensorState, deviceId: string = DEFAULT_DEVICE_ID, bioBatch?: BioBatch) {
   // Update current state
   currentState = { ...newState };
+  latestStates.set(deviceId, currentState);
+  latestSources.set(deviceId, currentMode);
+  stateVersion++;
+  readingsReceived.inc(deviceId);
+  const device = deviceRegistry.touch(deviceId);
+
+  // Persist with server timestamp and check alert rules, for readings from the board only
+  // (replayed readings are already history; sim and mock readings must not fire real alerts)
+  if (currentMode === 'real') {
+    historyStore.append(currentState, deviceId);
+    alertEngine.evaluate(currentState, deviceId, device.plantId);
+    mqttBridge?.publishReading(deviceId, device.name, currentState);
+  }
 
-  // Broadcast to all WebSocket clients immediately
-  broadcast(createPayload(currentState));
+  // Broadcast to subscribed WebSocket and SSE clients immediately
+  broadcast(createPayload(currentState, deviceId, bioBatch));
 
-  const modeLabel = currentMode === 'real' ? 'serial' : 'mock';
-  console.log(`📊 Sensor data received from ${modeLabel}:`, {
+  const modeLabel = currentMode === 'real' ? 'serial' : currentMode;
+  console.log(`📊 Sensor data received from ${modeLabel} (${deviceId}):`, {
     soil: currentState.soil,
     temp: currentState.temp.toFixed(1),
     hum: currentState.hum.toFixed(1),
@@ -318,24 +944,195 @@ function updateStateFromSensorData(newState: SensorState) {
   });
 }
 
-// Helper function to broadcast to all clients
+// POST an event to the configured webhooks with the plant and its latest reading
+function sendWebhook(event: WebhookEventType, deviceId: string, alert?: Alert) {
+  if (!webhooks.isEnabled()) {
+    return Promise.resolve([]);
+  }
+  const plantId = deviceRegistry.getDevice(deviceId)?.plantId;
+  const reading = latestStates.get(deviceId) ?? null;
+  return webhooks.dispatch(event, {
+    plant: plantId ? deviceRegistry.getPlant(plantId) ?? null : null,
+    deviceId,
+    reading,
+    alert,
+  });
+}
+
+// Helper function to broadcast to every client subscribed to the payload's plant
 function broadcast(payload: WireStatePayload) {
-  const message = JSON.stringify(payload);
+  broadcastsSent.inc('reading');
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN && isSubscribed(client, payload)) {
+      sendReading(client, payload);
+    }
+  });
+  eventStreams.broadcast('reading', payload, payload.plantId);
+}
+
+function isSubscribed(client: WebSocket, payload: WireStatePayload): boolean {
+  const plantId = clients.get(client)?.plantId ?? null;
+  return plantId === null || plantId === payload.plantId;
+}
+
+// Legacy clients get the bare payload; clients that said hello get a 'reading' envelope
+function sendReading(ws: WebSocket, payload: WireStatePayload) {
+  const session = clients.get(ws)?.session;
+  if (!session || session.isLegacy()) {
+    ws.send(JSON.stringify(payload));
+  } else {
+    sendMessage(ws, 'reading', payload);
+  }
+}
+
+// Send an envelope to a client, if it said hello and accepts this message type
+function sendMessage(ws: WebSocket, type: MessageType, data: unknown) {
+  const session = clients.get(ws)?.session;
+  if (session && !session.isLegacy() && session.accepts(type) && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(session.wrap(type, data)));
+  }
+}
+
+// Send an envelope to every client that accepts this message type (never to legacy clients)
+function broadcastMessage(type: MessageType, data: unknown) {
+  broadcastsSent.inc(type);
+  wss.clients.forEach((client) => sendMessage(client, type, data));
+  eventStreams.broadcast(type, data);
+}
+
+// Report a rejected client message (legacy clients only see it in the server log)
+function sendError(ws: WebSocket, request: string | undefined, message: string) {
+  console.warn(`⚠️  ${message}`);
+  sendMessage(ws, 'error', { request: request ?? null, message });
+}
+
+// Send a client the latest reading of every device it is subscribed to
+function sendLatest(ws: WebSocket) {
+  for (const payload of latestPayloads()) {
+    if (isSubscribed(ws, payload)) {
+      sendReading(ws, payload);
+    }
+  }
+}
+
+// Push alert events to clients that accept 'alert' messages, respecting plant subscriptions
+function broadcastAlert(event: AlertEvent) {
+  broadcastsSent.inc('alert');
   wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(message);
+    const plantId = clients.get(client)?.plantId ?? null;
+    if (plantId === null || plantId === event.alert.plantId) {
+      sendMessage(client, 'alert', event);
     }
   });
+  eventStreams.broadcast('alert', event, event.alert.plantId);
 }
 
-// Broadcast mode change only to UI clients (not Android app)
-// Note: We don't broadcast mode changes to Android app since it only needs sensor data
-// The UI can check mode via API endpoint
-function broadcastModeChange() {
-  // Only send mode changes if client sends a special identifier
-  // For now, we'll skip broadcasting mode changes to avoid confusing the Android app
-  // The UI can poll the /api/mode endpoint to get current mode
-  console.log(`🔄 Mode changed to: ${currentMode} (UI can check via /api/mode endpoint)`);
+// Push mode changes to clients that accept 'mode' messages (e.g. the control UI)
+function broadcastModeChange(previousMode: ServerMode) {
+  broadcastMessage('mode', { mode: currentMode, previousMode });
+}
+
+// Switch server mode and start/stop the matching data source
+// Returns the previous mode
+function switchMode(mode: ServerMode): ServerMode {
+  const previousMode = currentMode;
+  currentMode = mode;
+
+  // If switching to real mode, start connecting the serial port (no-op if already started)
+  if (mode === 'real') {
+    serialConnection.start();
+  }
+
+  // Leaving real mode: serial port stays open but its data is ignored, so stop recording
+  if (mode !== 'real' && captureRecorder.isRecording()) {
+    captureRecorder.stop();
+    console.log('⏹️  Recording stopped (left real mode)');
+  }
+
+  if (previousMode === 'replay' && mode !== 'replay') {
+    replayPlayer.pause();
+  }
+
+  if (mode === 'sim') {
+    plantSimulator.start();
+  } else {
+    plantSimulator.stop();
+  }
+
+  console.log(`🔄 Mode switched: ${previousMode} → ${mode}`);
+  broadcastModeChange(previousMode);
+  return previousMode;
+}
+
+// Commands from the MQTT command topic: same rules as the WebSocket 'setMode' and 'set' messages
+async function handleMqttCommand(command: MqttCommand): Promise<string | null> {
+  if (command.type === 'setMode') {
+    if (!SERVER_MODES.includes(command.mode as ServerMode)) {
+      return 'Invalid mode. Must be "real", "mock", "replay" or "sim"';
+    }
+    const replayError = validateReplayControl(command.replay);
+    if (replayError) {
+      return replayError;
+    }
+    try {
+      if (command.mode === 'replay') {
+        await applyReplayControl((command.replay as ReplayControl) || {}, currentMode !== 'replay', true);
+      } else if (command.mode !== currentMode) {
+        switchMode(command.mode as ServerMode);
+      }
+    } catch (error: any) {
+      return `Could not switch mode via MQTT: ${error.message}`;
+    }
+    console.log(`📡 Mode set via MQTT: ${currentMode}`);
+    return null;
+  }
+
+  if (currentMode !== 'mock') {
+    return `Cannot set sensor values in ${currentMode} mode. Switch to mock mode first.`;
+  }
+  updateStateFromSensorData(command.state, command.deviceId);
+  console.log('📊 Mock sensor values updated via MQTT');
+  return null;
+}
+
+// Apply replay controls; loads the newest capture if nothing is loaded yet
+// With enterReplay, switches to replay mode once the capture has loaded (so a bad file leaves the
+// mode unchanged) and before seeking or playing (the old mode would drop the readings they emit).
+// Returns the mode before the call
+async function applyReplayControl(control: ReplayControl, startPlaying = false, enterReplay = false): Promise<ServerMode> {
+  if (control.file) {
+    await replayPlayer.load(resolveCapturePath(CAPTURES_DIR, control.file));
+    console.log(`📼 Loaded capture: ${control.file}`);
+  } else if (!replayPlayer.isLoaded()) {
+    const latest = listCaptures(CAPTURES_DIR)[0];
+    if (!latest) {
+      throw new Error(`No captures found in ${CAPTURES_DIR}. Record one in real mode first.`);
+    }
+    await replayPlayer.load(resolveCapturePath(CAPTURES_DIR, latest.name));
+    console.log(`📼 Loaded latest capture: ${latest.name}`);
+  }
+
+  const previousMode = currentMode;
+  if (enterReplay) {
+    switchMode('replay');
+  }
+
+  if (control.speed !== undefined) {
+    replayPlayer.setSpeed(control.speed);
+  }
+  if (control.loop !== undefined) {
+    replayPlayer.setLoop(control.loop);
+  }
+  if (control.positionMs !== undefined) {
+    replayPlayer.seek(control.positionMs);
+  }
+
+  if (control.paused === true) {
+    replayPlayer.pause();
+  } else if (control.paused === false || startPlaying) {
+    replayPlayer.play();
+  }
+  return previousMode;
 }
 
 // Start streaming current state at regular intervals
@@ -345,10 +1142,12 @@ function startStream(intervalMs: number) {
   }
   streamIntervalMs = intervalMs;
   streamInterval = setInterval(() => {
-    // Broadcast current state
+    // Broadcast the latest state of every device
     // In real mode: state is updated by serial port
     // In mock mode: state is updated by API calls
-    broadcast(createPayload(currentState));
+    for (const payload of latestPayloads()) {
+      broadcast(payload);
+    }
   }, intervalMs);
 }
 
@@ -361,12 +1160,19 @@ function stopStream() {
 }
 
 // WebSocket connection handler
-wss.on('connection', (ws: WebSocket) => {
-  console.log('📱 Client connected');
+// Clients receive every plant by default; /ws?plantId=<id> (or a subscribe message) narrows it to one.
+// Until a client sends { type: 'hello', v: 1 } it is treated as legacy (bare reading payloads only).
+wss.on('connection', (ws: WebSocket, req) => {
+  const plantId = new URL(req.url || '/ws', 'http://localhost').searchParams.get('plantId');
+  const client: ClientState = {
+    plantId: plantId && plantId !== '*' ? plantId : null,
+    session: new ProtocolSession(),
+  };
+  clients.set(ws, client);
+  console.log(`📱 Client connected${client.plantId ? ` (plant ${client.plantId})` : ''}`);
 
-  // Send current state immediately on connection
-  // Only send sensor data, not mode changes (Android app doesn't need mode info)
-  ws.send(JSON.stringify(createPayload(currentState)));
+  // Send current state immediately on connection (legacy clients never send hello)
+  sendLatest(ws);
 
   // Auto-start streaming when a client connects (if not already streaming)
   if (!streamInterval) {
@@ -375,10 +1181,42 @@ wss.on('connection', (ws: WebSocket) => {
   }
 
   ws.on('message', (data: Buffer) => {
+    let message: WebSocketMessage;
     try {
-      const message: WebSocketMessage = JSON.parse(data.toString());
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      console.error('❌ Error parsing WebSocket message:', error);
+      sendError(ws, undefined, 'Invalid JSON message');
+      return;
+    }
+    if (!message || typeof message !== 'object') {
+      sendError(ws, undefined, 'Invalid message: expected an object with a "type"');
+      return;
+    }
 
+    try {
       switch (message.type) {
+        case 'hello': {
+          const helloError = validateHello(message);
+          if (helloError) {
+            // The client speaks envelopes even though the handshake failed
+            console.warn(`⚠️  ${helloError}`);
+            ws.send(JSON.stringify(client.session.wrap('error', { request: 'hello', message: helloError })));
+            break;
+          }
+          const accepts = client.session.negotiate(message as unknown as HelloMessage);
+          console.log(`🤝 Client hello: ${client.session.client ?? 'unnamed'} (v${PROTOCOL_VERSION}, accepts ${accepts.join(', ')})`);
+          sendMessage(ws, 'hello', {
+            v: PROTOCOL_VERSION,
+            accepts,
+            mode: currentMode,
+            plantId: client.plantId,
+          });
+          // Re-send the latest readings as envelopes
+          sendLatest(ws);
+          break;
+        }
+
         case 'start':
           const interval = message.intervalMs || 1000;
           startStream(interval);
@@ -393,34 +1231,68 @@ wss.on('connection', (ws: WebSocket) => {
         case 'set':
           // Set mock values via WebSocket (only in mock mode)
           if (currentMode === 'mock' && message.state) {
-            updateStateFromSensorData(message.state);
+            if (message.deviceId !== undefined && !isValidId(message.deviceId)) {
+              sendError(ws, 'set', `Invalid deviceId in set message: ${message.deviceId}`);
+              break;
+            }
+            updateStateFromSensorData(message.state, message.deviceId);
             console.log('📊 Mock sensor values updated via WebSocket');
-          } else if (currentMode === 'real') {
-            console.warn('⚠️  Cannot set sensor values in real mode. Switch to mock mode first.');
+          } else if (currentMode !== 'mock') {
+            sendError(ws, 'set', `Cannot set sensor values in ${currentMode} mode. Switch to mock mode first.`);
           }
           break;
 
         case 'setMode':
-          // Change mode via WebSocket
-          if (message.mode === 'real' || message.mode === 'mock') {
-            const previousMode = currentMode;
-            currentMode = message.mode;
-            
-            if (currentMode === 'real' && !isSerialConnected) {
-              initializeSerialPort();
+          // Change mode (and control replay) via WebSocket
+          if (message.mode && SERVER_MODES.includes(message.mode)) {
+            const replayError = validateReplayControl(message.replay);
+            if (replayError) {
+              sendError(ws, 'setMode', replayError);
+              break;
             }
-            
-            console.log(`🔄 Mode switched via WebSocket: ${previousMode} → ${currentMode}`);
-            // Don't broadcast mode change to avoid confusing Android app
-            // Mode changes are handled server-side only
+
+            const targetMode = message.mode;
+            const replayControl = message.replay || {};
+            (async () => {
+              if (targetMode === 'replay') {
+                // Already replaying: only apply the controls (pause, seek, speed...)
+                await applyReplayControl(replayControl, currentMode !== 'replay', true);
+              } else if (targetMode !== currentMode) {
+                switchMode(targetMode);
+              }
+            })().catch((error) => {
+              sendError(ws, 'setMode', `Could not switch mode via WebSocket: ${error.message}`);
+            });
+          } else {
+            sendError(ws, 'setMode', 'Invalid mode. Must be "real", "mock", "replay" or "sim"');
+          }
+          break;
+
+        case 'subscribe':
+          // Follow one plant, or all plants with null / '*'
+          if (message.plantId === undefined || message.plantId === null || message.plantId === '*') {
+            client.plantId = null;
+            console.log('📱 Client subscribed to all plants');
+          } else if (typeof message.plantId === 'string' && deviceRegistry.getPlant(message.plantId)) {
+            client.plantId = message.plantId;
+            console.log(`📱 Client subscribed to plant ${message.plantId}`);
+          } else {
+            sendError(ws, 'subscribe', `Cannot subscribe to unknown plant: ${message.plantId}`);
+            break;
           }
+          sendLatest(ws);
+          break;
+
+        case 'ping':
+          // Application-level keepalive so clients can spot a silent connection
+          sendMessage(ws, 'pong', { id: typeof message.id === 'number' ? message.id : null });
           break;
 
         default:
-          console.warn('⚠️  Unknown message type:', message);
+          sendError(ws, String(message.type), `Unknown message type: ${message.type}`);
       }
     } catch (error) {
-      console.error('❌ Error parsing WebSocket message:', error);
+      console.error('❌ Error handling WebSocket message:', error);
     }
   });
 
@@ -433,135 +1305,24 @@ wss.on('connection', (ws: WebSocket) => {
   });
 });
 
-// Initialize Serial Port Connection
-function initializeSerialPort() {
+// Handle raw data from the serial port
+function handleSerialData(chunk: string) {
+  // Only process serial data if in real mode
   if (currentMode !== 'real') {
-    console.log('⚠️  Cannot initialize serial port: not in real mode');
     return;
   }
 
-  try {
-    console.log(`\n🔌 Attempting to connect to serial port: ${SERIAL_PORT} at ${SERIAL_BAUD_RATE} baud`);
+  const frames = serialFramer.push(chunk);
 
-    // Close existing connection if any
-    if (serialPort && serialPort.isOpen) {
-      serialPort.close();
+  for (const frame of frames) {
+    if (frame.ok) {
+      const deviceId = frame.deviceId || DEFAULT_DEVICE_ID;
+      captureRecorder.recordFrame(frame.raw, deviceId);
+      updateStateFromSensorData(frame.state, deviceId, frame.bioBatch);
+    } else {
+      console.warn(`⚠️  Rejected serial frame: ${frame.reason}`);
+      console.warn('   Frame (first 300):', frame.raw.substring(0, 300));
     }
-
-    serialPort = new SerialPort({
-      path: SERIAL_PORT,
-      baudRate: SERIAL_BAUD_RATE,
-      autoOpen: false,
-    });
-
-    serialPort.open((err) => {
-      if (err) {
-        console.error(`❌ Error opening serial port ${SERIAL_PORT}:`, err.message);
-        console.error('   Make sure:');
-        console.error('   1. Arduino is connected and powered on');
-        console.error('   2. COM port is correct (check Device Manager)');
-        console.error('   3. No other program is using the serial port');
-        console.error('   4. Set SERIAL_PORT environment variable if using different port');
-        isSerialConnected = false;
-        return;
-      }
-
-      isSerialConnected = true;
-      console.log(`✅ Serial port ${SERIAL_PORT} opened successfully`);
-      
-      // Reset buffer
-      jsonBuffer = '';
-      braceCount = 0;
-    });
-
-    // Handle raw data from serial port
-    serialPort.on('data', (data: Buffer) => {
-      // Only process serial data if in real mode
-      if (currentMode !== 'real') {
-        return;
-      }
-
-      const chunk = data.toString('utf8');
-      
-      // Add chunk to buffer
-      jsonBuffer += chunk;
-      
-      // Count braces to detect complete JSON object
-      for (const char of chunk) {
-        if (char === '{') {
-          braceCount++;
-        } else if (char === '}') {
-          braceCount--;
-        }
-      }
-      
-      // When brace count reaches 0, we have a complete JSON object
-      if (braceCount === 0 && jsonBuffer.trim().length > 0) {
-        const trimmedBuffer = jsonBuffer.trim();
-        
-        // Only attempt to parse if buffer looks like JSON
-        if (trimmedBuffer.startsWith('{') && trimmedBuffer.endsWith('}')) {
-          try {
-            // Try to parse the complete JSON
-            const parsedState = parseSensorData(trimmedBuffer);
-            
-            if (parsedState) {
-              // Success! Update state and broadcast
-              updateStateFromSensorData(parsedState);
-              // Reset buffer after successful parse
-              jsonBuffer = '';
-              braceCount = 0;
-            } else {
-              // JSON parsed but missing required fields
-              console.warn('⚠️  JSON parsed but missing required fields');
-              // Reset buffer to continue with next JSON object
-              jsonBuffer = '';
-              braceCount = 0;
-            }
-          } catch (error: any) {
-            // JSON parse error - might be incomplete, continue buffering
-            // But protect against infinite buffering
-            if (jsonBuffer.length > 2000) {
-              console.error('❌ Buffer too large after parse error, resetting');
-              console.error('   Error:', error.message);
-              console.error('   Buffer (first 300):', trimmedBuffer.substring(0, 300));
-              jsonBuffer = '';
-              braceCount = 0;
-            }
-          }
-        } else {
-          // Buffer doesn't have correct JSON structure - might be incomplete
-          // Reset if it's getting too large (likely corrupted)
-          if (jsonBuffer.length > 2000) {
-            console.warn('⚠️  Buffer large but invalid JSON structure, resetting');
-            jsonBuffer = '';
-            braceCount = 0;
-          }
-        }
-      } else if (braceCount < 0) {
-        // More closing braces than opening - corrupted data, reset
-        console.warn('⚠️  Brace count negative, resetting buffer');
-        jsonBuffer = '';
-        braceCount = 0;
-      }
-      // If braceCount > 0, continue accumulating (incomplete JSON - waiting for more data)
-    });
-
-    // Handle serial port errors
-    serialPort.on('error', (err) => {
-      console.error('❌ Serial port error:', err.message);
-      isSerialConnected = false;
-    });
-
-    // Handle serial port close
-    serialPort.on('close', () => {
-      console.log('🔌 Serial port closed');
-      isSerialConnected = false;
-    });
-
-  } catch (error) {
-    console.error('❌ Error initializing serial port:', error);
-    isSerialConnected = false;
   }
 }
 
@@ -574,6 +1335,10 @@ if (PORT !== 4000) {
   console.warn('   The app will not be able to connect unless port is 4000');
 }
 
+// mDNS/DNS-SD advertisement (_plantagotchi._tcp) so the app finds the server on the LAN; MDNS=0 disables
+const DISCOVERY_NAME = process.env.MDNS_NAME || defaultServiceName();
+const discovery = process.env.MDNS === '0' ? null : new DiscoveryAdvertiser(DISCOVERY_NAME, PORT);
+
 // Bind to 0.0.0.0 (all interfaces) so Android emulator can connect via 10.0.2.2
 server.listen(PORT, '0.0.0.0', () => {
   console.log(`\n✅ Unified sensor server running on http://0.0.0.0:${PORT}`);
@@ -582,21 +1347,69 @@ server.listen(PORT, '0.0.0.0', () => {
   console.log(`   WebSocket server available at ws://localhost:${PORT}/ws`);
   console.log(`\n📡 Endpoints:`);
   console.log(`   GET  http://localhost:${PORT}/health - Health check`);
+  console.log(`   GET  http://localhost:${PORT}/metrics - Prometheus metrics`);
   console.log(`   GET  http://localhost:${PORT}/api/mode - Get current mode`);
-  console.log(`   POST http://localhost:${PORT}/api/mode - Set mode (real/mock)`);
+  console.log(`   POST http://localhost:${PORT}/api/mode - Set mode (real/mock/replay/sim)`);
   console.log(`   POST http://localhost:${PORT}/api/mock/sensors - Set mock sensor values`);
   console.log(`   POST http://localhost:${PORT}/sensors - Receive sensor data (real mode)`);
-  console.log(`   WS   ws://localhost:${PORT}/ws - WebSocket for mobile app`);
+  console.log(`   GET  http://localhost:${PORT}/api/serial/ports - List serial ports`);
+  console.log(`   POST http://localhost:${PORT}/api/serial/connect - Switch serial port (or "auto")`);
+  console.log(`   GET  http://localhost:${PORT}/api/history - Stored readings (?from=&to=&fields=&device=&plant=)`);
+  console.log(`   GET  http://localhost:${PORT}/api/alerts - Fired alerts (?active=&acknowledged=&plant=)`);
+  console.log(`   POST http://localhost:${PORT}/api/alerts/:id/ack - Acknowledge an alert`);
+  console.log(`   GET  http://localhost:${PORT}/api/alerts/rules - Alert rules (POST to add, PUT/DELETE /:id)`);
+  console.log(`   GET  http://localhost:${PORT}/api/webhooks - Webhook targets and retry queue`);
+  console.log(`   GET  http://localhost:${PORT}/api/webhooks/deliveries - Webhook delivery log`);
+  console.log(`   POST http://localhost:${PORT}/api/webhooks/test - Send a test webhook`);
+  console.log(`   GET  http://localhost:${PORT}/api/devices - Known devices (boards)`);
+  console.log(`   PUT  http://localhost:${PORT}/api/devices/:id - Rename / assign a device to a plant`);
+  console.log(`   GET  http://localhost:${PORT}/api/plants - Plants and their devices`);
+  console.log(`   PUT  http://localhost:${PORT}/api/plants/:id - Create / rename a plant`);
+  console.log(`   DELETE http://localhost:${PORT}/api/plants/:id - Delete a plant`);
+  console.log(`   POST http://localhost:${PORT}/api/record - Start/stop capture recording (real mode)`);
+  console.log(`   GET  http://localhost:${PORT}/api/replay - Replay status and captures`);
+  console.log(`   POST http://localhost:${PORT}/api/replay - Play/pause/seek/speed (replay mode)`);
+  console.log(`   GET  http://localhost:${PORT}/api/sim - Simulator status`);
+  console.log(`   POST http://localhost:${PORT}/api/sim/params - Tune simulator (dry rate, day/night, speed)`);
+  console.log(`   POST http://localhost:${PORT}/api/sim/water - Water the simulated plant (sim mode)`);
+  console.log(`   GET  http://localhost:${PORT}/api/state - Latest readings for polling (?plantId=, ETag)`);
+  console.log(`   GET  http://localhost:${PORT}/events - Server-Sent Events stream (?plantId= to follow one plant)`);
+  console.log(`   GET  http://localhost:${PORT}/api/pairing - Server URLs and pairing link for the app`);
+  console.log(`   GET  http://localhost:${PORT}/api/pairing/qr.svg - Pairing QR code (also shown in the control UI)`);
+  console.log(`   WS   ws://localhost:${PORT}/ws - WebSocket for mobile app (?plantId= to follow one plant)`);
   console.log(`\n🔌 Serial Port:`);
-  console.log(`   Reading from: ${SERIAL_PORT} at ${SERIAL_BAUD_RATE} baud`);
-  console.log(`   Set SERIAL_PORT environment variable to change port`);
+  console.log(`   Reading from: ${SERIAL_PORT ?? 'auto-detected board'} at ${SERIAL_BAUD_RATE} baud`);
+  console.log(`   Set SERIAL_PORT environment variable to use a fixed port`);
+  console.log(`\n💾 History:`);
+  console.log(`   Appending readings to daily files next to: ${HISTORY_FILE}`);
+  console.log(`   Keeping ${HISTORY_RETENTION_DAYS > 0 ? `${HISTORY_RETENTION_DAYS} days` : 'everything'} (HISTORY_RETENTION_DAYS)`);
+  console.log(`   Set HISTORY_FILE environment variable to change location`);
+  console.log(`\n🪴 Devices:`);
+  console.log(`   Registry: ${DEVICES_FILE} (${deviceRegistry.listDevices().length} devices, ${deviceRegistry.listPlants().length} plants)`);
+  console.log(`   Readings without a device ID are attributed to: ${DEFAULT_DEVICE_ID}`);
+  console.log(`\n🔔 Alerts:`);
+  console.log(`   ${alertEngine.listRules().length} rules from ${ALERT_RULES_FILE}`);
+  console.log(webhooks.isEnabled()
+    ? `   Webhooks: ${webhookUrls.urls.join(', ')}${process.env.WEBHOOK_SECRET ? ' (signed)' : ''}`
+    : `   Set WEBHOOK_URLS to POST alerts to webhooks`);
+  console.log(`\n📡 MQTT:`);
+  console.log(mqttBridge
+    ? `   Broker: ${mqttBridge.getStatus().url} (topics under ${mqttBridge.getStatus().baseTopic}/)`
+    : `   Set MQTT_URL (e.g. mqtt://localhost:1883) to publish readings to MQTT`);
+  console.log(`\n📶 Discovery:`);
+  console.log(discovery
+    ? `   Advertising "${DISCOVERY_NAME}" as _plantagotchi._tcp on port ${PORT} (MDNS=0 to disable)`
+    : `   mDNS disabled; pair the app with the QR code in the control UI`);
   console.log(`\n🎮 Current Mode: ${currentMode.toUpperCase()}`);
-  console.log(`   Use POST /api/mode to switch between 'real' and 'mock' modes\n`);
+  console.log(`   Use POST /api/mode to switch between 'real', 'mock', 'replay' and 'sim' modes\n`);
 
-  // Initialize serial port connection if in real mode
+  // Connect the serial port if in real mode
   if (currentMode === 'real') {
-    initializeSerialPort();
+    serialConnection.start();
   }
+
+  mqttBridge?.start();
+  discovery?.start();
 });
 
 // Handle server errors (e.g., port already in use)
@@ -619,18 +1432,19 @@ process.on('SIGINT', () => {
   console.log('\n🛑 Shutting down server...');
   stopStream();
 
-  // Close serial port
-  if (serialPort && serialPort.isOpen) {
-    serialPort.close((err) => {
-      if (err) {
-        console.error('Error closing serial port:', err);
-      } else {
-        console.log('🔌 Serial port closed');
-      }
-    });
-  }
+  // Close serial port and stop reconnecting
+  serialConnection.stop();
+
+  historyStore.close();
+  captureRecorder.stop();
+  replayPlayer.pause();
+  plantSimulator.stop();
+  mqttBridge?.stop();
+  discovery?.stop();
+  webhooks.stop();
 
   wss.close();
+  eventStreams.close();
   server.close(() => {
     console.log('✅ Server stopped');
     process.exit(0);
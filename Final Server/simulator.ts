@@ -0,0 +1,300 @@
+/**
+ * Plant environment simulator
+ * Produces plausible sensor readings instead of frozen mock values:
+ * - Soil dries continuously, faster when it's warm
+ * - Temperature and humidity follow a day/night cycle (humidity opposite to temperature)
+ * - MQ-2 sits at its baseline with occasional spikes that decay away
+ * - Watering drops soil moisture and pulses the raindrop sensor below 300
+ * - BioAmp is sampled at bioRateHz (in real time) around its resting level, with bursts of
+ *   short spikes while a gust of wind shakes the plant
+ *
+ * Simulated time can run faster than wall time (timeScale 1440 = one day per minute).
+ */
+
+import { BioBatch, MAX_BIO_SAMPLES, SensorState } from './types';
+
+export interface SimulatorParams {
+  timeScale: number;              // simulated seconds per real second
+  tickMs: number;                 // real milliseconds between readings
+  soilDryRatePerHour: number;     // raw soil units gained per simulated hour at mean temperature
+  tempMean: number;               // °C
+  tempAmplitude: number;          // °C, half the day/night swing
+  tempPeakHour: number;           // hour of day (0-24) with the warmest temperature
+  humMean: number;                // % RH
+  humAmplitude: number;           // % RH, half the day/night swing
+  mq2Baseline: number;            // raw, normal reading
+  mq2SpikesPerDay: number;        // expected spikes per simulated day
+  mq2SpikePeak: number;           // raw units added by a spike
+  mq2SpikeDecayMinutes: number;   // simulated minutes for a spike to decay by ~63%
+  wateringAmount: number;         // raw soil units removed by a watering
+  rainPulseMinutes: number;       // simulated minutes the raindrop sensor stays wet
+  autoWaterAt: number | null;     // water automatically when soil reaches this value (null = never)
+  noise: number;                  // 0-1, scale of random jitter on every channel
+  bioRateHz: number;              // BioAmp samples per real second (0 = no sample batches)
+  windGustsPerHour: number;       // expected gusts per real hour
+}
+
+export const DEFAULT_SIMULATOR_PARAMS: SimulatorParams = {
+  timeScale: 1,
+  tickMs: 1000,
+  soilDryRatePerHour: 6,
+  tempMean: 22,
+  tempAmplitude: 4,
+  tempPeakHour: 15,
+  humMean: 55,
+  humAmplitude: 12,
+  mq2Baseline: 70,
+  mq2SpikesPerDay: 3,
+  mq2SpikePeak: 300,
+  mq2SpikeDecayMinutes: 20,
+  wateringAmount: 450,
+  rainPulseMinutes: 2,
+  autoWaterAt: null,
+  noise: 0.2,
+  bioRateHz: 40,
+  windGustsPerHour: 6,
+};
+
+// Physical limits of the sensors
+const SOIL_WET = 250;
+const SOIL_DRY = 1020;
+const RAIN_DRY = 1020;
+const RAIN_WET = 180;
+const BIO_REST = 500;
+// A gust lasts this long and spikes this often (per sample) while it blows
+const GUST_MS = 3000;
+const GUST_SPIKE_CHANCE = 0.08;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export interface SimulatorStatus {
+  running: boolean;
+  simTime: string;
+  hourOfDay: number;
+  params: SimulatorParams;
+  state: SensorState;
+}
+
+export class PlantSimulator {
+  private params: SimulatorParams = { ...DEFAULT_SIMULATOR_PARAMS };
+  private timer: NodeJS.Timeout | null = null;
+  private simTime = Date.now();
+  private soil = 550;
+  private mq2Excess = 0;
+  private rainWetUntil = 0;
+  private gustSamplesLeft = 0;
+  private state: SensorState;
+
+  constructor(private onReading: (state: SensorState, bioBatch?: BioBatch) => void) {
+    this.state = this.sample();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), this.params.tickMs);
+    this.onReading(this.state);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Merge new parameters; restarts the tick timer if its interval changed
+   */
+  setParams(params: Partial<SimulatorParams>): SimulatorParams {
+    const tickChanged = params.tickMs !== undefined && params.tickMs !== this.params.tickMs;
+    this.params = { ...this.params, ...params };
+    if (tickChanged && this.isRunning()) {
+      this.stop();
+      this.start();
+    }
+    return { ...this.params };
+  }
+
+  /**
+   * Water the plant: soil gets wetter and the raindrop sensor reads wet for a while
+   */
+  water(amount: number = this.params.wateringAmount): SensorState {
+    this.soil = clamp(this.soil - amount, SOIL_WET, SOIL_DRY);
+    this.rainWetUntil = this.simTime + this.params.rainPulseMinutes * MINUTE_MS;
+    this.state = this.sample();
+    this.onReading(this.state);
+    return this.state;
+  }
+
+  /**
+   * Restore default parameters and a freshly watered plant at the current wall time
+   */
+  reset(): void {
+    this.params = { ...DEFAULT_SIMULATOR_PARAMS, tickMs: this.params.tickMs };
+    this.simTime = Date.now();
+    this.soil = 550;
+    this.mq2Excess = 0;
+    this.rainWetUntil = 0;
+    this.state = this.sample();
+  }
+
+  getStatus(): SimulatorStatus {
+    return {
+      running: this.isRunning(),
+      simTime: new Date(this.simTime).toISOString(),
+      hourOfDay: round(this.hourOfDay(), 2),
+      params: { ...this.params },
+      state: { ...this.state },
+    };
+  }
+
+  private tick(): void {
+    this.step(this.params.tickMs * this.params.timeScale);
+    const bioBatch = this.sampleBio(this.params.tickMs);
+    if (bioBatch) {
+      this.state = { ...this.state, bio: bioBatch.samples[bioBatch.samples.length - 1] };
+    }
+    this.onReading(this.state, bioBatch);
+  }
+
+  // Advance the simulation by dtMs of simulated time
+  private step(dtMs: number): void {
+    const p = this.params;
+    this.simTime += dtMs;
+    const dtHours = dtMs / HOUR_MS;
+
+    // Evaporation speeds up in the warm part of the day
+    const dryRate = p.soilDryRatePerHour * (1 + 0.5 * this.diurnal());
+    this.soil = clamp(this.soil + dryRate * dtHours, SOIL_WET, SOIL_DRY);
+
+    // MQ-2: exponential decay of any spike, plus Poisson-distributed new spikes
+    const decayMs = Math.max(1, p.mq2SpikeDecayMinutes) * MINUTE_MS;
+    this.mq2Excess *= Math.exp(-dtMs / decayMs);
+    const spikeChance = 1 - Math.exp(-(p.mq2SpikesPerDay / 24) * dtHours);
+    if (Math.random() < spikeChance) {
+      this.mq2Excess += p.mq2SpikePeak * (0.6 + 0.4 * Math.random());
+    }
+
+    if (p.autoWaterAt !== null && this.soil >= p.autoWaterAt && this.simTime >= this.rainWetUntil) {
+      this.soil = clamp(this.soil - p.wateringAmount, SOIL_WET, SOIL_DRY);
+      this.rainWetUntil = this.simTime + p.rainPulseMinutes * MINUTE_MS;
+    }
+
+    this.state = this.sample();
+  }
+
+  // Turn the internal model into a sensor reading (with jitter)
+  private sample(): SensorState {
+    const p = this.params;
+    const cycle = this.diurnal();
+    const wet = this.simTime < this.rainWetUntil;
+
+    return {
+      soil: Math.round(clamp(this.soil + this.jitter(4), 0, 1023)),
+      temp: round(p.tempMean + p.tempAmplitude * cycle + this.jitter(0.3), 1),
+      hum: round(clamp(p.humMean - p.humAmplitude * cycle + this.jitter(1.5), 0, 100), 1),
+      mq2: Math.round(clamp(p.mq2Baseline + this.mq2Excess + this.jitter(3), 0, 1023)),
+      // Wet readings always stay under the app's 300 watering threshold
+      rain: Math.round(wet ? clamp(RAIN_WET + this.jitter(40), 0, 299) : clamp(RAIN_DRY + this.jitter(3), 0, 1023)),
+      bio: Math.round(clamp(BIO_REST + this.jitter(30), 0, 1023)),
+    };
+  }
+
+  // BioAmp samples covering realMs of wall time (undefined when batches are off)
+  private sampleBio(realMs: number): BioBatch | undefined {
+    const p = this.params;
+    const count = Math.min(MAX_BIO_SAMPLES, Math.round((p.bioRateHz * realMs) / 1000));
+    if (count === 0) {
+      return undefined;
+    }
+    const gustChance = 1 - Math.exp(-(p.windGustsPerHour / 3600) * (realMs / 1000));
+    if (this.gustSamplesLeft === 0 && Math.random() < gustChance) {
+      this.gustSamplesLeft = Math.round((p.bioRateHz * GUST_MS) / 1000);
+    }
+
+    const samples: number[] = [];
+    for (let i = 0; i < count; i++) {
+      let value = BIO_REST + this.jitter(6);
+      if (this.gustSamplesLeft > 0) {
+        this.gustSamplesLeft--;
+        if (Math.random() < GUST_SPIKE_CHANCE) {
+          value += (Math.random() < 0.5 ? -1 : 1) * (150 + Math.random() * 150);
+        }
+      }
+      samples.push(Math.round(clamp(value, 0, 1023)));
+    }
+    return { rate: p.bioRateHz, samples };
+  }
+
+  // -1 at the coldest point of the day, +1 at tempPeakHour
+  private diurnal(): number {
+    return Math.cos((2 * Math.PI * (this.hourOfDay() - this.params.tempPeakHour)) / 24);
+  }
+
+  private hourOfDay(): number {
+    const date = new Date(this.simTime);
+    return date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+  }
+
+  private jitter(scale: number): number {
+    return (Math.random() * 2 - 1) * scale * this.params.noise * 5;
+  }
+}
+
+/**
+ * Validate a partial parameter update
+ * Returns an error message, or null if every field is valid
+ */
+export function validateSimulatorParams(input: any): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return 'Invalid payload: expected an object of simulator parameters';
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!(key in DEFAULT_SIMULATOR_PARAMS)) {
+      return `Unknown simulator parameter: ${key}`;
+    }
+    if (key === 'autoWaterAt' && value === null) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `Invalid ${key}: must be a number`;
+    }
+    if ((key === 'timeScale' || key === 'tickMs') && value <= 0) {
+      return `Invalid ${key}: must be greater than 0`;
+    }
+    if (key === 'tickMs' && value < 50) {
+      return 'Invalid tickMs: must be at least 50';
+    }
+    if (key === 'bioRateHz' && value > 1000) {
+      return 'Invalid bioRateHz: must be at most 1000';
+    }
+    if (key === 'noise' && (value < 0 || value > 1)) {
+      return 'Invalid noise: must be between 0 and 1';
+    }
+    if (key === 'tempPeakHour' && value > 24) {
+      return 'Invalid tempPeakHour: must be between 0 and 24';
+    }
+    if (key !== 'tempMean' && value < 0) {
+      return `Invalid ${key}: must not be negative`;
+    }
+  }
+
+  return null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,54 @@
+/**
+ * Shared type definitions for the unified sensor server
+ */
+
+export interface SensorState {
+  soil: number;      // raw 0-1023
+  temp: number;      // °C
+  hum: number;       // % RH
+  mq2: number;       // raw 0-1023
+  rain: number;      // raw 0-1023
+  bio: number;       // raw 0-1023 (BioAmp EXG)
+}
+
+export type SensorField = keyof SensorState;
+
+// All sensor channels, in the same order the Arduino prints them
+export const SENSOR_FIELDS: SensorField[] = ['soil', 'temp', 'hum', 'mq2', 'rain', 'bio'];
+
+/**
+ * Check that an unknown value carries every sensor field as a number
+ */
+export function isSensorState(value: any): value is SensorState {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    SENSOR_FIELDS.every((field) => typeof value[field] === 'number' && !Number.isNaN(value[field]))
+  );
+}
+
+// Raw BioAmp samples taken since the previous reading, oldest first (the reading's `bio` is the last one)
+export interface BioBatch {
+  rate: number;       // samples per second
+  samples: number[];  // raw 0-1023
+}
+
+// Most samples accepted in one batch (a few seconds at the firmware's rate)
+export const MAX_BIO_SAMPLES = 500;
+
+/**
+ * Check that an unknown value is a usable BioBatch
+ */
+export function isBioBatch(value: any): value is BioBatch {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.rate === 'number' &&
+    value.rate > 0 &&
+    value.rate <= 1000 &&
+    Array.isArray(value.samples) &&
+    value.samples.length > 0 &&
+    value.samples.length <= MAX_BIO_SAMPLES &&
+    value.samples.every((sample: unknown) => typeof sample === 'number' && Number.isFinite(sample))
+  );
+}
@@ -0,0 +1,299 @@
+/**
+ * Outbound webhook notifications
+ * Alert events are POSTed as JSON to every configured URL (home automation hubs, chat bots, ...).
+ * - Each body is signed with HMAC-SHA256 of the shared secret:
+ *     X-Plantagotchi-Signature: sha256=<hex digest of the raw body>
+ * - Deliveries that fail (network error, timeout, 429 or 5xx) are retried with exponential
+ *   backoff; the queue is kept in a JSON file so pending deliveries survive restarts
+ * - Every attempt is written to a delivery log
+ */
+
+import http from 'http';
+import https from 'https';
+import crypto from 'crypto';
+import { SensorState } from './types';
+import { PlantInfo } from './deviceRegistry';
+import { Alert } from './alertEngine';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export type WebhookEventType = 'alert.fired' | 'alert.cleared' | 'test';
+
+export interface WebhookPayload {
+  event: WebhookEventType;
+  id: string;                        // event ID, shared by the deliveries to each URL
+  ts: number;
+  plant: PlantInfo | null;
+  deviceId: string;
+  reading: SensorState | null;
+  alert?: Alert;
+}
+
+export interface DeliveryLogEntry {
+  deliveryId: string;
+  eventId: string;
+  event: WebhookEventType;
+  url: string;
+  attempt: number;
+  status: number | null;             // HTTP status, null if the request failed
+  error: string | null;
+  durationMs: number;
+  outcome: 'delivered' | 'retrying' | 'failed';
+  ts: number;
+}
+
+export interface WebhookStatus {
+  urls: string[];
+  signed: boolean;
+  queued: number;
+  nextAttemptAt: number | null;
+}
+
+export interface WebhookOptions {
+  urls: string[];
+  secret: string | null;
+  queueFile: string;
+  logFile: string;
+}
+
+// A delivery of one event to one URL, waiting for its next attempt
+interface QueuedDelivery {
+  id: string;
+  eventId: string;
+  event: WebhookEventType;
+  url: string;
+  body: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const RETRY_BASE_MS = 10000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 8;              // ~21 minutes of retries before giving up
+const MAX_LOG_ENTRIES = 500;
+const QUEUE_POLL_MS = 1000;
+
+export const SIGNATURE_HEADER = 'X-Plantagotchi-Signature';
+
+/**
+ * Parse a comma-separated list of webhook URLs; returns an error message for the first bad one
+ */
+export function parseWebhookUrls(value: string | undefined): { urls: string[]; error: string | null } {
+  const urls = (value || '').split(',').map((url) => url.trim()).filter((url) => url.length > 0);
+  for (const url of urls) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { urls: [], error: `Invalid webhook URL: ${url}` };
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { urls: [], error: `Invalid webhook URL (must be http or https): ${url}` };
+    }
+  }
+  return { urls, error: null };
+}
+
+/**
+ * Signature of a request body, as sent in the signature header
+ */
+export function signBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function postJson(url: string, body: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'plantagotchi-server',
+          ...headers,
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        response.on('end', () => resolve(response.statusCode ?? 0));
+        // A reset mid-body rejects, so the delivery is retried like a connection error
+        response.on('error', reject);
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// Rate limiting and server errors are worth retrying; other 4xx responses won't get better
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+export class WebhookDispatcher {
+  private queue: QueuedDelivery[] = [];
+  private log: DeliveryLogEntry[] = [];
+  private inFlight = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private counter = 0;
+
+  constructor(private options: WebhookOptions) {}
+
+  /**
+   * Load the retry queue and delivery log from disk
+   */
+  load(): void {
+    this.queue = readJsonFile<QueuedDelivery[]>(this.options.queueFile) ?? [];
+    this.log = readJsonFile<DeliveryLogEntry[]>(this.options.logFile) ?? [];
+  }
+
+  /**
+   * Start working through the retry queue
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.processDue(), QUEUE_POLL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.options.urls.length > 0;
+  }
+
+  /**
+   * Queue an event for every URL and make the first attempt right away
+   * Resolves with the outcome of those first attempts (failures stay queued for retry)
+   */
+  dispatch(event: WebhookEventType, payload: Omit<WebhookPayload, 'event' | 'id' | 'ts'>): Promise<DeliveryLogEntry[]> {
+    const now = Date.now();
+    const eventId = `evt-${now}-${++this.counter}`;
+    const body = JSON.stringify({ event, id: eventId, ts: now, ...payload });
+
+    const deliveries = this.options.urls.map((url, index) => ({
+      id: `${eventId}-${index + 1}`,
+      eventId,
+      event,
+      url,
+      body,
+      attempts: 0,
+      nextAttemptAt: now,
+    }));
+    this.queue.push(...deliveries);
+    this.saveQueue();
+
+    return Promise.all(deliveries.map((delivery) => this.attempt(delivery)));
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  listDeliveries(limit?: number): DeliveryLogEntry[] {
+    const entries = this.log.slice().reverse();
+    return limit ? entries.slice(0, limit) : entries;
+  }
+
+  getStatus(): WebhookStatus {
+    const nextAttemptAt = this.queue.reduce<number | null>(
+      (earliest, delivery) => (earliest === null || delivery.nextAttemptAt < earliest ? delivery.nextAttemptAt : earliest),
+      null
+    );
+    return {
+      urls: this.options.urls,
+      signed: !!this.options.secret,
+      queued: this.queue.length,
+      nextAttemptAt,
+    };
+  }
+
+  private processDue(): void {
+    const now = Date.now();
+    for (const delivery of this.queue) {
+      if (delivery.nextAttemptAt <= now && !this.inFlight.has(delivery.id)) {
+        this.attempt(delivery);
+      }
+    }
+  }
+
+  private async attempt(delivery: QueuedDelivery): Promise<DeliveryLogEntry> {
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+
+    const headers: Record<string, string> = {
+      'X-Plantagotchi-Event': delivery.event,
+      'X-Plantagotchi-Delivery': delivery.id,
+    };
+    if (this.options.secret) {
+      headers[SIGNATURE_HEADER] = signBody(delivery.body, this.options.secret);
+    }
+
+    const startedAt = Date.now();
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      status = await postJson(delivery.url, delivery.body, headers);
+      if (status < 200 || status >= 300) {
+        error = `HTTP ${status}`;
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+    this.inFlight.delete(delivery.id);
+
+    let outcome: DeliveryLogEntry['outcome'];
+    if (!error) {
+      outcome = 'delivered';
+      this.remove(delivery);
+      console.log(`📤 Webhook ${delivery.event} delivered to ${delivery.url}`);
+    } else if (isRetryable(status) && delivery.attempts < MAX_ATTEMPTS) {
+      outcome = 'retrying';
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, delivery.attempts - 1));
+      delivery.nextAttemptAt = Date.now() + delay;
+      this.saveQueue();
+      console.log(`⏳ Webhook to ${delivery.url} failed (${error}), retrying in ${Math.round(delay / 1000)}s`);
+    } else {
+      outcome = 'failed';
+      this.remove(delivery);
+      console.error(`❌ Webhook to ${delivery.url} failed after ${delivery.attempts} attempt(s): ${error}`);
+    }
+
+    const entry: DeliveryLogEntry = {
+      deliveryId: delivery.id,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      url: delivery.url,
+      attempt: delivery.attempts,
+      status,
+      error,
+      durationMs: Date.now() - startedAt,
+      outcome,
+      ts: startedAt,
+    };
+    this.log.push(entry);
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.splice(0, this.log.length - MAX_LOG_ENTRIES);
+    }
+    writeJsonFile(this.options.logFile, this.log);
+    return entry;
+  }
+
+  private remove(delivery: QueuedDelivery): void {
+    this.queue = this.queue.filter((queued) => queued.id !== delivery.id);
+    this.saveQueue();
+  }
+
+  private saveQueue(): void {
+    writeJsonFile(this.options.queueFile, this.queue);
+  }
+}
@@ -8,6 +8,15 @@ const int MQ2_PIN  = A3;
 const int DHTPIN   = 2;
 #define DHTTYPE DHT11
 
+// Unique per board when several plants share one server (letters, digits, - and _)
+const char* DEVICE_ID = "arduino-1";
+
+// BioAmp is sampled at BIO_RATE_HZ through the whole second between readings and sent as
+// "bioSamples" (at 9600 baud a bigger batch wouldn't go out before the next one is ready)
+const int BIO_RATE_HZ = 40;
+const int BIO_SAMPLES = BIO_RATE_HZ; // one second
+int bioSamples[BIO_SAMPLES];
+
 DHT dht(DHTPIN, DHTTYPE);
 
 void setup() {
@@ -17,11 +26,17 @@ void setup() {
 }
 
 void loop() {
+  // Sample the BioAmp for a second (this paces the loop)
+  for (int i = 0; i < BIO_SAMPLES; i++) {
+    bioSamples[i] = analogRead(BIO_PIN); // raw EEG value (0–1023)
+    delay(1000 / BIO_RATE_HZ);
+  }
+
   // Read sensors
   int soil = analogRead(SOIL_PIN);
   int rain = analogRead(RAIN_PIN);
   int mq2  = analogRead(MQ2_PIN);
-  int bio  = analogRead(BIO_PIN); // raw EEG value (0–1023)
+  int bio  = bioSamples[BIO_SAMPLES - 1];
 
   float temp = dht.readTemperature(); // Celsius
   float hum  = dht.readHumidity();    // %
@@ -32,6 +47,7 @@ void loop() {
 
   // Build line string
   String line = "STATE;";
+  line += "device=" + String(DEVICE_ID) + ";";
   line += "soil=" + String(soil) + ";";
   line += "temp=" + String(temp, 1) + ";";
   line += "hum=" + String(hum, 1) + ";";
@@ -46,8 +62,14 @@ void loop() {
   json += "\"hum\":" + String(hum, 1) + ",";
   json += "\"mq2\":" + String(mq2) + ",";
   json += "\"rain\":" + String(rain) + ",";
-  json += "\"bio\":" + String(bio);
-  json += "}";
+  json += "\"bio\":" + String(bio) + ",";
+  json += "\"bioRate\":" + String(BIO_RATE_HZ) + ",";
+  json += "\"bioSamples\":[";
+  for (int i = 0; i < BIO_SAMPLES; i++) {
+    if (i > 0) json += ",";
+    json += String(bioSamples[i]);
+  }
+  json += "]}";
 
   // Print final output
   Serial.print("{\n  \"line\": \"");
@@ -55,6 +77,4 @@ void loop() {
   Serial.print("\",\n  \"json\": ");
   Serial.print(json);
   Serial.println("\n}");
-
-  delay(1000);  // update every second
 }
@@ -1,13 +1,89 @@
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { useRouter } from 'expo-router';
+import { fetchCareFieldsForName, CareFields } from '@/src/services/perenual';
+import { fetchPlantbookForName, PlantbookFields } from '@/src/services/plantbook';
+import { saveSelectedSpecies } from '@/src/services/plantProfile';
+import { loadSelectedPlantId } from '@/src/hooks/usePlantSelection';
+import { CatalogSpecies, findCatalogSpecies, searchCatalog, withCatalogFallback } from '@/src/services/speciesCatalog';
 
 export default function ManualScreen() {
   const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [saving, setSaving] = useState<string | null>(null);
+  const matches = useMemo(() => searchCatalog(query, 12), [query]);
+  const typed = query.replace(/\s+/g, ' ').trim();
+
+  const choose = async (name: string, catalogSpecies: CatalogSpecies | null) => {
+    if (saving) return;
+    setSaving(name);
+    // Online care data when it can be fetched, the bundled catalog when offline or unknown to the APIs
+    let careFields: CareFields | null = null;
+    let pbFields: PlantbookFields | null = null;
+    const commonName = catalogSpecies?.commonNames[0];
+    const [careRes, pbRes] = await Promise.allSettled([
+      fetchCareFieldsForName(name, commonName),
+      fetchPlantbookForName(name, commonName),
+    ]);
+    if (careRes.status === 'fulfilled') careFields = careRes.value;
+    if (pbRes.status === 'fulfilled') pbFields = pbRes.value;
+    const fallback = withCatalogFallback(catalogSpecies, pbFields, careFields);
+    await saveSelectedSpecies(await loadSelectedPlantId(), name, fallback.plantbook, fallback.care);
+    router.replace('/dashboard');
+  };
+
+  // Offer the typed name as-is unless it is already a catalog name
+  const showTyped = typed.length > 0 && !findCatalogSpecies(typed);
+
   return (
     <View style={styles.wrap}>
       <Text style={styles.title}>Choose your plant manually</Text>
-      {/* TODO: Autocomplete list or dropdown of common species */}
-      <TouchableOpacity onPress={() => router.back()} style={styles.btn}>
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search by common or scientific name"
+        placeholderTextColor="#7a8f80"
+        autoCorrect={false}
+        autoCapitalize="none"
+        returnKeyType="done"
+        editable={!saving}
+      />
+      <FlatList
+        style={styles.list}
+        data={matches}
+        keyExtractor={(m) => m.species.scientificName}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          showTyped ? (
+            <TouchableOpacity style={styles.row} onPress={() => choose(typed, null)}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowTitle}>Use &quot;{typed}&quot;</Text>
+                <Text style={styles.rowSub}>Look up care data online for this name</Text>
+              </View>
+              {saving === typed && <ActivityIndicator color="#2f7d32" />}
+            </TouchableOpacity>
+          ) : null
+        }
+        ListEmptyComponent={
+          showTyped ? null : <Text style={styles.empty}>No matching plants in the catalog</Text>
+        }
+        renderItem={({ item }) => {
+          const { species, matchedName } = item;
+          const commonName = matchedName === species.scientificName ? species.commonNames[0] : matchedName;
+          return (
+            <TouchableOpacity style={styles.row} onPress={() => choose(species.scientificName, species)}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowTitle}>{commonName}</Text>
+                <Text style={styles.rowSub}>{species.scientificName}</Text>
+              </View>
+              {saving === species.scientificName && <ActivityIndicator color="#2f7d32" />}
+            </TouchableOpacity>
+          );
+        }}
+      />
+      {saving && <Text style={styles.saving}>Fetching care data for {saving}…</Text>}
+      <TouchableOpacity onPress={() => router.back()} style={styles.btn} disabled={!!saving}>
         <Text style={{ color: 'white' }}>Back</Text>
       </TouchableOpacity>
     </View>
@@ -15,8 +91,14 @@ export default function ManualScreen() {
 }
 
 const styles = StyleSheet.create({
-  wrap: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  wrap: { flex: 1, alignItems: 'center', padding: 24, paddingTop: 64 },
   title: { fontSize: 20, fontWeight: '700', marginBottom: 16 },
+  input: { alignSelf: 'stretch', borderWidth: 1, borderColor: '#2f7d32', borderRadius: 8, paddingHorizontal: 12, paddingVertical: 10, fontSize: 16 },
+  list: { alignSelf: 'stretch', marginTop: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 10, paddingHorizontal: 4, borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: '#cfe3d2' },
+  rowTitle: { fontSize: 16, fontWeight: '600' },
+  rowSub: { fontSize: 13, color: '#2f7d32', fontStyle: 'italic', marginTop: 2 },
+  empty: { textAlign: 'center', color: '#7a8f80', marginTop: 16 },
+  saving: { color: '#2f7d32', marginTop: 8 },
   btn: { marginTop: 12, backgroundColor: '#2f7d32', padding: 12, borderRadius: 8 }
 });
-
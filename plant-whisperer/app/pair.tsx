@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  DiscoveredServer,
+  SavedServer,
+  ServerSource,
+  parsePairingLink,
+  serverDiscovery,
+} from '@/src/services/serverDiscovery';
+
+export default function PairScreen() {
+  const router = useRouter();
+  // Set when opened from the server's QR code by the phone's own camera app (plantwhisperer://pair?url=...)
+  const params = useLocalSearchParams<{ url?: string; name?: string }>();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [saved, setSaved] = useState<SavedServer | null>(null);
+  const [servers, setServers] = useState<DiscoveredServer[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [pairing, setPairing] = useState(false);
+  const scannedRef = useRef(false);
+  const browsing = serverDiscovery.isSupported();
+
+  useEffect(() => {
+    serverDiscovery.getSavedServer().then(setSaved);
+    return serverDiscovery.onServerChange(setSaved);
+  }, []);
+
+  useEffect(() => serverDiscovery.browse(setServers), []);
+
+  const pair = async (url: string, name: string | null, source: ServerSource) => {
+    setPairing(true);
+    await serverDiscovery.saveServer(url, name, source);
+    router.replace('/dashboard');
+  };
+
+  useEffect(() => {
+    if (params.url) {
+      const link = parsePairingLink(params.url);
+      if (link) {
+        pair(link.url, params.name ?? link.name, 'qr');
+      } else {
+        Alert.alert('Invalid pairing link', String(params.url));
+      }
+    }
+    // Only for the link the screen was opened with
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.url]);
+
+  const startScan = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) return;
+    }
+    scannedRef.current = false;
+    setScanning(true);
+  };
+
+  const onScanned = ({ data }: BarcodeScanningResult) => {
+    if (scannedRef.current) return;
+    scannedRef.current = true;
+    const link = parsePairingLink(data);
+    if (!link) {
+      Alert.alert('Not a pairing code', 'Scan the QR code shown under "Pair the App" in the server\'s web page.', [
+        { text: 'OK', onPress: () => { scannedRef.current = false; } },
+      ]);
+      return;
+    }
+    setScanning(false);
+    pair(link.url, link.name, 'qr');
+  };
+
+  const forget = async () => {
+    await serverDiscovery.forgetServer();
+  };
+
+  if (pairing) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#2f7d32" />
+        <Text style={styles.note}>Connecting…</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.wrap}>
+      <Text style={styles.title}>Pair with server</Text>
+
+      <View style={styles.current}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.rowTitle}>{saved ? saved.name : 'No server paired'}</Text>
+          <Text style={styles.rowSub}>{saved ? saved.url : 'Using the default address'}</Text>
+        </View>
+        {saved && (
+          <TouchableOpacity onPress={forget} style={styles.btnAlt}>
+            <Text style={styles.btnTextAlt}>Forget</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {scanning ? (
+        <View style={styles.scanner}>
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={onScanned}
+          />
+        </View>
+      ) : (
+        <>
+          <Text style={styles.section}>Servers on this network</Text>
+          <FlatList
+            style={styles.list}
+            data={servers}
+            keyExtractor={(server) => server.name}
+            ListEmptyComponent={
+              <Text style={styles.empty}>
+                {browsing
+                  ? 'Looking for servers…'
+                  : 'Finding servers automatically needs a development build. Scan the QR code instead.'}
+              </Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.row} onPress={() => pair(item.url, item.name, 'mdns')}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowTitle}>{item.name}</Text>
+                  <Text style={styles.rowSub}>{item.url}</Text>
+                </View>
+                {saved?.url === item.url && <Text style={styles.badge}>Paired</Text>}
+              </TouchableOpacity>
+            )}
+          />
+        </>
+      )}
+
+      <Text style={styles.note}>
+        The QR code is on the server&apos;s web page (http://localhost:4000), under &quot;Pair the App&quot;.
+      </Text>
+      <View style={styles.buttons}>
+        <TouchableOpacity onPress={scanning ? () => setScanning(false) : startScan} style={styles.btn}>
+          <Text style={styles.btnText}>{scanning ? 'Stop scanning' : 'Scan QR code'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => router.back()} style={styles.btnAlt}>
+          <Text style={styles.btnTextAlt}>Back</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: { flex: 1, padding: 24, paddingTop: 64 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  title: { fontSize: 20, fontWeight: '700', marginBottom: 16, textAlign: 'center' },
+  current: { flexDirection: 'row', alignItems: 'center', padding: 12, borderWidth: 1, borderColor: '#2f7d32', borderRadius: 8 },
+  section: { fontSize: 16, fontWeight: '700', marginTop: 20, marginBottom: 4 },
+  list: { flexGrow: 0, maxHeight: 280 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 10, paddingHorizontal: 4, borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: '#cfe3d2' },
+  rowTitle: { fontSize: 16, fontWeight: '600' },
+  rowSub: { fontSize: 13, color: '#2f7d32', marginTop: 2 },
+  badge: { color: '#2f7d32', fontWeight: '600' },
+  empty: { color: '#7a8f80', marginTop: 12 },
+  scanner: { marginTop: 20, aspectRatio: 1, borderRadius: 12, overflow: 'hidden', backgroundColor: '#0b1b13' },
+  note: { color: '#7a8f80', marginTop: 16, textAlign: 'center' },
+  buttons: { flexDirection: 'row', justifyContent: 'center', gap: 12, marginTop: 16 },
+  btn: { backgroundColor: '#2f7d32', paddingVertical: 12, paddingHorizontal: 16, borderRadius: 8 },
+  btnText: { color: 'white', fontWeight: '600' },
+  btnAlt: { borderWidth: 1, borderColor: '#2f7d32', paddingVertical: 10, paddingHorizontal: 12, borderRadius: 8 },
+  btnTextAlt: { color: '#2f7d32' },
+});
@@ -1,7 +1,9 @@
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { fetchCareFieldsForName, CareFields } from '@/src/services/perenual';
 import { fetchPlantbookForName, PlantbookFields } from '@/src/services/plantbook';
+import { saveSelectedSpecies } from '@/src/services/plantProfile';
+import { loadSelectedPlantId } from '@/src/hooks/usePlantSelection';
+import { findCatalogSpecies, withCatalogFallback } from '@/src/services/speciesCatalog';
 import { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Animated, Easing, Image, Modal, Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { identifyPlantFromUri, PlantNetResponse } from '../lib/plantnet';
@@ -37,16 +39,20 @@ export default function ResultScreen() {
         const canon = sciNoAuthor && typeof sciNoAuthor === 'string' ? sciNoAuthor.replace(/\s+/g, ' ').trim() : null;
         if (canon) {
           // Fetch Perenual + Plantbook and show brief JSON before navigating
+          let careFields: CareFields | null = null;
+          let pbFields: PlantbookFields | null = null;
           try {
             const [careRes, pbRes] = await Promise.allSettled([
               fetchCareFieldsForName(canon, top?.species?.commonNames?.[0]),
               fetchPlantbookForName(canon, top?.species?.commonNames?.[0]),
             ]);
-            if (careRes.status === 'fulfilled') setCare(careRes.value);
-            if (pbRes.status === 'fulfilled') setPb(pbRes.value);
+            if (careRes.status === 'fulfilled') { careFields = careRes.value; setCare(careRes.value); }
+            if (pbRes.status === 'fulfilled') { pbFields = pbRes.value; setPb(pbRes.value); }
           } catch {}
           setApisLoaded(true);
-          try { await AsyncStorage.setItem('selectedSpeciesName', canon); } catch {}
+          // Dashboard thresholds follow the identified species (the offline catalog, then defaults, fill whatever the APIs lack)
+          const fallback = withCatalogFallback(findCatalogSpecies(canon), pbFields, careFields);
+          await saveSelectedSpecies(await loadSelectedPlantId(), canon, fallback.plantbook, fallback.care);
           // Reveal modern summary popup once both API load and min delay complete
           // Actual reveal is handled by the effect watching [apisLoaded, minDelayDone]
         }
@@ -1,24 +1,46 @@
 /**
  * ConnectionStatusPill component
- * Displays the connection status of the plant sensor
+ * Displays the connection status of the plant sensor, with a countdown while a reconnect is pending
+ * and the fallback transport (SSE or polling) when the WebSocket couldn't be used
  * Implementation placeholder - actual component from Dev C
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { ConnectionStatus } from '../services/dataClient';
+import { ConnectionStatus, TransportKind } from '../services/dataClient';
 import { colors, spacing, typography } from '../theme';
 
 interface ConnectionStatusPillProps {
   status: ConnectionStatus;
+  retryAt?: number | null; // When the next reconnect attempt fires (ms since epoch)
+  transport?: TransportKind | null;
 }
 
-export function ConnectionStatusPill({ status }: ConnectionStatusPillProps) {
+const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  websocket: '',
+  sse: ' (SSE)',
+  polling: ' (polling)',
+};
+
+export function ConnectionStatusPill({ status, retryAt = null, transport = null }: ConnectionStatusPillProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a retry is pending
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
   const getStatusColor = () => {
     switch (status) {
       case 'connected':
         return colors.success;
       case 'connecting':
+      case 'stale':
         return colors.warning;
       case 'idle':
         return colors.neutral;
@@ -35,6 +57,8 @@ export function ConnectionStatusPill({ status }: ConnectionStatusPillProps) {
         return 'Connected';
       case 'connecting':
         return 'Connecting...';
+      case 'stale':
+        return 'No data';
       case 'idle':
         return 'Disconnected';
       case 'error':
@@ -44,9 +68,21 @@ export function ConnectionStatusPill({ status }: ConnectionStatusPillProps) {
     }
   };
 
+  const getRetryText = () => {
+    if (retryAt === null || status === 'connected' || status === 'connecting') {
+      return '';
+    }
+    const seconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+    return seconds > 0 ? ` · retry in ${seconds}s` : ' · retrying';
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: getStatusColor() }]}>
-      <Text style={styles.text}>{getStatusText()}</Text>
+      <Text style={styles.text}>
+        {getStatusText()}
+        {transport ? TRANSPORT_LABELS[transport] : ''}
+        {getRetryText()}
+      </Text>
     </View>
   );
 }
@@ -31,7 +31,7 @@ export function EventLog({ events, maxItems = 10 }: EventLogProps) {
         <View key={event.id} style={styles.eventItem}>
           <View style={styles.eventIcon}>
             <Text style={styles.eventIconText}>
-              {event.type === 'watered' ? '💧' : event.type === 'checked' ? '✅' : '📋'}
+              {event.type === 'watered' ? '💧' : event.type === 'checked' ? '✅' : event.type === 'bio' ? '🌿' : '📋'}
             </Text>
           </View>
           <View style={styles.eventContent}>
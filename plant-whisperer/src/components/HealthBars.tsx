@@ -3,12 +3,13 @@
  * - Single overall red health bar at top (weighted average of soil, temp, hum, mq2)
  * - Diamond icons below for each sensor (green if optimal, red if not)
  * - Long press on icons shows detail dialog with vertical meter
+ * - Faulty sensors are greyed out with a "?" and left out of the overall health
  */
 
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, useWindowDimensions } from 'react-native';
 import { Image } from 'expo-image';
-import { PlantScores, PlantVitalsRaw } from '../types/plant';
+import { PlantScores, PlantVitalsRaw, SensorFault, PlantProfile } from '../types/plant';
 import { colors, spacing, typography } from '../theme';
 import { PixelIcon } from './PixelIcon';
 import {
@@ -22,15 +23,19 @@ import {
   computeHumScore,
   computeAirQualityScore,
 } from '../services/plantModel';
+import { hasFault } from '../services/sensorFaults';
+import { DEFAULT_PLANT_PROFILE } from '../services/plantProfile';
 import { SensorDetailDialog } from './SensorDetailDialog';
 import { HealthBar } from './HealthBar';
 
 interface HealthBarsProps {
   scores: PlantScores | null;
   rawVitals: PlantVitalsRaw | null;
+  faults?: SensorFault[];
+  profile?: PlantProfile; // Thresholds of the identified species
 }
 
-export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
+export function HealthBars({ scores, rawVitals, faults = [], profile = DEFAULT_PLANT_PROFILE }: HealthBarsProps) {
   const { width: windowWidth } = useWindowDimensions();
   const [selectedSensor, setSelectedSensor] = useState<'soil' | 'temp' | 'hum' | 'mq2' | null>(null);
 
@@ -43,19 +48,21 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
     rawVitals.soilMoisture,
     rawVitals.temperature,
     rawVitals.humidity,
-    rawVitals.mq2
+    rawVitals.mq2,
+    faults,
+    profile
   );
 
   // Check optimality for each sensor
-  const soilOptimal = isSoilOptimal(rawVitals.soilMoisture);
-  const tempOptimal = isTempOptimal(rawVitals.temperature);
-  const humOptimal = isHumOptimal(rawVitals.humidity);
+  const soilOptimal = isSoilOptimal(rawVitals.soilMoisture, profile);
+  const tempOptimal = isTempOptimal(rawVitals.temperature, profile);
+  const humOptimal = isHumOptimal(rawVitals.humidity, profile);
   const mq2Optimal = isMq2Optimal(rawVitals.mq2);
 
   // Calculate individual sensor scores for the detail dialog
-  const soilScore = computeHydrationScore(rawVitals.soilMoisture, rawVitals.raindrop);
-  const tempScore = computeTempScore(rawVitals.temperature);
-  const humScore = computeHumScore(rawVitals.humidity);
+  const soilScore = computeHydrationScore(rawVitals.soilMoisture, rawVitals.raindrop, profile);
+  const tempScore = computeTempScore(rawVitals.temperature, profile);
+  const humScore = computeHumScore(rawVitals.humidity, profile);
   const mq2Score = computeAirQualityScore(rawVitals.mq2);
 
   const handleLongPress = (sensorType: 'soil' | 'temp' | 'hum' | 'mq2') => {
@@ -119,8 +126,11 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
     }
   };
 
-  // Render overall health bar
+  // Render overall health bar (hidden when every sensor is faulty)
   const renderOverallHealthBar = () => {
+    if (overallHealth === null) {
+      return null;
+    }
     const displayValue = Math.max(0, Math.min(100, overallHealth));
 
     return (
@@ -149,7 +159,9 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
     const isTemp = sensorType === 'temp';
     const isImageSensor = isAir || isHum || isSoil || isTemp;
     const moduleSize = isImageSensor ? Math.round(iconSize * 1.6) : iconSize; // Slightly larger for Image-based icons
-    const iconColor = isOptimal ? '#4caf50' : '#f44336'; // Green if optimal, red if not
+    const isFaulty = hasFault(faults, sensorType);
+    // Green if optimal, red if not, grey if the sensor can't be trusted
+    const iconColor = isFaulty ? '#9e9e9e' : isOptimal ? '#4caf50' : '#f44336';
 
     return (
       <TouchableOpacity
@@ -190,7 +202,9 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
                   {
                     width: iconSize - 12,
                     height: iconSize - 12,
-                    backgroundColor: isOptimal ? 'rgba(76, 175, 80, 0.2)' : 'rgba(244, 67, 54, 0.2)',
+                    backgroundColor: isFaulty
+                      ? 'rgba(158, 158, 158, 0.2)'
+                      : isOptimal ? 'rgba(76, 175, 80, 0.2)' : 'rgba(244, 67, 54, 0.2)',
                   },
                 ]}
               />
@@ -218,7 +232,8 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
                             : require('../../assets/images/Red_Temp.png'))
                 }
                 // Fill the module for image-based sensors
-                style={{ width: moduleSize - 4, height: moduleSize - 4 }}
+                style={{ width: moduleSize - 4, height: moduleSize - 4, opacity: isFaulty ? 0.5 : 1 }}
+                tintColor={isFaulty ? iconColor : undefined}
                 contentFit="contain"
                 transition={200}
               />
@@ -228,7 +243,7 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
           </View>
         </View>
         {/* Label */}
-        <Text style={styles.sensorIconLabel}>{label}</Text>
+        <Text style={styles.sensorIconLabel}>{isFaulty ? `${label} ?` : label}</Text>
       </TouchableOpacity>
     );
   };
@@ -255,6 +270,7 @@ export function HealthBars({ scores, rawVitals }: HealthBarsProps) {
           sensorValue={getSensorValue(selectedSensor)}
           sensorScore={getSensorScore(selectedSensor)}
           isOptimal={getSensorOptimal(selectedSensor)}
+          profile={profile}
         />
       )}
     </View>
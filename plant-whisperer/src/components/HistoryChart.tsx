@@ -0,0 +1,189 @@
+/**
+ * HistoryChart component
+ * Line chart of one sensor's rollups: average line, min-max envelope and the optimal band
+ * Drawn with react-native-svg; gaps in the recording break the line instead of bridging it
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Rect, Path, Line, Text as SvgText } from 'react-native-svg';
+import { HistorySeries, HistoryPoint } from '../services/historyStore';
+import { colors, spacing, typography } from '../theme';
+
+interface HistoryChartProps {
+  title: string;
+  unit?: string;
+  series: HistorySeries | null;
+  band: { min: number; max: number } | null; // optimal range, shaded green
+  color: string;
+  width: number;
+  height?: number;
+  now?: number;
+}
+
+const PADDING = { top: 8, right: 8, bottom: 18, left: 36 };
+
+// Split points wherever the recording has a gap longer than two buckets
+function segments(points: HistoryPoint[], stepMs: number): HistoryPoint[][] {
+  const result: HistoryPoint[][] = [];
+  let current: HistoryPoint[] = [];
+  for (const point of points) {
+    const prev = current[current.length - 1];
+    if (prev && point.t - prev.t > stepMs * 2) {
+      result.push(current);
+      current = [];
+    }
+    current.push(point);
+  }
+  if (current.length > 0) {
+    result.push(current);
+  }
+  return result;
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 100 ? String(Math.round(value)) : value.toFixed(1).replace(/\.0$/, '');
+}
+
+export function HistoryChart({
+  title,
+  unit = '',
+  series,
+  band,
+  color,
+  width,
+  height = 140,
+  now = Date.now(),
+}: HistoryChartProps) {
+  const plotWidth = Math.max(1, width - PADDING.left - PADDING.right);
+  const plotHeight = Math.max(1, height - PADDING.top - PADDING.bottom);
+  const points = useMemo(() => series?.points ?? [], [series]);
+
+  const chart = useMemo(() => {
+    if (!series || points.length === 0) {
+      return null;
+    }
+
+    // Y range covers the data and the optimal band, with a little headroom
+    let low = Math.min(...points.map((point) => point.min));
+    let high = Math.max(...points.map((point) => point.max));
+    if (band) {
+      low = Math.min(low, band.min);
+      high = Math.max(high, band.max);
+    }
+    const pad = Math.max((high - low) * 0.05, 1);
+    low -= pad;
+    high += pad;
+
+    const x = (t: number) => PADDING.left + ((t - series.startMs) / Math.max(1, now - series.startMs)) * plotWidth;
+    const y = (value: number) => PADDING.top + (1 - (value - low) / (high - low)) * plotHeight;
+
+    const lines: string[] = [];
+    const envelopes: string[] = [];
+    for (const segment of segments(points, series.stepMs)) {
+      lines.push(segment.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.t).toFixed(1)},${y(point.avg).toFixed(1)}`).join(' '));
+      const top = segment.map((point) => `${x(point.t).toFixed(1)},${y(point.max).toFixed(1)}`);
+      const bottom = segment.map((point) => `${x(point.t).toFixed(1)},${y(point.min).toFixed(1)}`).reverse();
+      envelopes.push(`M${top.join(' L')} L${bottom.join(' L')} Z`);
+    }
+
+    return {
+      low,
+      high,
+      lines,
+      envelopes,
+      bandRect: band ? { y: y(band.max), height: Math.max(0, y(band.min) - y(band.max)) } : null,
+    };
+  }, [series, points, band, now, plotWidth, plotHeight]);
+
+  const latest = points[points.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        {latest && (
+          <Text style={styles.latest}>
+            {formatValue(latest.avg)}
+            {unit}
+          </Text>
+        )}
+      </View>
+      {chart ? (
+        <Svg width={width} height={height}>
+          <Rect x={PADDING.left} y={PADDING.top} width={plotWidth} height={plotHeight} fill={colors.surfaceElevated} />
+          {chart.bandRect && (
+            <Rect
+              x={PADDING.left}
+              y={chart.bandRect.y}
+              width={plotWidth}
+              height={chart.bandRect.height}
+              fill={colors.primary}
+              opacity={0.18}
+            />
+          )}
+          {chart.envelopes.map((d, i) => (
+            <Path key={`envelope-${i}`} d={d} fill={color} opacity={0.2} />
+          ))}
+          {chart.lines.map((d, i) => (
+            <Path key={`line-${i}`} d={d} stroke={color} strokeWidth={1.5} fill="none" />
+          ))}
+          <Line
+            x1={PADDING.left}
+            y1={PADDING.top + plotHeight}
+            x2={PADDING.left + plotWidth}
+            y2={PADDING.top + plotHeight}
+            stroke={colors.neutral}
+            strokeWidth={1}
+          />
+          <SvgText x={PADDING.left - 4} y={PADDING.top + 8} fontSize={10} fill={colors.textTertiary} textAnchor="end">
+            {formatValue(chart.high)}
+          </SvgText>
+          <SvgText x={PADDING.left - 4} y={PADDING.top + plotHeight} fontSize={10} fill={colors.textTertiary} textAnchor="end">
+            {formatValue(chart.low)}
+          </SvgText>
+          <SvgText x={PADDING.left} y={height - 4} fontSize={10} fill={colors.textTertiary}>
+            {series?.window} ago
+          </SvgText>
+          <SvgText x={PADDING.left + plotWidth} y={height - 4} fontSize={10} fill={colors.textTertiary} textAnchor="end">
+            now
+          </SvgText>
+        </Svg>
+      ) : (
+        <View style={[styles.empty, { width, height }]}>
+          <Text style={styles.emptyText}>No readings recorded yet</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: spacing.xs,
+  },
+  title: {
+    ...typography.label,
+    color: colors.textPrimary,
+  },
+  latest: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+  empty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 8,
+  },
+  emptyText: {
+    ...typography.label,
+    color: colors.textTertiary,
+  },
+});
@@ -0,0 +1,76 @@
+/**
+ * PlantSwitcher component
+ * Row of plant name chips for choosing which plant the dashboard follows
+ * Hidden when the server only knows one plant
+ */
+
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PlantInfo } from '../types/plant';
+import { spacing } from '../theme';
+
+interface PlantSwitcherProps {
+  plants: PlantInfo[];
+  selectedPlantId: string | null;
+  onSelect: (plantId: string) => void;
+}
+
+export function PlantSwitcher({ plants, selectedPlantId, onSelect }: PlantSwitcherProps) {
+  if (plants.length <= 1) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+    >
+      {plants.map((plant) => {
+        const selected = plant.id === selectedPlantId;
+        return (
+          <TouchableOpacity
+            key={plant.id}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(plant.id)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+              {plant.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: spacing.xs,
+    paddingHorizontal: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 34, 34, 0.75)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    maxWidth: 140,
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderColor: '#fff',
+  },
+  chipText: {
+    color: '#fff',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    letterSpacing: 0.5,
+  },
+  chipTextSelected: {
+    color: '#222',
+    fontWeight: 'bold',
+  },
+});
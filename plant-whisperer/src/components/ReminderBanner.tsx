@@ -1,25 +1,34 @@
 /**
  * ReminderBanner component
- * Displays reminders for plant care tasks
- * Implementation placeholder - actual component from Dev C
+ * Displays the most pressing due care reminder with Done / Snooze / Skip actions
  */
 
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Reminder } from '../types/plant';
 import { colors, spacing, typography } from '../theme';
 
 interface ReminderBannerProps {
   reminders: Reminder[];
+  onComplete?: (reminderId: string) => void;
+  onSnooze?: (reminderId: string) => void;
+  onSkip?: (reminderId: string) => void;
 }
 
-export function ReminderBanner({ reminders }: ReminderBannerProps) {
+export function ReminderBanner({ reminders, onComplete, onSnooze, onSkip }: ReminderBannerProps) {
   if (!reminders || reminders.length === 0) {
     return null;
   }
 
   const urgentReminder = reminders.find((r) => r.isUrgent);
   const displayReminder = urgentReminder || reminders[0];
+  const moreCount = reminders.length - 1;
+
+  const actions: [string, ((reminderId: string) => void) | undefined][] = [
+    ['Done', onComplete],
+    ['Snooze', onSnooze],
+    ['Skip', onSkip],
+  ];
 
   return (
     <View
@@ -28,6 +37,21 @@ export function ReminderBanner({ reminders }: ReminderBannerProps) {
         displayReminder.isUrgent && styles.urgentContainer,
       ]}>
       <Text style={styles.text}>{displayReminder.message}</Text>
+      {moreCount > 0 && <Text style={styles.moreText}>+{moreCount} more</Text>}
+      <View style={styles.actions}>
+        {actions.map(([label, handler]) =>
+          handler ? (
+            <TouchableOpacity
+              key={label}
+              style={styles.actionButton}
+              onPress={() => handler(displayReminder.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.actionText}>{label}</Text>
+            </TouchableOpacity>
+          ) : null
+        )}
+      </View>
     </View>
   );
 }
@@ -55,5 +79,29 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontFamily: 'monospace', // Pixel art font
   },
+  moreText: {
+    ...typography.caption,
+    color: colors.textInverse,
+    textAlign: 'center',
+    fontFamily: 'monospace',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    backgroundColor: colors.overlayLight,
+    borderWidth: 2,
+    borderColor: colors.textInverse,
+  },
+  actionText: {
+    ...typography.label,
+    color: colors.textInverse,
+    fontFamily: 'monospace',
+  },
 });
 
@@ -8,6 +8,9 @@ import { View, Text, StyleSheet, Modal, TouchableOpacity, Dimensions, Animated }
 import { BlurView } from 'expo-blur';
 import { colors, spacing, typography } from '../theme';
 import { PixelIcon } from './PixelIcon';
+import { PlantProfile } from '../types/plant';
+import { DEFAULT_PLANT_PROFILE } from '../services/plantProfile';
+import { getOptimalHumidityRange } from '../services/plantModel';
 
 interface SensorDetailDialogProps {
   visible: boolean;
@@ -16,6 +19,7 @@ interface SensorDetailDialogProps {
   sensorValue: number;
   sensorScore: number; // 0-100 optimality score
   isOptimal: boolean;
+  profile?: PlantProfile; // Optimal ranges shown for the identified species
 }
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -138,7 +142,10 @@ export function SensorDetailDialog({
   sensorValue,
   sensorScore,
   isOptimal,
+  profile = DEFAULT_PLANT_PROFILE,
 }: SensorDetailDialogProps) {
+  const optimalHumidity = getOptimalHumidityRange(profile);
+
   const getSensorInfo = () => {
     switch (sensorType) {
       case 'soil':
@@ -146,7 +153,7 @@ export function SensorDetailDialog({
           label: 'Soil Moisture',
           unit: '',
           iconType: 'soil' as const,
-          optimalRange: '400-699',
+          optimalRange: `${profile.soil.wet}-${profile.soil.thirsty - 1}`,
           description: 'Raw sensor reading (0-1023)',
         };
       case 'temp':
@@ -154,7 +161,7 @@ export function SensorDetailDialog({
           label: 'Temperature',
           unit: '°C',
           iconType: 'sunlight' as const,
-          optimalRange: '13-27°C',
+          optimalRange: `${profile.temp.min}-${profile.temp.max}°C`,
           description: 'Temperature in Celsius',
         };
       case 'hum':
@@ -162,7 +169,7 @@ export function SensorDetailDialog({
           label: 'Humidity',
           unit: '%',
           iconType: 'water' as const,
-          optimalRange: '40-70%',
+          optimalRange: `${optimalHumidity.min}-${optimalHumidity.max}%`,
           description: 'Relative humidity',
         };
       case 'mq2':
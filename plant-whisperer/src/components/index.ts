@@ -10,4 +10,6 @@ export { EventLog } from './EventLog';
 export { PixelCameraIcon } from './PixelCameraIcon';
 export { PixelIcon } from './PixelIcon';
 export { SensorDetailDialog } from './SensorDetailDialog';
+export { PlantSwitcher } from './PlantSwitcher';
+export { HistoryChart } from './HistoryChart';
 
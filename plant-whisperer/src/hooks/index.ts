@@ -3,4 +3,5 @@
  */
 
 export { usePlantState } from './usePlantState';
+export { usePlantSelection } from './usePlantSelection';
 
@@ -0,0 +1,80 @@
+/**
+ * Hook for choosing which plant the app follows
+ * Loads the plant list from the server and remembers the selection across launches
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlantInfo } from '../types/plant';
+import { dataClient } from '../services/dataClient';
+
+const SELECTED_PLANT_KEY = 'selectedPlantId';
+
+interface UsePlantSelectionReturn {
+  plants: PlantInfo[];
+  selectedPlant: PlantInfo | null;
+  selectedPlantId: string | null; // Remembered selection, known even before the plant list loads
+  selectPlant: (plantId: string) => void;
+  refreshPlants: () => Promise<void>;
+}
+
+/**
+ * Last plant chosen in the app (null if none yet), for screens that act on it without the full list
+ */
+export async function loadSelectedPlantId(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(SELECTED_PLANT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function usePlantSelection(): UsePlantSelectionReturn {
+  const [plants, setPlants] = useState<PlantInfo[]>([]);
+  const [selectedPlantId, setSelectedPlantId] = useState<string | null>(null);
+
+  // Restore the last selection
+  useEffect(() => {
+    loadSelectedPlantId().then((stored) => {
+      if (stored) {
+        setSelectedPlantId((current) => current ?? stored);
+      }
+    });
+  }, []);
+
+  const refreshPlants = useCallback(async () => {
+    try {
+      setPlants(await dataClient.fetchPlants());
+    } catch (error) {
+      console.warn('Could not load plant list:', error);
+    }
+  }, []);
+
+  // The server URL is only known once the data client connects, so refresh on every (re)connect
+  useEffect(() => {
+    if (dataClient.getStatus() === 'connected') {
+      refreshPlants();
+    }
+    return dataClient.onStatusChange((status) => {
+      if (status === 'connected') {
+        refreshPlants();
+      }
+    });
+  }, [refreshPlants]);
+
+  const selectPlant = useCallback((plantId: string) => {
+    setSelectedPlantId(plantId);
+    AsyncStorage.setItem(SELECTED_PLANT_KEY, plantId).catch(() => {});
+  }, []);
+
+  // Fall back to the first plant if the stored one was deleted on the server
+  const selectedPlant = plants.find((plant) => plant.id === selectedPlantId) ?? plants[0] ?? null;
+
+  return {
+    plants,
+    selectedPlant,
+    selectedPlantId: selectedPlant?.id ?? selectedPlantId,
+    selectPlant,
+    refreshPlants,
+  };
+}
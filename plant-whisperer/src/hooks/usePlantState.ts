@@ -1,10 +1,11 @@
 /**
  * Hook for managing plant state
  * Wires WebSocket, computes scores, and derives mood/emotion
+ * Follows the given plant (see usePlantSelection), or every reading if none is given
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { Platform } from 'react-native';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AppState, Platform } from 'react-native';
 import Constants from 'expo-constants';
 import {
   PlantState,
@@ -16,8 +17,18 @@ import {
   EmotionState,
   PlantMood,
   PlantCurrentState,
+  PlantInfo,
+  SensorFault,
+  PlantProfile,
+  PlantProgress,
+  PlantLifecycle,
+  BioAnalysis,
+  BioBatch,
+  BioEvent,
+  BioSignalState,
+  ReadingSource,
 } from '../types/plant';
-import { dataClient, ConnectionStatus } from '../services/dataClient';
+import { dataClient, ConnectionStatus, SensorUpdateCallback, TransportKind } from '../services/dataClient';
 import {
   computeHydrationScore,
   computeComfortScore,
@@ -28,7 +39,18 @@ import {
   getEmotionMessage,
   setMq2Baseline,
   computePlantCurrentState,
+  getLifecycleMessage,
+  PlantStateClassifier,
 } from '../services/plantModel';
+import { SensorFaultDetector, createFault, hasFault } from '../services/sensorFaults';
+import { BioSignalProcessor } from '../services/bioSignal';
+import { DEFAULT_PLANT_PROFILE, loadPlantProfile } from '../services/plantProfile';
+import { historyStore } from '../services/historyStore';
+import { reminderScheduler } from '../services/reminderScheduler';
+import { serverDiscovery } from '../services/serverDiscovery';
+import { WateringForecast, loadWateringForecast } from '../services/wateringForecast';
+import { ProgressUpdate, progressTracker } from '../services/progressTracker';
+import { lifecycleStore } from '../services/lifecycleStore';
 import { SensorState } from '../types/plant';
 
 interface UsePlantStateReturn {
@@ -39,21 +61,33 @@ interface UsePlantStateReturn {
   mood: PlantMood;
   emotion: EmotionState;
   currentState: PlantCurrentState | null;
+  sensorFaults: SensorFault[]; // Sensors whose readings can't be trusted (scores are null for them)
+  profile: PlantProfile; // Thresholds of the identified species
   eventLog: PlantEvent[];
-  pendingReminder: Reminder | null;
+  pendingReminder: Reminder | null; // Most pressing of the due reminders
+  reminders: Reminder[]; // Due care reminders, urgent ones first
+  wateringForecast: WateringForecast | null; // When the soil should turn thirsty/dry; null until enough history
+  progress: PlantProgress | null; // XP, streak and achievements (see progressTracker)
+  lifecycle: PlantLifecycle | null; // Growth stage, wilting/dormant and revival (see advanceLifecycle)
+  bioSignal: BioAnalysis | null; // Baseline, band power and wind state from the BioAmp (see bioSignal)
   simulationMode: boolean;
   connectionStatus: ConnectionStatus;
+  reconnectAt: number | null; // When the next reconnect attempt fires (ms since epoch)
+  transport: TransportKind | null; // WebSocket, SSE or polling fallback in use
   
   // Actions
   setSimulationMode: (enabled: boolean) => void;
   setSimulatedVitals: (vitals: Partial<SensorState>) => void;
+  completeReminder: (reminderId: string) => Promise<void>;
+  snoozeReminder: (reminderId: string) => Promise<void>;
+  skipReminder: (reminderId: string) => Promise<void>;
   
   // Plant info
   id: string;
   name: string;
   species?: string;
   status: ConnectionStatus;
-  level?: number;
+  level: number;
 }
 
 // Default initial state
@@ -82,7 +116,71 @@ const DEFAULT_RAW_VITALS: PlantVitalsRaw = {
   timestamp: new Date(),
 };
 
-export function usePlantState(): UsePlantStateReturn {
+/**
+ * Display vitals from scores; an unknown score keeps its previous value
+ * Health is the average of hydration, comfort and air quality
+ */
+function vitalsFromScores(scores: PlantScores, prev: PlantVitals): PlantVitals {
+  const known = [scores.hydrationScore, scores.comfortScore, scores.airQualityScore].filter(
+    (score): score is number => score !== null
+  );
+  return {
+    health: known.length > 0 ? Math.round(known.reduce((sum, score) => sum + score, 0) / known.length) : prev.health,
+    water: scores.hydrationScore ?? prev.water,
+    sunlight: scores.comfortScore ?? prev.sunlight,
+    soil: scores.hydrationScore ?? prev.soil, // Using hydration for soil bar (they're the same metric)
+  };
+}
+
+// Due reminders are re-checked this often (they also refresh whenever one changes)
+const REMINDER_REFRESH_MS = 60 * 1000;
+// The forecast works on hourly history, so refitting more often changes little
+const FORECAST_REFRESH_MS = 15 * 60 * 1000;
+// Failed connection attempts in a row before browsing for the server again
+const REDISCOVER_AFTER_FAILURES = 3;
+
+// Event logged when a reminder is marked done
+const REMINDER_DONE_EVENTS: Record<Reminder['type'], { type: PlantEvent['type']; message: string }> = {
+  water: { type: 'watered', message: 'Watered 💧' },
+  check: { type: 'checked', message: 'Checked on the plant' },
+  fertilize: { type: 'checked', message: 'Fertilized 🌱' },
+};
+
+// Event log entries for what the BioAmp picked up
+const BIO_EVENT_MESSAGES: Record<BioEvent['kind'], string> = {
+  wind: 'A breeze is rustling my leaves 🍃',
+  touch: 'Someone touched my leaf 👋',
+};
+
+function createEvent(type: PlantEvent['type'], message: string): PlantEvent {
+  return {
+    id: `event-${Date.now()}-${Math.random()}`,
+    type,
+    message,
+    timestamp: new Date(),
+  };
+}
+
+// Event log entries for levels reached and achievements unlocked
+function progressEvents(update: ProgressUpdate): PlantEvent[] {
+  return [
+    ...update.levelUps.map((level) => createEvent('level-up', `Level up! Your plant reached level ${level} 🎉`)),
+    ...update.unlocked.map((achievement) =>
+      createEvent('level-up', `Achievement unlocked: ${achievement.icon} ${achievement.title}`)
+    ),
+  ].reverse();
+}
+
+// Shown until the server's plant registry has loaded
+const DEFAULT_PLANT = {
+  id: 'plant-1',
+  name: 'My Plant',
+  species: 'Philodendron Birkin',
+};
+
+export function usePlantState(plant?: PlantInfo | null): UsePlantStateReturn {
+  const plantId = plant?.id ?? null;
+
   // Raw sensor data
   const [rawVitals, setRawVitals] = useState<PlantVitalsRaw>(DEFAULT_RAW_VITALS);
   
@@ -91,24 +189,46 @@ export function usePlantState(): UsePlantStateReturn {
   const [mood, setMood] = useState<PlantMood>('ok');
   const [emotion, setEmotion] = useState<EmotionState>('I_AM_OKAY');
   const [currentState, setCurrentState] = useState<PlantCurrentState | null>(null);
+  const [sensorFaults, setSensorFaults] = useState<SensorFault[]>([]);
+  const [profile, setProfile] = useState<PlantProfile>(DEFAULT_PLANT_PROFILE);
+  const [profileLoaded, setProfileLoaded] = useState(false);
   const [vitals, setVitals] = useState<PlantVitals>(DEFAULT_VITALS);
   
   // UI state
   const [eventLog, setEventLog] = useState<PlantEvent[]>([]);
-  const [pendingReminder, setPendingReminder] = useState<Reminder | null>(null);
+  const [dueReminders, setDueReminders] = useState<Reminder[]>([]);
+  const [wateringForecast, setWateringForecast] = useState<WateringForecast | null>(null);
+  const [progress, setProgress] = useState<PlantProgress | null>(null);
+  const [lifecycle, setLifecycle] = useState<PlantLifecycle | null>(null);
+  const [bioSignal, setBioSignal] = useState<BioAnalysis | null>(null);
+  const [soilCritical, setSoilCritical] = useState(false);
   const [simulationMode, setSimulationModeState] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
+  const [reconnectAt, setReconnectAt] = useState<number | null>(null);
+  const [transport, setTransport] = useState<TransportKind | null>(null);
   
   // Refs to track previous values for change detection
   const prevEmotionRef = useRef<EmotionState>('I_AM_OKAY');
   const prevScoresRef = useRef<PlantScores | null>(null);
+  const stateClassifierRef = useRef(new PlantStateClassifier());
+  // One per plant (keyed by the reading's plant), so readings from several plants don't mix
+  const faultDetectorsRef = useRef(new Map<string, SensorFaultDetector>());
+  const bioProcessorsRef = useRef(new Map<string, BioSignalProcessor>());
+  const profileRef = useRef<PlantProfile>(DEFAULT_PLANT_PROFILE);
+  const plantIdRef = useRef<string | null>(plantId);
   
   // Compute scores from raw vitals (defined first so it can be used in initialization)
-  const computeScores = useCallback((raw: PlantVitalsRaw): PlantScores => {
-    const hydrationScore = computeHydrationScore(raw.soilMoisture, raw.raindrop);
-    const comfortScore = computeComfortScore(raw.temperature, raw.humidity);
-    const airQualityScore = computeAirQualityScore(raw.mq2);
-    const bioSignalScore = computeBioSignalScore(raw.bio);
+  // A score is null (unknown) when a sensor it depends on is faulty
+  const computeScores = useCallback((raw: PlantVitalsRaw, faults: SensorFault[] = []): PlantScores => {
+    const profile = profileRef.current;
+    const hydrationScore = hasFault(faults, 'soil')
+      ? null
+      : computeHydrationScore(raw.soilMoisture, raw.raindrop, profile);
+    const comfortScore = hasFault(faults, 'temp', 'hum')
+      ? null
+      : computeComfortScore(raw.temperature, raw.humidity, profile);
+    const airQualityScore = hasFault(faults, 'mq2') ? null : computeAirQualityScore(raw.mq2);
+    const bioSignalScore = hasFault(faults, 'bio') ? null : computeBioSignalScore(raw.bio);
 
     return {
       hydrationScore,
@@ -135,20 +255,22 @@ export function usePlantState(): UsePlantStateReturn {
     prevScoresRef.current = initialScores;
     
     // Set initial vitals for display
-    setVitals({
-      health: Math.round((initialScores.hydrationScore + initialScores.comfortScore + initialScores.airQualityScore) / 3),
-      water: initialScores.hydrationScore,
-      sunlight: initialScores.comfortScore,
-      soil: initialScores.hydrationScore,
-    });
+    setVitals((prev) => vitalsFromScores(initialScores, prev));
   }, [computeScores]);
 
   // Update computed state from raw vitals
-  const updateStateFromRawVitals = useCallback((raw: PlantVitalsRaw) => {
-    const newScores = computeScores(raw);
+  // fromSensors: a reading from the plant's own sensors (not sliders, sim or mock), the only kind that counts as care
+  const updateStateFromRawVitals = useCallback((
+    raw: PlantVitalsRaw,
+    faults: SensorFault[] = [],
+    bioState?: BioSignalState,
+    fromSensors: boolean = false
+  ) => {
+    const newScores = computeScores(raw, faults);
     const newMood = deriveMood(newScores);
-    const newEmotion = deriveEmotionState(newScores, raw);
-    const newCurrentState = computePlantCurrentState(raw);
+    // Committed states only, so a reading sitting on a threshold doesn't flood the event log
+    const newCurrentState = stateClassifierRef.current.update(raw, faults, profileRef.current, Date.now(), bioState, newScores);
+    const newEmotion = deriveEmotionState(newScores, raw, faults, profileRef.current, newCurrentState);
 
     setScores(newScores);
     setMood(newMood);
@@ -156,55 +278,211 @@ export function usePlantState(): UsePlantStateReturn {
     setCurrentState(newCurrentState);
 
     // Update vitals for display (convert scores to 0-100 scale)
-    // Health is average of hydration, comfort, and air quality
-    setVitals({
-      health: Math.round((newScores.hydrationScore + newScores.comfortScore + newScores.airQualityScore) / 3),
-      water: newScores.hydrationScore,
-      sunlight: newScores.comfortScore,
-      soil: newScores.hydrationScore, // Using hydration for soil bar (they're the same metric)
-    });
+    setVitals((prev) => vitalsFromScores(newScores, prev));
 
     // Check for emotion changes and add to event log
     if (newEmotion !== prevEmotionRef.current) {
-      const message = getEmotionMessage(newEmotion);
-      const event: PlantEvent = {
-        id: `event-${Date.now()}-${Math.random()}`,
-        type: newEmotion === 'I_AM_BEING_WATERED' ? 'watered' : 'warning',
-        message,
-        timestamp: new Date(),
-      };
+      const message = getEmotionMessage(newEmotion, faults);
+      const event = createEvent(
+        newEmotion === 'I_AM_BEING_WATERED' ? 'watered' : newEmotion === 'CHECK_MY_CONNECTION' ? 'error' : 'warning',
+        message
+      );
 
       setEventLog((prev) => [event, ...prev].slice(0, 20)); // Keep last 20 events
       prevEmotionRef.current = newEmotion;
+
+      // The rain sensor saw a watering: that's the watering reminder done, the next one starts from now
+      if (newEmotion === 'I_AM_BEING_WATERED' && fromSensors) {
+        const wateredPlantId = plantIdRef.current;
+        reminderScheduler.recordWatering(wateredPlantId).then(async (watering) => {
+          if (!watering) return;
+          const { schedule, onTime } = watering;
+          const done = createEvent('watered', `Watering noticed, next reminder in ${schedule.intervalDays} days`);
+          setEventLog((prev) => [done, ...prev].slice(0, 20));
+          const update = await progressTracker.recordCare(wateredPlantId, 'water', onTime);
+          setEventLog((prev) => [...progressEvents(update), ...prev].slice(0, 20));
+        });
+      }
     }
 
-    // Update reminder based on scores
-    if (newScores.hydrationScore < 30) {
-      setPendingReminder({
-        id: 'reminder-water',
-        type: 'water',
-        message: 'Time to water your plant!',
-        dueDate: new Date(Date.now() + 2 * 60 * 60 * 1000),
-        isUrgent: newScores.hydrationScore < 10,
-      });
-    } else if (
-      newScores.hydrationScore >= 60 &&
-      newScores.comfortScore >= 60 &&
-      newScores.airQualityScore >= 50 &&
-      newScores.bioSignalScore >= 30
-    ) {
-      setPendingReminder(null);
+    // Dry soil brings the watering reminder forward (left alone while the soil sensor is faulty)
+    const { hydrationScore } = newScores;
+    if (hydrationScore !== null && hydrationScore < 30) {
+      reminderScheduler.bringWateringForward(plantIdRef.current);
     }
+    setSoilCritical(hydrationScore !== null && hydrationScore < 10);
 
     prevScoresRef.current = newScores;
   }, [computeScores]);
 
+  // Load the plant's identified species thresholds (saved by the result screen)
+  useEffect(() => {
+    let cancelled = false;
+    setProfileLoaded(false);
+    loadPlantProfile(plantId).then((loaded) => {
+      if (cancelled) return;
+      profileRef.current = loaded;
+      setProfile(loaded);
+      setProfileLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [plantId]);
+
+  // Re-score the current reading once the profile has loaded
+  useEffect(() => {
+    if (profile === DEFAULT_PLANT_PROFILE) return;
+    updateStateFromRawVitals(rawVitals, sensorFaults);
+    // Only re-run when the profile changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile]);
+
+  // Follow the selected plant; its latest reading arrives right after subscribing
+  useEffect(() => {
+    dataClient.subscribe(plantId);
+    plantIdRef.current = plantId;
+    // Events, reminders and sensor history belong to the previous plant
+    setEventLog([]);
+    setDueReminders([]);
+    setWateringForecast(null);
+    setProgress(null);
+    setLifecycle(null);
+    setBioSignal(null);
+    faultDetectorsRef.current.clear();
+    stateClassifierRef.current.reset();
+    setSensorFaults([]);
+  }, [plantId]);
+
+  const refreshReminders = useCallback(async () => {
+    setDueReminders(await reminderScheduler.getDue(plantIdRef.current));
+  }, []);
+
+  // Fit the drying rate to the plant's history; the forecast sets when the watering reminder is due
+  const refreshForecast = useCallback(async () => {
+    const forecastPlantId = plantIdRef.current;
+    const forecast = await loadWateringForecast(forecastPlantId, profileRef.current);
+    if (forecastPlantId !== plantIdRef.current) return;
+    setWateringForecast(forecast);
+    if (forecast) {
+      await reminderScheduler.setWateringDue(forecastPlantId, forecast.thirsty.at);
+    }
+  }, []);
+
+  // Set up the plant's reminders once its watering interval is known, then keep the due list fresh
+  useEffect(() => {
+    if (!profileLoaded) return;
+    let cancelled = false;
+    reminderScheduler.sync(plantId, profile.wateringIntervalDays).then(() => {
+      if (cancelled) return;
+      refreshReminders();
+      refreshForecast();
+    });
+    const interval = setInterval(refreshReminders, REMINDER_REFRESH_MS);
+    const forecastInterval = setInterval(refreshForecast, FORECAST_REFRESH_MS);
+    const unsubscribe = reminderScheduler.onChange(() => refreshReminders());
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      clearInterval(forecastInterval);
+      unsubscribe();
+    };
+  }, [plantId, profileLoaded, profile, refreshReminders, refreshForecast]);
+
+  // Very dry soil makes the watering reminder urgent whatever its date
+  const reminders = useMemo(
+    () =>
+      dueReminders
+        .map((reminder) => (reminder.type === 'water' && soilCritical ? { ...reminder, isUrgent: true } : reminder))
+        .sort((a, b) => Number(!!b.isUrgent) - Number(!!a.isUrgent)),
+    [dueReminders, soilCritical]
+  );
+
+  const completeReminder = useCallback(async (reminderId: string) => {
+    const completedPlantId = plantIdRef.current;
+    // On time unless it was already overdue
+    const due = await reminderScheduler.getDue(completedPlantId);
+    const onTime = !due.find((reminder) => reminder.id === reminderId)?.isUrgent;
+    const schedule = await reminderScheduler.complete(completedPlantId, reminderId);
+    if (schedule) {
+      const { type, message } = REMINDER_DONE_EVENTS[schedule.type];
+      setEventLog((prev) => [createEvent(type, message), ...prev].slice(0, 20));
+      const update = await progressTracker.recordCare(completedPlantId, schedule.type, onTime);
+      setEventLog((prev) => [...progressEvents(update), ...prev].slice(0, 20));
+    }
+  }, []);
+
+  const snoozeReminder = useCallback(async (reminderId: string) => {
+    await reminderScheduler.snooze(plantIdRef.current, reminderId);
+  }, []);
+
+  const skipReminder = useCallback(async (reminderId: string) => {
+    await reminderScheduler.skip(plantIdRef.current, reminderId);
+  }, []);
+
+  // The plant's game progress; updated as readings and care come in
+  useEffect(() => {
+    let cancelled = false;
+    progressTracker.get(plantId).then((loaded) => {
+      if (!cancelled) setProgress(loaded);
+    });
+    const unsubscribe = progressTracker.onChange((changedPlantId, changed) => {
+      if (changedPlantId === plantId) setProgress(changed);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [plantId]);
+
+  // The plant's life stage; advanced by every live reading
+  useEffect(() => {
+    let cancelled = false;
+    lifecycleStore.get(plantId).then((loaded) => {
+      if (!cancelled) setLifecycle(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [plantId]);
+
+  // Save recorded history, progress and lifecycle before the app may be killed in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        historyStore.flush();
+        progressTracker.flush();
+        lifecycleStore.flush();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Server-side alerts (rule engine) go into the event log
+  useEffect(() => {
+    return dataClient.onAlert((event, alert) => {
+      if (event !== 'fired') return;
+      const plantEvent: PlantEvent = {
+        id: alert.id,
+        type: alert.severity === 'critical' ? 'error' : 'warning',
+        message: alert.message,
+        timestamp: new Date(alert.firedAt),
+      };
+      setEventLog((prev) => [plantEvent, ...prev].slice(0, 20)); // Keep last 20 events
+    });
+  }, []);
+
   // Handle sensor data from WebSocket - use ref to avoid dependency issues
-  const handleSensorUpdateRef = useRef<((sensorState: SensorState) => void) | undefined>(undefined);
+  const handleSensorUpdateRef = useRef<SensorUpdateCallback | undefined>(undefined);
 
   // Update the ref when updateStateFromRawVitals changes
   useEffect(() => {
-    handleSensorUpdateRef.current = (sensorState: SensorState) => {
+    handleSensorUpdateRef.current = (
+      sensorState: SensorState,
+      readingPlantId: string | null,
+      bioBatch: BioBatch | undefined,
+      source: ReadingSource
+    ) => {
       const raw: PlantVitalsRaw = {
         soilMoisture: sensorState.soil,
         temperature: sensorState.temp,
@@ -215,14 +493,65 @@ export function usePlantState(): UsePlantStateReturn {
         timestamp: new Date(),
       };
 
+      // Readings from servers without plant support belong to the selected plant
+      const recordedPlantId = readingPlantId ?? plantIdRef.current;
+      const plantKey = recordedPlantId ?? 'all';
+      let bioProcessor = bioProcessorsRef.current.get(plantKey);
+      if (!bioProcessor) {
+        bioProcessor = new BioSignalProcessor();
+        bioProcessorsRef.current.set(plantKey, bioProcessor);
+      }
+      const bioAnalysis = bioProcessor.processReading(bioBatch, sensorState.bio);
+
+      // Fault detection only applies to live readings, not simulated sliders
+      let faultDetector = faultDetectorsRef.current.get(plantKey);
+      if (!faultDetector) {
+        faultDetector = new SensorFaultDetector();
+        faultDetectorsRef.current.set(plantKey, faultDetector);
+      }
+      let faults = faultDetector.check(sensorState);
+      if (bioAnalysis.detached && !hasFault(faults, 'bio')) {
+        faults = [...faults, createFault('bio', 'detached', sensorState.bio)];
+      }
+      setSensorFaults(faults);
       setRawVitals(raw);
-      updateStateFromRawVitals(raw);
+      setBioSignal(bioAnalysis);
+      // Simulated, mock and replayed readings don't earn progress or go into the plant's history
+      const fromSensors = source === 'real';
+      updateStateFromRawVitals(raw, faults, bioAnalysis.state, fromSensors);
+      if (bioAnalysis.events.length > 0) {
+        const events = bioAnalysis.events.map((event) => createEvent('bio', BIO_EVENT_MESSAGES[event.kind]));
+        setEventLog((prev) => [...events, ...prev].slice(0, 20));
+      }
+      if (!fromSensors) return;
+      // Kept on the device so the history screen works while the server is down
+      historyStore.record(recordedPlantId, sensorState, faults);
+      lifecycleStore.record(recordedPlantId, sensorState, faults, profileRef.current).then(({ lifecycle, previousStage }) => {
+        if (recordedPlantId !== plantIdRef.current) return;
+        setLifecycle(lifecycle);
+        if (previousStage) {
+          const type = lifecycle.stage === 'wilting' || lifecycle.stage === 'dormant' ? 'warning' : 'level-up';
+          const event = createEvent(type, getLifecycleMessage(lifecycle.stage, previousStage));
+          setEventLog((prev) => [event, ...prev].slice(0, 20));
+        }
+      });
+      progressTracker.record(recordedPlantId, sensorState, faults, profileRef.current).then((update) => {
+        const events = progressEvents(update);
+        if (events.length > 0) {
+          setEventLog((prev) => [...events, ...prev].slice(0, 20));
+        }
+      });
     };
   }, [updateStateFromRawVitals]);
 
   // Stable callback that uses the ref
-  const handleSensorUpdate = useCallback((sensorState: SensorState) => {
-    handleSensorUpdateRef.current?.(sensorState);
+  const handleSensorUpdate = useCallback((
+    sensorState: SensorState,
+    readingPlantId: string | null,
+    bioBatch: BioBatch | undefined,
+    source: ReadingSource
+  ) => {
+    handleSensorUpdateRef.current?.(sensorState, readingPlantId, bioBatch, source);
   }, []);
 
   // WebSocket connection - only depend on simulationMode
@@ -235,10 +564,11 @@ export function usePlantState(): UsePlantStateReturn {
 
     // Determine WebSocket URL
     // Priority:
-    // 1. ADB port forwarding (localhost) - if using USB + ADB reverse
-    // 2. Development machine IP from Expo - for WiFi connection
-    // 3. Emulator address (10.0.2.2) - for Android emulator
-    // 4. Localhost - for iOS simulator/web
+    // 1. Explicit override (app.json extra / EXPO_PUBLIC_WS_URL)
+    // 2. Server paired earlier, or found over mDNS (see serverDiscovery)
+    // 3. Development machine IP from Expo - for WiFi connection
+    // 4. Emulator address (10.0.2.2) - for Android emulator
+    // 5. Localhost - for iOS simulator/web
     let wsUrl = 'ws://localhost:4000/ws';
     // Allow explicit override via env or app.json extra
     let overrideActive = false;
@@ -286,16 +616,82 @@ export function usePlantState(): UsePlantStateReturn {
       }
     }
 
-    dataClient.init(wsUrl);
-    dataClient.connect(handleSensorUpdate);
+    let cancelled = false;
+    let connectedUrl: string | null = null;
+    // Failed attempts in a row; after REDISCOVER_AFTER_FAILURES the saved address may be stale
+    let failures = 0;
+    let rediscovering = false;
 
     // Subscribe to status changes
-    const unsubscribe = dataClient.onStatusChange((status) => {
+    const unsubscribe = dataClient.onStatusChange((status, retryAt, activeTransport) => {
       setConnectionStatus(status);
+      setReconnectAt(retryAt);
+      setTransport(activeTransport);
+
+      if (status === 'connected') {
+        failures = 0;
+      } else if (status === 'error' && !overrideActive && ++failures >= REDISCOVER_AFTER_FAILURES && !rediscovering) {
+        // Look for the server again (it may have a new address); the server listener below moves to it
+        failures = 0;
+        rediscovering = true;
+        serverDiscovery
+          .rediscover()
+          .catch(() => false)
+          .finally(() => {
+            rediscovering = false;
+          });
+      }
+    });
+
+    const connectTo = (url: string) => {
+      connectedUrl = url;
+      dataClient.disconnect();
+      dataClient.init(url);
+      dataClient.connect(handleSensorUpdate);
+    };
+
+    if (overrideActive) {
+      connectTo(wsUrl);
+    } else {
+      serverDiscovery
+        .resolveServerUrl()
+        .catch(() => null)
+        .then((serverUrl) => {
+          if (!cancelled) {
+            connectTo(serverUrl ?? wsUrl);
+          }
+        });
+    }
+
+    // Move to a server picked on the pair screen (or found again by rediscovery);
+    // when it's forgotten, look for one again like on first launch
+    const unsubscribeServer = serverDiscovery.onServerChange((server) => {
+      if (overrideActive || connectedUrl === null) {
+        return;
+      }
+      if (server) {
+        if (server.url !== connectedUrl) {
+          console.log(`🔗 Switching to sensor server "${server.name}":`, server.url);
+          connectTo(server.url);
+        }
+        return;
+      }
+      serverDiscovery
+        .resolveServerUrl()
+        .catch(() => null)
+        .then((serverUrl) => {
+          // A server found while resolving has already been switched to by this listener
+          const url = serverUrl ?? wsUrl;
+          if (!cancelled && url !== connectedUrl) {
+            connectTo(url);
+          }
+        });
     });
 
     return () => {
+      cancelled = true;
       unsubscribe();
+      unsubscribeServer();
       dataClient.disconnect();
     };
     // Only re-run if simulationMode changes
@@ -308,6 +704,8 @@ export function usePlantState(): UsePlantStateReturn {
     if (enabled) {
       dataClient.disconnect();
       setConnectionStatus('idle');
+      setReconnectAt(null);
+      setTransport(null);
     }
   }, []);
 
@@ -326,6 +724,7 @@ export function usePlantState(): UsePlantStateReturn {
       timestamp: new Date(),
     };
 
+    setSensorFaults([]);
     setRawVitals(updated);
     updateStateFromRawVitals(updated);
   }, [simulationMode, rawVitals, updateStateFromRawVitals]);
@@ -342,17 +741,29 @@ export function usePlantState(): UsePlantStateReturn {
     mood,
     emotion,
     currentState,
+    sensorFaults,
+    profile,
     eventLog,
-    pendingReminder,
+    pendingReminder: reminders[0] ?? null,
+    reminders,
+    wateringForecast,
+    progress,
+    lifecycle,
+    bioSignal,
     simulationMode,
     connectionStatus,
+    reconnectAt,
+    transport,
     setSimulationMode,
     setSimulatedVitals,
-    id: 'plant-1',
-    name: 'My Plant',
-    species: 'Philodendron Birkin',
+    completeReminder,
+    snoozeReminder,
+    skipReminder,
+    id: plant?.id ?? DEFAULT_PLANT.id,
+    name: plant?.name ?? DEFAULT_PLANT.name,
+    species: plant ? plant.species : DEFAULT_PLANT.species,
     status: getPlantStatus(),
-    level: 1,
+    level: progress?.level ?? 1,
   };
 }
 
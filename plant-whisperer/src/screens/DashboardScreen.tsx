@@ -2,6 +2,14 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, StyleSheet, useWindowDimensions, Text, TouchableOpacity, Animated, ImageSourcePropType, Modal, Pressable } from 'react-native';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { usePlantSelection } from '@/src/hooks/usePlantSelection';
+import { PlantSwitcher } from '@/src/components/PlantSwitcher';
+import { ReminderBanner } from '@/src/components/ReminderBanner';
+import { ConnectionStatusPill } from '@/src/components/ConnectionStatusPill';
+import { formatWateringForecast } from '@/src/services/wateringForecast';
+import { LifecycleStage } from '@/src/types/plant';
+import { AnimationSelection, PlantAnimation, selectAnimation } from '@/src/services/animationRules';
 // Lazy require to avoid type resolution issues during linting if package isn't installed yet
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const MaskedView = require('@react-native-masked-view/masked-view').default;
@@ -12,11 +20,7 @@ import { usePlantState } from '@/src/hooks/usePlantState';
 import { HealthBars } from '@/src/components/HealthBars';
 import { spacing, colors, typography } from '@/src/theme';
 import {
-  isSoilOptimal,
-  isTempOptimal,
-  isHumOptimal,
-  isMq2Optimal,
-  computeBioSignalState,
+  getReviveProgress,
 } from '@/src/services/plantModel';
 
 const COLD_ANIMATION = require('../../assets/images/cold.gif');
@@ -30,16 +34,66 @@ const THIRSTY_ANIMATION = require('../../assets/images/thirsty.gif');
 const WATERING_ANIMATION = require('../../assets/images/watering.gif');
 const WINDY_ANIMATION = require('../../assets/images/windy.gif');
 
+// GIF for each animation the rule table (services/animationRules.ts) can pick
+const ANIMATION_ASSETS: Record<PlantAnimation, ImageSourcePropType> = {
+  full_dead: FULL_DEAD_ANIMATION,
+  dizzy: DIZZY_ANIMATION,
+  air_bad: AIR_BAD_ANIMATION,
+  hot: HOT_ANIMATION,
+  dry: DRY_ANIMATION,
+  thirsty: THIRSTY_ANIMATION,
+  cold: COLD_ANIMATION,
+  peak: PEAK_ANIMATION,
+  windy: WINDY_ANIMATION,
+};
+
+// Look of each life stage: growing stages draw the plant smaller (scaled from the pot), wilting and
+// dormant replace the condition animation and fade the plant; blooming idles in its peak animation
+const STAGE_VISUALS: Record<LifecycleStage, {
+  label: string;
+  icon: string;
+  scale: number | null; // null keeps the growth stage's size
+  opacity: number;
+  animation: ImageSourcePropType | null; // shown instead of the condition animation
+  idleAnimation: ImageSourcePropType | null; // shown when no condition animation applies
+}> = {
+  seedling: { label: 'Seedling', icon: '🌱', scale: 0.55, opacity: 1, animation: null, idleAnimation: null },
+  sprout: { label: 'Sprout', icon: '🌿', scale: 0.75, opacity: 1, animation: null, idleAnimation: null },
+  mature: { label: 'Mature', icon: '🪴', scale: 1, opacity: 1, animation: null, idleAnimation: null },
+  blooming: { label: 'Blooming', icon: '🌸', scale: 1, opacity: 1, animation: null, idleAnimation: PEAK_ANIMATION },
+  wilting: { label: 'Wilting', icon: '🥀', scale: null, opacity: 0.85, animation: DRY_ANIMATION, idleAnimation: null },
+  dormant: { label: 'Dormant', icon: '💤', scale: null, opacity: 0.5, animation: FULL_DEAD_ANIMATION, idleAnimation: null },
+};
+
 /**
  * DashboardScreen - Shows background image with blurred section below black line
  * Health bars are displayed on top of the blurred area
  */
 export default function DashboardScreen() {
-  const { scores, rawVitals } = usePlantState();
+  const router = useRouter();
+  const { plants, selectedPlant, selectPlant } = usePlantSelection();
+  const {
+    scores,
+    rawVitals,
+    sensorFaults,
+    profile,
+    reminders,
+    wateringForecast,
+    level,
+    lifecycle,
+    bioSignal,
+    completeReminder,
+    snoozeReminder,
+    skipReminder,
+    connectionStatus,
+    reconnectAt,
+    transport,
+  } = usePlantState(selectedPlant);
   const { height: windowHeight, width: windowWidth } = useWindowDimensions();
 
-  // Sensor status helpers for animation selection
   const { soilMoisture, temperature, humidity, mq2, bio } = rawVitals;
+  // A faulty rain sensor doesn't trigger the watering animation (the rule table skips other faulty sensors)
+  const rainOk = !sensorFaults.some((fault) => fault.sensor === 'rain');
   // Watering overlay control (limited runs + cooldown)
   const [overrideAnimation, setOverrideAnimation] = useState<ImageSourcePropType | null>(null);
   const [sensorDialogVisible, setSensorDialogVisible] = useState(false);
@@ -50,23 +104,16 @@ export default function DashboardScreen() {
   const WATERING_COOLDOWN_KEY = 'watering_cooldown_until';
   const WATERING_COOLDOWN_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-  const allSensorsOptimal = useMemo(() => {
-    return (
-      isSoilOptimal(soilMoisture) &&
-      isTempOptimal(temperature) &&
-      isHumOptimal(humidity) &&
-      isMq2Optimal(mq2)
-    );
-  }, [soilMoisture, temperature, humidity, mq2]);
-
-  const allSensorsNonOptimal = useMemo(() => {
-    return (
-      !isSoilOptimal(soilMoisture) &&
-      !isTempOptimal(temperature) &&
-      !isHumOptimal(humidity) &&
-      !isMq2Optimal(mq2)
-    );
-  }, [soilMoisture, temperature, humidity, mq2]);
+  const stage = lifecycle?.stage ?? 'mature';
+  const stageVisual = STAGE_VISUALS[stage];
+  const stageImageStyle = useMemo(
+    () => ({
+      opacity: stageVisual.opacity,
+      transform: [{ scale: stageVisual.scale ?? STAGE_VISUALS[lifecycle?.growthStage ?? 'mature'].scale ?? 1 }],
+      transformOrigin: '50% 75%',
+    }),
+    [stageVisual, lifecycle?.growthStage]
+  );
 
   // Load watering counters on mount
   useEffect(() => {
@@ -84,7 +131,7 @@ export default function DashboardScreen() {
 
   // Detect watering edge and show limited animation with cooldown
   useEffect(() => {
-    const isWateringActive = rawVitals.raindrop < 300;
+    const isWateringActive = rainOk && rawVitals.raindrop < 300;
     const prevActive = prevWateringActiveRef.current;
     prevWateringActiveRef.current = isWateringActive;
 
@@ -110,30 +157,39 @@ export default function DashboardScreen() {
       wateringPlaysRef.current = 0;
       AsyncStorage.setItem(WATERING_PLAYS_KEY, '0').catch(() => {});
     }
-  }, [rawVitals.raindrop]);
+  }, [rainOk, rawVitals.raindrop]);
+  // Condition animation from the rule table; re-evaluated on each reading and when a dwell time runs out
+  const [animationSelection, setAnimationSelection] = useState<AnimationSelection | null>(null);
+  const [dwellTick, setDwellTick] = useState(0);
+  useEffect(() => {
+    const inputs = {
+      reading: { soil: soilMoisture, temp: temperature, hum: humidity, mq2, rain: rawVitals.raindrop, bio },
+      bioState: bioSignal?.state ?? 'rest',
+      faults: sensorFaults,
+      profile,
+    };
+    setAnimationSelection((previous) => selectAnimation(inputs, previous));
+  }, [soilMoisture, temperature, humidity, mq2, rawVitals.raindrop, bio, bioSignal?.state, sensorFaults, profile, dwellTick]);
+
+  const heldUntil = animationSelection?.heldUntil ?? null;
+  useEffect(() => {
+    if (heldUntil === null) return;
+    const timeout = setTimeout(() => setDwellTick((tick) => tick + 1), Math.max(0, heldUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [heldUntil]);
+
   const animationSource = useMemo(() => {
-    const priorityList: Array<[boolean, ImageSourcePropType]> = [
-      [overrideAnimation != null, overrideAnimation as ImageSourcePropType],
-      [allSensorsNonOptimal, FULL_DEAD_ANIMATION],
-      [mq2 >= 350, DIZZY_ANIMATION],
-      [mq2 >= 200, AIR_BAD_ANIMATION],
-      [temperature > 27 || humidity > 80, HOT_ANIMATION],
-      [humidity < 35, DRY_ANIMATION],
-      [soilMoisture >= 900, DRY_ANIMATION],
-      [soilMoisture >= 700 && soilMoisture <= 899, THIRSTY_ANIMATION],
-      [temperature < 13, COLD_ANIMATION],
-      [allSensorsOptimal, PEAK_ANIMATION],
-      [computeBioSignalState(bio) === 'wind_trigger', WINDY_ANIMATION],
-    ];
-
-    for (const [condition, animation] of priorityList) {
-      if (condition) {
-        return animation;
-      }
+    if (overrideAnimation) {
+      return overrideAnimation;
     }
-
-    return null;
-  }, [overrideAnimation, allSensorsNonOptimal, mq2, temperature, humidity, soilMoisture, allSensorsOptimal, bio]);
+    if (stageVisual.animation) {
+      return stageVisual.animation;
+    }
+    if (animationSelection?.animation) {
+      return ANIMATION_ASSETS[animationSelection.animation];
+    }
+    return stageVisual.idleAnimation;
+  }, [overrideAnimation, stageVisual, animationSelection]);
 
   const [currentAnimation, setCurrentAnimation] = useState<ImageSourcePropType | null>(animationSource);
   const [incomingAnimation, setIncomingAnimation] = useState<ImageSourcePropType | null>(null);
@@ -200,10 +256,10 @@ export default function DashboardScreen() {
         return "Brrr... I'm freezing out!";
       }
       if (currentAnimation === DRY_ANIMATION) {
-        if (humidity < 35) {
+        if (humidity < profile.humidity.min) {
           return 'The air feels crackly dry.';
         }
-        if (soilMoisture >= 900) {
+        if (soilMoisture >= profile.soil.dry) {
           return 'My soil is parched... water?';
         }
         return "I'm drying out pretty fast.";
@@ -253,7 +309,7 @@ export default function DashboardScreen() {
         speechTimeoutRef.current = null;
       }
     };
-  }, [currentAnimation, humidity, soilMoisture]);
+  }, [currentAnimation, humidity, soilMoisture, profile]);
 
   useEffect(() => {
     if (!incomingAnimation || !incomingReady || isTransitioningRef.current) {
@@ -320,6 +376,46 @@ export default function DashboardScreen() {
         >
           <Text style={styles.sensorDialogButtonText}>Sensors</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={() => router.push('/history')}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.sensorDialogButtonText}>History</Text>
+        </TouchableOpacity>
+        <View style={styles.stagePill}>
+          <Text style={styles.sensorDialogButtonText}>
+            {stageVisual.icon} {stageVisual.label}
+            {lifecycle && (stage === 'wilting' || stage === 'dormant')
+              ? ` · reviving ${Math.round(getReviveProgress(lifecycle) * 100)}%`
+              : ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.profileButton}
+          onPress={() => router.push('/profile')}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.sensorDialogButtonText}>Lv {level} ★</Text>
+        </TouchableOpacity>
+        {/* Tap the pill to pick or pair a different server */}
+        <TouchableOpacity
+          style={styles.connectionPill}
+          onPress={() => router.push('/pair')}
+          activeOpacity={0.7}
+        >
+          <ConnectionStatusPill status={connectionStatus} retryAt={reconnectAt} transport={transport} />
+        </TouchableOpacity>
+        <View style={styles.forecastPill}>
+          <Text style={styles.sensorDialogButtonText}>💧 {formatWateringForecast(wateringForecast)}</Text>
+        </View>
+        <View style={styles.plantSwitcher}>
+          <PlantSwitcher
+            plants={plants}
+            selectedPlantId={selectedPlant?.id ?? null}
+            onSelect={selectPlant}
+          />
+        </View>
 
         {/* Background Image with crossfade */}
         <Image
@@ -353,7 +449,7 @@ export default function DashboardScreen() {
           >
             <Image
               source={currentAnimation}
-              style={StyleSheet.absoluteFill}
+              style={[StyleSheet.absoluteFill, stageImageStyle]}
               contentFit="cover"
             />
           </Animated.View>
@@ -383,7 +479,7 @@ export default function DashboardScreen() {
             <Animated.View style={[StyleSheet.absoluteFill, { opacity: incomingOpacity }]}>
               <Image
                 source={incomingAnimation}
-                style={StyleSheet.absoluteFill}
+                style={[StyleSheet.absoluteFill, stageImageStyle]}
                 contentFit="cover"
                 onLoad={() => setIncomingReady(true)}
                 onError={() => setIncomingReady(true)}
@@ -420,10 +516,20 @@ export default function DashboardScreen() {
           </Pressable>
         </Modal>
 
+        {/* Due care reminders */}
+        <View style={styles.reminderBanner}>
+          <ReminderBanner
+            reminders={reminders}
+            onComplete={completeReminder}
+            onSnooze={snoozeReminder}
+            onSkip={skipReminder}
+          />
+        </View>
+
         {/* Health bars & sensor icons */}
         {scores && (
           <View style={styles.healthBarsContainer}>
-            <HealthBars scores={scores} rawVitals={rawVitals} />
+            <HealthBars scores={scores} rawVitals={rawVitals} faults={sensorFaults} profile={profile} />
           </View>
         )}
       </View>
@@ -488,6 +594,67 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.25)',
   },
+  forecastPill: {
+    position: 'absolute',
+    top: spacing.md + 92,
+    left: spacing.md,
+    zIndex: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 34, 34, 0.75)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  reminderBanner: {
+    position: 'absolute',
+    top: spacing.md + 164,
+    left: spacing.md,
+    right: spacing.md,
+    zIndex: 20,
+  },
+  connectionPill: {
+    position: 'absolute',
+    top: spacing.md + 56,
+    left: spacing.md,
+    zIndex: 20,
+  },
+  historyButton: {
+    position: 'absolute',
+    top: spacing.md + 92,
+    right: spacing.md,
+    zIndex: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 34, 34, 0.75)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  stagePill: {
+    position: 'absolute',
+    top: spacing.md + 128,
+    left: spacing.md,
+    zIndex: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 34, 34, 0.75)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  profileButton: {
+    position: 'absolute',
+    top: spacing.md + 128,
+    right: spacing.md,
+    zIndex: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(34, 34, 34, 0.75)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+  },
   sensorDialogButtonText: {
     color: '#fff',
     fontFamily: 'monospace',
@@ -545,6 +712,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 14,
   },
+  plantSwitcher: {
+    position: 'absolute',
+    top: spacing.md + 6,
+    left: spacing.md + 48,
+    right: spacing.md,
+    zIndex: 20,
+  },
   dayToggleButton: {
     position: 'absolute',
     top: spacing.md,
@@ -0,0 +1,155 @@
+/**
+ * HistoryScreen - Per-sensor trend charts over 24 hours, 7 days or 30 days
+ * Reads the history recorded on this device, so it works while the server is down
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, useWindowDimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { usePlantSelection } from '@/src/hooks/usePlantSelection';
+import { PlantSwitcher } from '@/src/components/PlantSwitcher';
+import { HistoryChart } from '@/src/components/HistoryChart';
+import { historyStore, HistorySeries, HistoryWindow } from '@/src/services/historyStore';
+import { getOptimalBand } from '@/src/services/plantModel';
+import { DEFAULT_PLANT_PROFILE, loadPlantProfile } from '@/src/services/plantProfile';
+import { PlantProfile, SensorState } from '@/src/types/plant';
+import { spacing, colors, typography } from '@/src/theme';
+
+const WINDOWS: HistoryWindow[] = ['24h', '7d', '30d'];
+
+const CHARTS: { sensor: keyof SensorState; title: string; unit: string; color: string }[] = [
+  { sensor: 'soil', title: 'Soil Moisture (raw, higher is drier)', unit: '', color: colors.soil },
+  { sensor: 'temp', title: 'Temperature', unit: '°C', color: colors.accentDark },
+  { sensor: 'hum', title: 'Humidity', unit: '%', color: colors.water },
+  { sensor: 'mq2', title: 'Air Quality (MQ2)', unit: '', color: colors.neutralDark },
+  { sensor: 'rain', title: 'Raindrop', unit: '', color: colors.waterDark },
+  { sensor: 'bio', title: 'Bio Signal', unit: '', color: colors.primaryDark },
+];
+
+// Charts pick up new rollups while the screen is open
+const REFRESH_MS = 60 * 1000;
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const { width: windowWidth } = useWindowDimensions();
+  const { plants, selectedPlantId, selectPlant } = usePlantSelection();
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow>('24h');
+  const [series, setSeries] = useState<Partial<Record<keyof SensorState, HistorySeries>>>({});
+  const [profile, setProfile] = useState<PlantProfile>(DEFAULT_PLANT_PROFILE);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    loadPlantProfile(selectedPlantId).then(setProfile);
+  }, [selectedPlantId]);
+
+  const loadSeries = useCallback(async () => {
+    const at = Date.now();
+    const loaded = await Promise.all(
+      CHARTS.map(({ sensor }) => historyStore.getSeries(selectedPlantId, sensor, historyWindow, at))
+    );
+    setSeries(Object.fromEntries(CHARTS.map(({ sensor }, i) => [sensor, loaded[i]])));
+    setNow(at);
+  }, [selectedPlantId, historyWindow]);
+
+  useEffect(() => {
+    loadSeries();
+    const interval = setInterval(loadSeries, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadSeries]);
+
+  const chartWidth = windowWidth - spacing.lg * 2;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>History</Text>
+      </View>
+      <PlantSwitcher plants={plants} selectedPlantId={selectedPlantId} onSelect={selectPlant} />
+      <View style={styles.windowRow}>
+        {WINDOWS.map((option) => {
+          const selected = option === historyWindow;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.windowChip, selected && styles.windowChipSelected]}
+              onPress={() => setHistoryWindow(option)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.windowChipText, selected && styles.windowChipTextSelected]}>{option}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <ScrollView contentContainerStyle={styles.content}>
+        {CHARTS.map(({ sensor, title, unit, color }) => (
+          <HistoryChart
+            key={sensor}
+            title={title}
+            unit={unit}
+            series={series[sensor] ?? null}
+            band={getOptimalBand(sensor, profile)}
+            color={color}
+            width={chartWidth}
+            now={now}
+          />
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+  },
+  backButtonText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+  title: {
+    ...typography.subtitle,
+    color: colors.textPrimary,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  windowChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.pixelBorder,
+  },
+  windowChipSelected: {
+    backgroundColor: colors.pixelBorder,
+  },
+  windowChipText: {
+    ...typography.label,
+    color: colors.textPrimary,
+  },
+  windowChipTextSelected: {
+    color: colors.textOnPrimary,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+});
@@ -0,0 +1,204 @@
+/**
+ * ProfileScreen - The plant's level, XP, care streak and badges
+ * Progress is earned on this device (see progressTracker), one record per plant
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { usePlantSelection } from '@/src/hooks/usePlantSelection';
+import { PlantSwitcher } from '@/src/components/PlantSwitcher';
+import { ACHIEVEMENTS, currentStreak, progressTracker, xpForLevel } from '@/src/services/progressTracker';
+import { PlantProgress } from '@/src/types/plant';
+import { spacing, colors, typography } from '@/src/theme';
+
+export default function ProfileScreen() {
+  const router = useRouter();
+  const { plants, selectedPlant, selectedPlantId, selectPlant } = usePlantSelection();
+  const [progress, setProgress] = useState<PlantProgress | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    progressTracker.get(selectedPlantId).then((loaded) => {
+      if (!cancelled) setProgress(loaded);
+    });
+    const unsubscribe = progressTracker.onChange((plantId, changed) => {
+      if (plantId === selectedPlantId) setProgress(changed);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [selectedPlantId]);
+
+  const level = progress?.level ?? 1;
+  const levelStart = xpForLevel(level);
+  const levelEnd = xpForLevel(level + 1);
+  const xp = progress?.xp ?? 0;
+  const levelFraction = Math.min(1, (xp - levelStart) / (levelEnd - levelStart));
+  const unlockedCount = ACHIEVEMENTS.filter((achievement) => progress?.achievements[achievement.id]).length;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{selectedPlant?.name ?? 'My Plant'}</Text>
+      </View>
+      <PlantSwitcher plants={plants} selectedPlantId={selectedPlantId} onSelect={selectPlant} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.level}>Level {level}</Text>
+          <View style={styles.xpTrack}>
+            <View style={[styles.xpFill, { width: `${Math.round(levelFraction * 100)}%` }]} />
+          </View>
+          <Text style={styles.caption}>
+            {xp - levelStart} / {levelEnd - levelStart} XP to level {level + 1}
+          </Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>🔥 {progress ? currentStreak(progress) : 0}</Text>
+            <Text style={styles.caption}>day streak</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{progress?.streak.best ?? 0}</Text>
+            <Text style={styles.caption}>best streak</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{progress?.healthyHours ?? 0}</Text>
+            <Text style={styles.caption}>healthy hours</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          Badges ({unlockedCount}/{ACHIEVEMENTS.length})
+        </Text>
+        <View style={styles.badgeGrid}>
+          {ACHIEVEMENTS.map((achievement) => {
+            const unlockedAt = progress?.achievements[achievement.id];
+            return (
+              <View key={achievement.id} style={[styles.badge, !unlockedAt && styles.badgeLocked]}>
+                <Text style={styles.badgeIcon}>{unlockedAt ? achievement.icon : '🔒'}</Text>
+                <Text style={styles.badgeTitle}>{achievement.title}</Text>
+                <Text style={styles.badgeDescription}>
+                  {unlockedAt ? new Date(unlockedAt).toLocaleDateString() : achievement.description}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+  },
+  backButtonText: {
+    ...typography.label,
+    color: colors.textSecondary,
+  },
+  title: {
+    ...typography.subtitle,
+    color: colors.textPrimary,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.md,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.pixelBorder,
+    gap: spacing.sm,
+  },
+  level: {
+    ...typography.title,
+    color: colors.textPrimary,
+  },
+  xpTrack: {
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.neutralLight,
+    overflow: 'hidden',
+  },
+  xpFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  caption: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  statValue: {
+    ...typography.subtitle,
+    color: colors.textPrimary,
+  },
+  sectionTitle: {
+    ...typography.bodyBold,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+  },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  badge: {
+    width: '31%',
+    alignItems: 'center',
+    padding: spacing.sm,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.accentLight,
+  },
+  badgeLocked: {
+    opacity: 0.5,
+    borderColor: colors.neutralLight,
+  },
+  badgeIcon: {
+    fontSize: 28,
+  },
+  badgeTitle: {
+    ...typography.label,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  badgeDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,216 @@
+/**
+ * Animation rules
+ * Picks the plant's condition animation from a reading with a declarative rule table, so the
+ * dashboard and the model agree on thresholds (they come from the PlantProfile and plantModel).
+ * - Rules are tried in table order; the first match wins
+ * - Thresholds have a hysteresis band: the rule being shown only lets go once the reading is
+ *   `band` back on the good side, so a value sitting on a boundary doesn't flicker
+ * - An animation stays up for at least its minimum dwell time, unless a rule from a higher
+ *   priority group (e.g. a gas hazard over a thirsty plant) takes over
+ * Pure functions with no React Native imports: the screen maps PlantAnimation to its GIFs.
+ */
+
+import { BioSignalState, PlantProfile, SensorFault, SensorState } from '../types/plant';
+import { MQ2_AIR_BAD, MQ2_POLLUTED, isFullyNonOptimal, isHumOptimal, isMq2Optimal, isSoilOptimal, isTempOptimal } from './plantModel';
+
+export type PlantAnimation =
+  | 'full_dead'
+  | 'dizzy'
+  | 'air_bad'
+  | 'hot'
+  | 'dry'
+  | 'thirsty'
+  | 'cold'
+  | 'peak'
+  | 'windy';
+
+// Highest priority first; a match in an earlier group cuts the current animation's dwell short
+export const ANIMATION_GROUPS = ['critical', 'air', 'climate', 'soil', 'mood'] as const;
+export type AnimationGroup = (typeof ANIMATION_GROUPS)[number];
+
+export interface AnimationInputs {
+  reading: SensorState;
+  bioState: BioSignalState;
+  faults: SensorFault[];
+  profile: PlantProfile;
+}
+
+type ThresholdSensor = 'soil' | 'temp' | 'hum' | 'mq2';
+
+export interface Threshold {
+  sensor: ThresholdSensor;
+  op: '>' | '>=' | '<' | '<=';
+  at: number | ((profile: PlantProfile) => number);
+  band: number; // how far back past `at` a showing rule holds on
+}
+
+export interface AnimationRule {
+  id: string;
+  animation: PlantAnimation;
+  group: AnimationGroup;
+  any?: Threshold[]; // matches when one of these passes
+  all?: Threshold[]; // matches when all of these pass
+  test?: (inputs: AnimationInputs) => boolean; // conditions that aren't a single threshold
+  minDwellMs?: number; // defaults to DEFAULT_MIN_DWELL_MS
+}
+
+export interface AnimationSelection {
+  ruleId: string | null;
+  animation: PlantAnimation | null;
+  since: number; // when this selection started showing
+  heldUntil: number | null; // set while another rule is waiting for the dwell time to run out
+}
+
+export const DEFAULT_MIN_DWELL_MS = 8 * 1000;
+
+// Hysteresis bands in each sensor's units
+const SOIL_BAND = 25;
+const TEMP_BAND = 1;
+const HUM_BAND = 3;
+const MQ2_BAND = 15;
+
+export const ANIMATION_RULES: AnimationRule[] = [
+  {
+    id: 'full-dead',
+    animation: 'full_dead',
+    group: 'critical',
+    test: ({ reading, faults, profile }) =>
+      isFullyNonOptimal(reading.soil, reading.temp, reading.hum, reading.mq2, faults, profile),
+  },
+  {
+    id: 'gas-hazard',
+    animation: 'dizzy',
+    group: 'air',
+    all: [{ sensor: 'mq2', op: '>', at: MQ2_POLLUTED, band: MQ2_BAND }],
+  },
+  {
+    id: 'air-bad',
+    animation: 'air_bad',
+    group: 'air',
+    all: [{ sensor: 'mq2', op: '>=', at: MQ2_AIR_BAD, band: MQ2_BAND }],
+  },
+  {
+    id: 'hot',
+    animation: 'hot',
+    group: 'climate',
+    any: [
+      { sensor: 'temp', op: '>', at: (profile) => profile.temp.max, band: TEMP_BAND },
+      { sensor: 'hum', op: '>', at: (profile) => profile.humidity.max, band: HUM_BAND },
+    ],
+  },
+  {
+    id: 'dry-air',
+    animation: 'dry',
+    group: 'climate',
+    all: [{ sensor: 'hum', op: '<', at: (profile) => profile.humidity.min, band: HUM_BAND }],
+  },
+  {
+    id: 'dry-soil',
+    animation: 'dry',
+    group: 'soil',
+    all: [{ sensor: 'soil', op: '>=', at: (profile) => profile.soil.dry, band: SOIL_BAND }],
+  },
+  {
+    id: 'thirsty',
+    animation: 'thirsty',
+    group: 'soil',
+    all: [{ sensor: 'soil', op: '>=', at: (profile) => profile.soil.thirsty, band: SOIL_BAND }],
+  },
+  {
+    id: 'cold',
+    animation: 'cold',
+    group: 'climate',
+    all: [{ sensor: 'temp', op: '<', at: (profile) => profile.temp.min, band: TEMP_BAND }],
+  },
+  {
+    id: 'peak',
+    animation: 'peak',
+    group: 'mood',
+    test: ({ reading, faults, profile }) =>
+      faults.length === 0 &&
+      isSoilOptimal(reading.soil, profile) &&
+      isTempOptimal(reading.temp, profile) &&
+      isHumOptimal(reading.hum, profile) &&
+      isMq2Optimal(reading.mq2),
+  },
+  {
+    id: 'windy',
+    animation: 'windy',
+    group: 'mood',
+    test: ({ bioState, faults }) => bioState === 'wind_trigger' && !faults.some((fault) => fault.sensor === 'bio'),
+    minDwellMs: 4 * 1000,
+  },
+];
+
+/**
+ * Whether a threshold passes; `holding` widens it by the band (the rule is already showing)
+ */
+export function passesThreshold(threshold: Threshold, inputs: AnimationInputs, holding: boolean): boolean {
+  if (inputs.faults.some((fault) => fault.sensor === threshold.sensor)) {
+    return false;
+  }
+  const value = inputs.reading[threshold.sensor];
+  const base = typeof threshold.at === 'function' ? threshold.at(inputs.profile) : threshold.at;
+  const band = holding ? threshold.band : 0;
+  switch (threshold.op) {
+    case '>':
+      return value > base - band;
+    case '>=':
+      return value >= base - band;
+    case '<':
+      return value < base + band;
+    case '<=':
+      return value <= base + band;
+  }
+}
+
+/**
+ * Whether a rule matches the inputs; `holding` applies its hysteresis bands
+ */
+export function matchesRule(rule: AnimationRule, inputs: AnimationInputs, holding: boolean = false): boolean {
+  if (rule.any && !rule.any.some((threshold) => passesThreshold(threshold, inputs, holding))) {
+    return false;
+  }
+  if (rule.all && !rule.all.every((threshold) => passesThreshold(threshold, inputs, holding))) {
+    return false;
+  }
+  if (rule.test && !rule.test(inputs)) {
+    return false;
+  }
+  return true;
+}
+
+function startSelection(rule: AnimationRule | null, now: number): AnimationSelection {
+  return { ruleId: rule?.id ?? null, animation: rule?.animation ?? null, since: now, heldUntil: null };
+}
+
+/**
+ * Next animation given the previous selection (null on first reading)
+ * Returns `previous` unchanged when nothing changes, so callers can compare by reference
+ */
+export function selectAnimation(
+  inputs: AnimationInputs,
+  previous: AnimationSelection | null,
+  now: number = Date.now(),
+  rules: AnimationRule[] = ANIMATION_RULES
+): AnimationSelection {
+  const candidate = rules.find((rule) => matchesRule(rule, inputs, rule.id === previous?.ruleId)) ?? null;
+  if (!previous) {
+    return startSelection(candidate, now);
+  }
+  if (candidate?.id === previous.ruleId) {
+    return previous.heldUntil === null ? previous : { ...previous, heldUntil: null };
+  }
+
+  const current = rules.find((rule) => rule.id === previous.ruleId);
+  if (!current) {
+    return startSelection(candidate, now);
+  }
+  const dwellEnd = previous.since + (current.minDwellMs ?? DEFAULT_MIN_DWELL_MS);
+  const preempts =
+    candidate !== null && ANIMATION_GROUPS.indexOf(candidate.group) < ANIMATION_GROUPS.indexOf(current.group);
+  if (now >= dwellEnd || preempts) {
+    return startSelection(candidate, now);
+  }
+  return previous.heldUntil === dwellEnd ? previous : { ...previous, heldUntil: dwellEnd };
+}
@@ -0,0 +1,219 @@
+/**
+ * BioAmp signal processing
+ * Works on the raw sample batches the server sends with each reading (one sample per reading
+ * from servers that don't send batches). One processor per plant; all state lives in the instance.
+ * - Re-sends: while batches are arriving, a reading without one repeats an earlier reading
+ * - Baseline: exponential moving average with a BASELINE_TAU_MS time constant
+ * - Band power: a chain of one-pole low-pass filters splits the signal into slow (< 0.5 Hz),
+ *   mid (0.5-4 Hz) and fast (> 4 Hz) bands; power is the mean square per band over a batch
+ * - Spikes: runs of samples further than max(SPIKE_MIN, SPIKE_SIGMA × noise) from the baseline
+ * - Wind: WIND_GUSTS short spikes within WIND_WINDOW_MS; touch: one spike lasting TOUCH_MIN_MS or more
+ *   (at one sample per reading every spike lasts a second, so only touches can be told apart)
+ * - Detached: a batch pinned at the ADC rails or flat for DETACH_AFTER_MS; no events while detached
+ */
+
+import { BioAnalysis, BioBand, BioBatch, BioEvent } from '../types/plant';
+
+const BASELINE_TAU_MS = 10 * 1000;
+const NOISE_TAU_MS = 30 * 1000;
+const INITIAL_NOISE = 10; // raw units, until the noise estimate has settled
+// Band edges (Hz) of the low-pass chain
+const SLOW_CUTOFF_HZ = 0.5;
+const FAST_CUTOFF_HZ = 4;
+
+const SPIKE_MIN = 60;
+const SPIKE_SIGMA = 5;
+const TOUCH_MIN_MS = 300;
+const WIND_GUSTS = 3;
+const WIND_WINDOW_MS = 4 * 1000;
+// After an event, the same kind isn't reported again for this long
+const WIND_REFRACTORY_MS = 10 * 1000;
+const TOUCH_REFRACTORY_MS = 2 * 1000;
+// The plant counts as in the wind for this long after a wind event
+const WIND_HOLD_MS = 5 * 1000;
+
+const RAIL_LOW = 2;
+const RAIL_HIGH = 1021;
+const RAIL_FRACTION = 0.8;
+const FLAT_NOISE = 0.5; // raw units
+const DETACH_MIN_SAMPLES = 10; // smaller batches can't tell flat from quiet
+const DETACH_AFTER_MS = 2 * 1000;
+// A gap this long between batches restarts spike tracking
+const MAX_GAP_MS = 5 * 1000;
+
+interface Spike {
+  start: number;
+  end: number;
+  peak: number; // largest deviation from the baseline, signed
+}
+
+export class BioSignalProcessor {
+  private baseline: number | null = null;
+  private variance = INITIAL_NOISE * INITIAL_NOISE;
+  private slow = 0;
+  private fast = 0;
+  private spike: Spike | null = null;
+  private gusts: number[] = []; // end times of recent short spikes
+  private lastAt: number | null = null;
+  private lastEvent: Record<BioEvent['kind'], number> = { wind: -Infinity, touch: -Infinity };
+  private suspectSince: number | null = null; // when the batches started looking detached
+  private detached = false;
+  private lastBatchAt: number | null = null;
+  private lastAnalysis: BioAnalysis | null = null;
+
+  /**
+   * Process a reading: its sample batch, or its one sample from servers that don't send batches
+   * While batches are arriving, a reading without one is a re-send whose samples were already
+   * processed, so the last analysis is returned again without its events
+   */
+  processReading(batch: BioBatch | undefined, sample: number, now: number = Date.now()): BioAnalysis {
+    if (batch) {
+      this.lastBatchAt = now;
+      return this.process(batch, now);
+    }
+    if (this.lastAnalysis && this.lastBatchAt !== null && now - this.lastBatchAt <= MAX_GAP_MS) {
+      return { ...this.lastAnalysis, state: this.stateAt(now), events: [] };
+    }
+    return this.process({ rate: 1, samples: [sample] }, now);
+  }
+
+  /**
+   * Process the samples received with a reading at `now` (the last sample is taken at `now`)
+   */
+  process(batch: BioBatch, now: number = Date.now()): BioAnalysis {
+    const dtMs = 1000 / batch.rate;
+    if (this.lastAt !== null && now - this.lastAt > MAX_GAP_MS) {
+      this.spike = null;
+      this.gusts = [];
+    }
+    this.lastAt = now;
+
+    this.updateDetached(batch.samples, dtMs, now);
+
+    const events: BioEvent[] = [];
+    const power: Record<BioBand, number> = { slow: 0, mid: 0, fast: 0 };
+    if (!this.detached) {
+      const baselineAlpha = 1 - Math.exp(-dtMs / BASELINE_TAU_MS);
+      const noiseAlpha = 1 - Math.exp(-dtMs / NOISE_TAU_MS);
+      const slowAlpha = 1 - Math.exp((-2 * Math.PI * SLOW_CUTOFF_HZ * dtMs) / 1000);
+      const fastAlpha = 1 - Math.exp((-2 * Math.PI * FAST_CUTOFF_HZ * dtMs) / 1000);
+
+      batch.samples.forEach((sample, index) => {
+        const at = now - (batch.samples.length - 1 - index) * dtMs;
+        if (this.baseline === null) {
+          this.baseline = this.slow = this.fast = sample;
+        }
+
+        const deviation = sample - this.baseline;
+        const threshold = Math.max(SPIKE_MIN, SPIKE_SIGMA * Math.sqrt(this.variance));
+        if (Math.abs(deviation) > threshold) {
+          if (!this.spike) {
+            this.spike = { start: at, end: at + dtMs, peak: deviation };
+          } else {
+            this.spike.end = at + dtMs;
+            if (Math.abs(deviation) > Math.abs(this.spike.peak)) this.spike.peak = deviation;
+          }
+        } else {
+          if (this.spike) {
+            const event = this.endSpike(this.spike);
+            if (event) events.push(event);
+            this.spike = null;
+          }
+          // Spikes would inflate the resting level and noise, so only quiet samples update them
+          this.baseline += baselineAlpha * deviation;
+          this.variance += noiseAlpha * (deviation * deviation - this.variance);
+        }
+
+        this.slow += slowAlpha * (sample - this.slow);
+        this.fast += fastAlpha * (sample - this.fast);
+        power.slow += (this.slow - this.baseline) ** 2;
+        power.mid += (this.fast - this.slow) ** 2;
+        power.fast += (sample - this.fast) ** 2;
+      });
+
+      const count = batch.samples.length;
+      power.slow /= count;
+      power.mid /= count;
+      power.fast /= count;
+    }
+
+    this.lastAnalysis = {
+      baseline: Math.round(this.baseline ?? batch.samples[batch.samples.length - 1]),
+      noise: Math.sqrt(this.variance),
+      bandPower: power,
+      detached: this.detached,
+      state: this.stateAt(now),
+      events,
+    };
+    return this.lastAnalysis;
+  }
+
+  /**
+   * Forget everything (e.g. electrodes moved to another plant)
+   */
+  reset(): void {
+    this.baseline = null;
+    this.variance = INITIAL_NOISE * INITIAL_NOISE;
+    this.slow = 0;
+    this.fast = 0;
+    this.spike = null;
+    this.gusts = [];
+    this.lastAt = null;
+    this.lastEvent = { wind: -Infinity, touch: -Infinity };
+    this.suspectSince = null;
+    this.detached = false;
+    this.lastBatchAt = null;
+    this.lastAnalysis = null;
+  }
+
+  private stateAt(now: number): BioAnalysis['state'] {
+    return now - this.lastEvent.wind < WIND_HOLD_MS ? 'wind_trigger' : 'rest';
+  }
+
+  // A finished spike is a touch if it lasted, otherwise a gust that may add up to wind
+  private endSpike(spike: Spike): BioEvent | null {
+    if (spike.end - spike.start >= TOUCH_MIN_MS) {
+      return this.emit('touch', spike.end, Math.round(Math.abs(spike.peak)), TOUCH_REFRACTORY_MS);
+    }
+    this.gusts = this.gusts.filter((end) => spike.end - end < WIND_WINDOW_MS);
+    this.gusts.push(spike.end);
+    if (this.gusts.length >= WIND_GUSTS) {
+      const gustCount = this.gusts.length;
+      this.gusts = [];
+      return this.emit('wind', spike.end, gustCount, WIND_REFRACTORY_MS);
+    }
+    return null;
+  }
+
+  private emit(kind: BioEvent['kind'], at: number, magnitude: number, refractoryMs: number): BioEvent | null {
+    if (at - this.lastEvent[kind] < refractoryMs) {
+      return null;
+    }
+    this.lastEvent[kind] = at;
+    return { kind, at, magnitude };
+  }
+
+  private updateDetached(samples: number[], dtMs: number, now: number): void {
+    if (samples.length < DETACH_MIN_SAMPLES) {
+      return;
+    }
+    const railed = samples.filter((sample) => sample <= RAIL_LOW || sample >= RAIL_HIGH).length;
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const spread = Math.sqrt(samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length);
+    const suspect = railed / samples.length >= RAIL_FRACTION || spread < FLAT_NOISE;
+
+    if (!suspect) {
+      if (this.detached) {
+        // Reattached: the old baseline belongs to a different contact
+        this.baseline = null;
+        this.spike = null;
+        this.gusts = [];
+      }
+      this.suspectSince = null;
+      this.detached = false;
+      return;
+    }
+    this.suspectSince ??= now - samples.length * dtMs;
+    this.detached = now - this.suspectSince >= DETACH_AFTER_MS;
+  }
+}
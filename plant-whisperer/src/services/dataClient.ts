@@ -1,26 +1,118 @@
 /**
- * WebSocket client for sensor data
+ * Client for sensor data
  * Connects to mock sensor server and emits parsed sensor readings
+ * Readings can be narrowed to a single plant with subscribe()
+ *
+ * Connects over a WebSocket; if that can't get through it falls back to Server-Sent Events and
+ * then to HTTP polling (see transports.ts). getTransport() reports the one in use.
+ *
+ * Speaks the server's versioned protocol: after a `hello` handshake every message
+ * is an envelope { v, type, seq, ts, data }. Until the server answers the hello
+ * (or if it's an older server that never does), bare { line, json } readings are accepted.
+ *
+ * Unexpected closes are retried with jittered exponential backoff. While connected the client
+ * pings every few seconds; a socket that stays silent is reported as 'stale' and then dropped
+ * and reconnected.
  */
 
-import { SensorState } from '../types/plant';
+import { BioBatch, ReadingSource, SensorState, PlantInfo, ServerAlert, ServerAlertEvent } from '../types/plant';
+import { Transport, TransportKind, TRANSPORT_ORDER, createTransport } from './transports';
 
-export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'error';
+export type { TransportKind } from './transports';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'stale' | 'error';
+
+// retryAt: when the pending reconnect fires (ms since epoch), or null if none is scheduled
+// transport: the transport connected or being tried, null when there is none
+export type StatusCallback = (status: ConnectionStatus, retryAt: number | null, transport: TransportKind | null) => void;
+
+// bioBatch: raw BioAmp samples since the previous reading, from servers that send them
+// source: the server mode the reading came from ('real' from servers that don't say)
+export type SensorUpdateCallback = (
+  state: SensorState,
+  plantId: string | null,
+  bioBatch: BioBatch | undefined,
+  source: ReadingSource
+) => void;
+
+export type AlertCallback = (event: ServerAlertEvent, alert: ServerAlert) => void;
 
 interface WireStatePayload {
   line: string;
   json: SensorState;
+  deviceId?: string; // absent on servers without multi-device support
+  plantId?: string | null;
+  bioBatch?: BioBatch; // absent on older servers and on re-sent readings
+  source?: ReadingSource; // absent on older servers
+}
+
+const READING_SOURCES: ReadingSource[] = ['real', 'mock', 'replay', 'sim'];
+
+const PROTOCOL_VERSION = 1;
+
+type MessageType = 'reading' | 'mode' | 'alert' | 'hello' | 'error' | 'pong';
+
+interface Envelope<T = any> {
+  v: number;
+  type: MessageType;
+  seq: number;
+  ts: number;
+  data: T;
+}
+
+// Message types this client handles
+const ACCEPTED_TYPES: MessageType[] = ['reading', 'alert', 'error'];
+
+// A transport that hasn't opened by then counts as failed
+const CONNECT_TIMEOUT_MS = 8 * 1000;
+
+// Reconnect delay doubles per failed attempt, between these bounds
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+// The server streams every second, so a few seconds of silence means something is wrong
+const PING_INTERVAL_MS = 5 * 1000;
+const STALE_AFTER_MS = 10 * 1000;
+// A connection silent for this long is given up on and reopened
+const DROP_AFTER_MS = 30 * 1000;
+
+function isEnvelope(message: any): message is Envelope {
+  return !!message && typeof message === 'object' && typeof message.v === 'number' && typeof message.type === 'string';
+}
+
+function isBioBatch(value: any): value is BioBatch {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.rate === 'number' &&
+    value.rate > 0 &&
+    Array.isArray(value.samples) &&
+    value.samples.length > 0 &&
+    value.samples.every((sample: unknown) => typeof sample === 'number' && Number.isFinite(sample))
+  );
+}
+
+function isLegacyReading(message: any): message is WireStatePayload {
+  return !!message && typeof message === 'object' && typeof message.line === 'string' && !!message.json && typeof message.json === 'object';
 }
 
 class DataClient {
-  private ws: WebSocket | null = null;
+  private transport: Transport | null = null;
+  private transportIndex: number = 0; // Position in TRANSPORT_ORDER of the transport to use
+  private connectTimeout: ReturnType<typeof setTimeout> | null = null;
   private status: ConnectionStatus = 'idle';
   private url: string = 'ws://10.0.2.2:4000/ws'; // Android emulator default
-  private onUpdateCallback: ((state: SensorState) => void) | null = null;
-  private statusCallbacks: Set<(status: ConnectionStatus) => void> = new Set();
-  private isConnecting: boolean = false;
+  private onUpdateCallback: SensorUpdateCallback | null = null;
+  private plantId: string | null = null; // null = readings from every plant
+  private statusCallbacks: Set<StatusCallback> = new Set();
+  private alertCallbacks: Set<AlertCallback> = new Set();
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
-  private isDisconnecting: boolean = false; // Track if we're intentionally disconnecting
+  private protocolVersion: number | null = null; // Set once the server answers our hello
+  private reconnectAttempt: number = 0; // Failed attempts since the last good connection
+  private retryAt: number | null = null; // When the pending reconnect fires
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private lastFrameAt: number = 0;
+  private pingId: number = 0;
 
   /**
    * Initialize the data client with optional URL
@@ -37,13 +129,27 @@ class DataClient {
    */
   private setStatus(status: ConnectionStatus): void {
     this.status = status;
-    this.statusCallbacks.forEach((callback) => callback(status));
+    this.statusCallbacks.forEach((callback) => callback(status, this.retryAt, this.getTransport()));
+  }
+
+  /**
+   * Time (ms since epoch) of the next reconnect attempt, or null if none is scheduled
+   */
+  getRetryAt(): number | null {
+    return this.retryAt;
+  }
+
+  /**
+   * Transport connected or being tried, null when there is none
+   */
+  getTransport(): TransportKind | null {
+    return this.transport?.kind ?? null;
   }
 
   /**
    * Subscribe to status changes
    */
-  onStatusChange(callback: (status: ConnectionStatus) => void): () => void {
+  onStatusChange(callback: StatusCallback): () => void {
     this.statusCallbacks.add(callback);
     // Return unsubscribe function
     return () => {
@@ -52,191 +158,320 @@ class DataClient {
   }
 
   /**
-   * Connect to WebSocket server
+   * Subscribe to alerts fired by the server's rule engine
+   */
+  onAlert(callback: AlertCallback): () => void {
+    this.alertCallbacks.add(callback);
+    return () => {
+      this.alertCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Follow a single plant, or every plant with null
+   * Sent right away if connected, otherwise on the next connection
+   */
+  subscribe(plantId: string | null): void {
+    if (plantId === this.plantId) {
+      return;
+    }
+    this.plantId = plantId;
+    if (!this.transport) {
+      return;
+    }
+    if (this.transport.kind === 'websocket') {
+      this.transport.send({ type: 'subscribe', plantId: this.plantId });
+    } else {
+      // One-way transports take the plant in their URL: reopen
+      this.closeTransport();
+      this.openTransport();
+    }
+  }
+
+  /**
+   * HTTP base URL of the sensor server, derived from the WebSocket URL
+   * e.g. ws://10.0.2.2:4000/ws -> http://10.0.2.2:4000
+   */
+  getHttpBaseUrl(): string {
+    return this.url.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/ws\/?(\?.*)?$/, '');
+  }
+
+  /**
+   * Fetch the plants registered on the server
+   */
+  async fetchPlants(): Promise<PlantInfo[]> {
+    const response = await fetch(`${this.getHttpBaseUrl()}/api/plants`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch plants (HTTP ${response.status})`);
+    }
+    const data = await response.json();
+    return Array.isArray(data?.plants) ? data.plants : [];
+  }
+
+  /**
+   * Connect to the sensor server
    * @param onUpdate Callback when sensor data is received
    */
-  connect(onUpdate: (state: SensorState) => void): void {
+  connect(onUpdate: SensorUpdateCallback): void {
     // Update callback even if already connected
     this.onUpdateCallback = onUpdate;
 
     // If already connected or connecting, don't create a new connection
-    if (this.ws) {
-      const readyState = this.ws.readyState;
-      if (readyState === WebSocket.OPEN || readyState === WebSocket.CONNECTING) {
-        // Already connected or connecting, just update callback
-        return;
+    if (this.transport) {
+      return;
+    }
+
+    // Clear any pending reconnection attempts
+    this.clearReconnect();
+    this.openTransport();
+  }
+
+  private openTransport(): void {
+    const kind = TRANSPORT_ORDER[this.transportIndex];
+    let opened = false;
+    const transport = createTransport(
+      kind,
+      { wsUrl: this.url, httpBaseUrl: this.getHttpBaseUrl(), plantId: this.plantId },
+      {
+        onOpen: () => {
+          if (this.transport !== transport) return;
+          opened = true;
+          this.clearConnectTimeout();
+          console.log(`Connected to sensor server over ${kind}:`, kind === 'websocket' ? this.url : this.getHttpBaseUrl());
+          this.setStatus('connected');
+          this.startHeartbeat();
+          if (kind === 'websocket') {
+            this.startWebSocketSession(transport);
+          }
+        },
+        onMessage: (message) => {
+          if (this.transport !== transport) return;
+          this.markAlive();
+          if (isEnvelope(message)) {
+            this.handleEnvelope(message);
+          } else if (this.protocolVersion === null && isLegacyReading(message)) {
+            this.handleReading(message);
+          }
+        },
+        onAlive: () => {
+          if (this.transport !== transport) return;
+          this.markAlive();
+        },
+        onClose: (code) => {
+          if (this.transport !== transport) return;
+          this.transport = null;
+          this.clearConnectTimeout();
+          this.stopHeartbeat();
+          this.handleTransportClosed(opened, code);
+        },
       }
-      // WebSocket is in CLOSED or CLOSING state, clean it up first
-      this.ws = null;
+    );
+
+    this.transport = transport;
+    this.protocolVersion = null;
+    this.setStatus('connecting');
+    this.connectTimeout = setTimeout(() => {
+      this.connectTimeout = null;
+      if (this.transport !== transport) return;
+      console.warn(`Connecting over ${kind} timed out`);
+      this.closeTransport();
+      this.handleTransportClosed(false);
+    }, CONNECT_TIMEOUT_MS);
+
+    try {
+      transport.open();
+    } catch (error) {
+      console.error(`Error opening ${kind} connection:`, error);
+      this.closeTransport();
+      this.handleTransportClosed(false);
+    }
+  }
+
+  // Hello, streaming request and plant subscription for a freshly opened WebSocket
+  private startWebSocketSession(transport: Transport): void {
+    // Handshake first so the server switches this connection to envelopes
+    transport.send({
+      type: 'hello',
+      v: PROTOCOL_VERSION,
+      client: 'plant-whisperer',
+      accepts: ACCEPTED_TYPES,
+    });
+
+    // Request auto-streaming from server (server auto-starts, but this ensures it)
+    // Send start message to ensure continuous updates
+    if (transport.send({ type: 'start', intervalMs: 1000 })) { // 1 second updates
+      console.log('Requested sensor data streaming (1000ms interval)');
     }
 
-    // If already attempting to connect, don't start another attempt
-    if (this.isConnecting) {
+    if (this.plantId) {
+      transport.send({ type: 'subscribe', plantId: this.plantId });
+    }
+  }
+
+  /**
+   * A transport that never got through hands over to the next one in TRANSPORT_ORDER right away;
+   * one that worked and then dropped (or the end of the chain) waits for a backoff retry
+   */
+  private handleTransportClosed(opened: boolean, code?: number): void {
+    if (!opened && this.transportIndex < TRANSPORT_ORDER.length - 1) {
+      this.transportIndex += 1;
+      console.warn(`Falling back to ${TRANSPORT_ORDER[this.transportIndex]} transport`);
+      this.openTransport();
       return;
     }
+    if (!opened) {
+      // Nothing got through: start over from the WebSocket on the next attempt
+      this.transportIndex = 0;
+    }
 
-    this.isConnecting = true;
-    this.setStatus('connecting');
+    // Normal closure codes: 1000 (normal), 1001 (going away)
+    this.setStatus(code === 1000 || code === 1001 ? 'idle' : 'error');
+    this.scheduleReconnect();
+  }
 
-    // Clear any pending reconnection attempts
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+  // Any message (or keepalive) proves the connection is alive
+  private markAlive(): void {
+    this.lastFrameAt = Date.now();
+    this.reconnectAttempt = 0;
+    if (this.status === 'stale') {
+      this.setStatus('connected');
     }
+  }
 
-    try {
-      this.ws = new WebSocket(this.url);
-
-      this.ws.onopen = () => {
-        console.log('WebSocket connected to', this.url);
-        this.isConnecting = false;
-        this.setStatus('connected');
-        
-        // Request auto-streaming from server (server auto-starts, but this ensures it)
-        // Send start message to ensure continuous updates
-        try {
-          this.ws?.send(JSON.stringify({
-            type: 'start',
-            intervalMs: 1000, // 1 second updates
-          }));
-          console.log('Requested sensor data streaming (1000ms interval)');
-        } catch (error) {
-          console.warn('Failed to request streaming:', error);
-        }
-      };
-
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-
-          // Accept either wrapped shape { line, json: SensorState } or direct SensorState
-          let s: any | null = null;
-          if (data && typeof data === 'object') {
-            if (data.json && typeof data.json === 'object') {
-              s = data.json;
-            } else if (
-              ('soil' in data) || ('temp' in data) || ('hum' in data) || ('mq2' in data) || ('rain' in data) || ('bio' in data)
-            ) {
-              s = data;
-            }
-          }
+  private closeTransport(): void {
+    this.clearConnectTimeout();
+    this.stopHeartbeat();
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close();
+  }
 
-          if (!s) return; // Not a sensor payload; ignore
-
-          // Coerce string numbers → number
-          const toNum = (v: any): number => (typeof v === 'string' ? parseFloat(v) : v);
-          const sensor: SensorState = {
-            soil: toNum(s.soil),
-            temp: toNum(s.temp),
-            hum: toNum(s.hum),
-            mq2: toNum(s.mq2),
-            rain: toNum(s.rain),
-            bio: toNum(s.bio),
-          };
-
-          // Validate and emit
-          if ([sensor.soil, sensor.temp, sensor.hum, sensor.mq2, sensor.rain, sensor.bio].every((v) => typeof v === 'number' && !Number.isNaN(v))) {
-            this.onUpdateCallback?.(sensor);
-          } else {
-            console.warn('Invalid sensor data received:', data);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-
-      this.ws.onerror = (error) => {
-        // Only log errors if we're not intentionally disconnecting
-        // and if the connection isn't already closed
-        if (!this.isDisconnecting && this.ws && this.ws.readyState !== WebSocket.CLOSED) {
-          // Log a simplified error message instead of the full error object
-          console.warn('WebSocket connection error. Check if server is running at', this.url);
-        }
-        this.isConnecting = false;
-        // Don't set error status immediately - wait for onclose
-      };
-
-      this.ws.onclose = (event) => {
-        const code = 'code' in event ? event.code : undefined;
-        const wasDisconnecting = this.isDisconnecting;
-        this.isConnecting = false;
-        this.isDisconnecting = false;
-        
-        // Only log if it wasn't an intentional disconnect
-        if (!wasDisconnecting) {
-          // Close code 1006 is "abnormal closure" - usually means connection failed
-          // This can happen if the server isn't running or isn't accessible
-          if (code === 1006) {
-            console.warn(
-              'WebSocket connection failed (code 1006). ' +
-              'Make sure the mock server is running at ' + this.url.replace('ws://', 'http://')
-            );
-          } else if (code !== 1000 && code !== 1001) {
-            // Only log non-normal closures
-            console.log('WebSocket disconnected', code ? `(code: ${code})` : '');
-          }
-        }
-        
-        // Clear the WebSocket reference
-        this.ws = null;
-        
-        // Set status based on close code if available
-        // Normal closure codes: 1000 (normal), 1001 (going away)
-        if (wasDisconnecting || (code !== undefined && (code === 1000 || code === 1001))) {
-          this.setStatus('idle');
-        } else if (code !== undefined && code !== 1000 && code !== 1001) {
-          // Only set error status if it wasn't an intentional disconnect
-          // 1006 means connection failed - could be server not running or network issue
-          this.setStatus('error');
-        } else {
-          // If code is not available, assume idle (normal disconnect)
-          this.setStatus('idle');
-        }
-      };
-    } catch (error) {
-      console.error('Error creating WebSocket:', error);
-      this.isConnecting = false;
-      this.setStatus('error');
-      this.ws = null;
+  private clearConnectTimeout(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
     }
   }
 
   /**
-   * Disconnect from WebSocket server
+   * Retry after a jittered, exponentially growing delay
+   * Status listeners get the retry time so they can show a countdown
    */
-  disconnect(): void {
-    // Mark that we're intentionally disconnecting
-    this.isDisconnecting = true;
-    
-    // Clear any pending reconnection attempts
+  private scheduleReconnect(): void {
+    if (!this.onUpdateCallback || this.reconnectTimeout) {
+      return;
+    }
+    const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempt);
+    // Somewhere in the upper half of the window so clients don't retry in lockstep
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+    this.reconnectAttempt += 1;
+    this.retryAt = Date.now() + delay;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.retryAt = null;
+      if (this.onUpdateCallback) {
+        this.connect(this.onUpdateCallback);
+      }
+    }, delay);
+    this.setStatus(this.status);
+  }
+
+  private clearReconnect(): void {
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
+    this.retryAt = null;
+  }
 
-    this.isConnecting = false;
-
-    if (this.ws) {
-      // Close the connection if it's open or connecting
-      const readyState = this.ws.readyState;
-      if (readyState === WebSocket.OPEN || readyState === WebSocket.CONNECTING) {
-        // Use close without code for React Native compatibility
-        try {
-          // Remove error handler to prevent error logs during intentional disconnect
-          this.ws.onerror = null;
-          this.ws.close();
-        } catch (error) {
-          // Ignore errors during cleanup
-        }
+  /**
+   * Ping the server (WebSocket only) and watch for silence while connected
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastFrameAt = Date.now();
+    this.heartbeatInterval = setInterval(() => {
+      const silentFor = Date.now() - this.lastFrameAt;
+      if (silentFor >= DROP_AFTER_MS) {
+        console.warn(`No data from sensor server for ${Math.round(silentFor / 1000)}s, reconnecting`);
+        this.dropConnection();
+        return;
+      }
+      if (silentFor >= STALE_AFTER_MS && this.status === 'connected') {
+        this.setStatus('stale');
       }
-      // Don't null ws immediately - let onclose handle it
-      // But remove handlers to prevent callbacks
-      this.ws.onopen = null;
-      this.ws.onmessage = null;
-      this.ws.onerror = null;
-      this.ws.onclose = null;
-      this.ws = null;
+      // Older servers don't know ping; legacy connections rely on the reading stream alone
+      // (SSE and polling are kept fresh by keepalives and 304s)
+      if (this.protocolVersion !== null) {
+        this.transport?.send({ type: 'ping', id: ++this.pingId });
+      }
+    }, PING_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  // Abandon a silent connection without waiting for its close handshake (which may never come)
+  private dropConnection(): void {
+    this.closeTransport();
+    this.handleTransportClosed(true);
+  }
+
+  private handleEnvelope(envelope: Envelope): void {
+    switch (envelope.type) {
+      case 'hello':
+        this.protocolVersion = envelope.data?.v ?? envelope.v;
+        console.log(`Sensor server protocol v${this.protocolVersion}`);
+        break;
+      case 'reading':
+        this.handleReading(envelope.data);
+        break;
+      case 'alert':
+        // The server only pushes alerts for the subscribed plant
+        this.alertCallbacks.forEach((callback) => callback(envelope.data.event, envelope.data.alert));
+        break;
+      case 'error':
+        console.warn('Sensor server rejected a message:', envelope.data?.message);
+        break;
+      case 'pong':
+        // Only needed to keep lastFrameAt fresh
+        break;
+      default:
+        // Types we didn't ask for in our hello
+        break;
+    }
+  }
+
+  private handleReading(payload: WireStatePayload): void {
+    // Readings sent before the server processed our subscribe message
+    const plantId = payload.plantId ?? null;
+    if (this.plantId && payload.plantId !== undefined && plantId !== this.plantId) return;
+
+    const sensor: SensorState = { ...payload.json };
+    if ([sensor.soil, sensor.temp, sensor.hum, sensor.mq2, sensor.rain, sensor.bio].every((v) => typeof v === 'number' && !Number.isNaN(v))) {
+      const source = payload.source && READING_SOURCES.includes(payload.source) ? payload.source : 'real';
+      this.onUpdateCallback?.(sensor, plantId, isBioBatch(payload.bioBatch) ? payload.bioBatch : undefined, source);
+    } else {
+      console.warn('Invalid sensor data received:', payload);
     }
+  }
+
+  /**
+   * Disconnect from the sensor server
+   */
+  disconnect(): void {
+    // Clear any pending reconnection attempts
+    this.clearReconnect();
+    this.reconnectAttempt = 0;
+
+    // Transports report nothing once closed on purpose
+    this.closeTransport();
+    this.transportIndex = 0;
+
     this.setStatus('idle');
     this.onUpdateCallback = null;
   }
@@ -0,0 +1,265 @@
+/**
+ * On-device plant history
+ * Keeps live readings on the phone so trends can still be looked at while the server is down:
+ * - raw: the last RAW_CAPACITY readings
+ * - minute rollups covering 24 hours, hour rollups covering 30 days
+ * Every tier is a fixed-size ring buffer, stored per plant in AsyncStorage (written at most
+ * every FLUSH_DELAY_MS). Values from faulty sensors are left out of the rollups.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SensorState, SensorFault } from '../types/plant';
+
+type SensorField = keyof SensorState;
+
+export type HistoryWindow = '24h' | '7d' | '30d';
+
+// Running statistics of one sensor within a bucket
+export interface SensorStats {
+  n: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export interface HistoryBucket {
+  t: number; // bucket start, ms since epoch
+  sensors: Partial<Record<SensorField, SensorStats>>;
+}
+
+export interface RawReading {
+  t: number;
+  reading: SensorState;
+}
+
+export interface HistoryPoint {
+  t: number;
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface HistorySeries {
+  window: HistoryWindow;
+  stepMs: number;  // bucket size; points further apart than this have a gap between them
+  startMs: number; // beginning of the window
+  points: HistoryPoint[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const RAW_CAPACITY = 600;            // ~10 minutes at one reading per second
+const MINUTE_CAPACITY = 24 * 60;     // 24 hours
+const HOUR_CAPACITY = 30 * 24;       // 30 days
+const FLUSH_DELAY_MS = 30 * 1000;
+
+const STORAGE_PREFIX = 'history:v1:';
+const ALL_PLANTS_KEY = 'all'; // readings recorded before a plant was selected
+
+const SENSOR_FIELDS: SensorField[] = ['soil', 'temp', 'hum', 'mq2', 'rain', 'bio'];
+
+const WINDOWS: Record<HistoryWindow, { tier: 'minutes' | 'hours'; spanMs: number; stepMs: number }> = {
+  '24h': { tier: 'minutes', spanMs: 24 * HOUR_MS, stepMs: MINUTE_MS },
+  '7d': { tier: 'hours', spanMs: 7 * 24 * HOUR_MS, stepMs: HOUR_MS },
+  '30d': { tier: 'hours', spanMs: 30 * 24 * HOUR_MS, stepMs: HOUR_MS },
+};
+
+/**
+ * Fixed-capacity buffer that overwrites its oldest item once full
+ */
+class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private size = 0;
+
+  constructor(private capacity: number, initial: T[] = []) {
+    this.items = new Array(capacity);
+    for (const item of initial.slice(-capacity)) {
+      this.push(item);
+    }
+  }
+
+  push(item: T): void {
+    this.items[(this.start + this.size) % this.capacity] = item;
+    if (this.size < this.capacity) {
+      this.size++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  last(): T | undefined {
+    return this.size > 0 ? this.items[(this.start + this.size - 1) % this.capacity] : undefined;
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+}
+
+interface PlantHistory {
+  raw: RingBuffer<RawReading>;
+  minutes: RingBuffer<HistoryBucket>;
+  hours: RingBuffer<HistoryBucket>;
+}
+
+// Shape written to AsyncStorage
+interface StoredHistory {
+  raw?: RawReading[];
+  minutes?: HistoryBucket[];
+  hours?: HistoryBucket[];
+}
+
+function addToTier(tier: RingBuffer<HistoryBucket>, bucketMs: number, at: number, values: Partial<SensorState>): void {
+  const t = Math.floor(at / bucketMs) * bucketMs;
+  let bucket = tier.last();
+  if (bucket && t < bucket.t) {
+    return; // older than the newest bucket (clock went backwards)
+  }
+  if (!bucket || bucket.t !== t) {
+    bucket = { t, sensors: {} };
+    tier.push(bucket);
+  }
+  for (const sensor of Object.keys(values) as SensorField[]) {
+    const value = values[sensor] as number;
+    const stats = bucket.sensors[sensor];
+    if (stats) {
+      stats.n++;
+      stats.sum += value;
+      stats.min = Math.min(stats.min, value);
+      stats.max = Math.max(stats.max, value);
+    } else {
+      bucket.sensors[sensor] = { n: 1, sum: value, min: value, max: value };
+    }
+  }
+}
+
+class HistoryStore {
+  private plants = new Map<string, Promise<PlantHistory>>();
+  private dirty = new Set<string>();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Record a live reading for a plant (null = no plant selected)
+   */
+  async record(plantId: string | null, reading: SensorState, faults: SensorFault[] = [], at: number = Date.now()): Promise<void> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const history = await this.load(key);
+
+    history.raw.push({ t: at, reading: { ...reading } });
+
+    const trusted: Partial<SensorState> = {};
+    for (const sensor of SENSOR_FIELDS) {
+      if (!faults.some((fault) => fault.sensor === sensor)) {
+        trusted[sensor] = reading[sensor];
+      }
+    }
+    addToTier(history.minutes, MINUTE_MS, at, trusted);
+    addToTier(history.hours, HOUR_MS, at, trusted);
+
+    this.dirty.add(key);
+    this.scheduleFlush();
+  }
+
+  /**
+   * One sensor's rollups over a window, oldest first
+   */
+  async getSeries(
+    plantId: string | null,
+    sensor: SensorField,
+    window: HistoryWindow,
+    now: number = Date.now()
+  ): Promise<HistorySeries> {
+    const { tier, spanMs, stepMs } = WINDOWS[window];
+    const history = await this.load(plantId ?? ALL_PLANTS_KEY);
+    const startMs = now - spanMs;
+
+    const points: HistoryPoint[] = [];
+    for (const bucket of history[tier].toArray()) {
+      const stats = bucket.sensors[sensor];
+      if (bucket.t >= startMs - stepMs && stats) {
+        points.push({ t: bucket.t, avg: stats.sum / stats.n, min: stats.min, max: stats.max });
+      }
+    }
+    return { window, stepMs, startMs, points };
+  }
+
+  /**
+   * Most recent raw readings, oldest first
+   */
+  async getRecent(plantId: string | null): Promise<RawReading[]> {
+    return (await this.load(plantId ?? ALL_PLANTS_KEY)).raw.toArray();
+  }
+
+  /**
+   * Write pending changes now (e.g. when the app goes to the background)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    const keys = Array.from(this.dirty);
+    this.dirty.clear();
+    for (const key of keys) {
+      const history = await this.load(key);
+      const stored: StoredHistory = {
+        raw: history.raw.toArray(),
+        minutes: history.minutes.toArray(),
+        hours: history.hours.toArray(),
+      };
+      try {
+        await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(stored));
+      } catch (error) {
+        console.warn('Could not save plant history:', error);
+      }
+    }
+  }
+
+  /**
+   * Forget a plant's history
+   */
+  async clear(plantId: string | null): Promise<void> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    this.plants.delete(key);
+    this.dirty.delete(key);
+    try {
+      await AsyncStorage.removeItem(STORAGE_PREFIX + key);
+    } catch {}
+  }
+
+  private load(key: string): Promise<PlantHistory> {
+    let history = this.plants.get(key);
+    if (!history) {
+      history = AsyncStorage.getItem(STORAGE_PREFIX + key)
+        .then((raw) => (raw ? (JSON.parse(raw) as StoredHistory) : {}))
+        .catch((): StoredHistory => ({}))
+        .then((stored) => ({
+          raw: new RingBuffer(RAW_CAPACITY, stored.raw ?? []),
+          minutes: new RingBuffer(MINUTE_CAPACITY, stored.minutes ?? []),
+          hours: new RingBuffer(HOUR_CAPACITY, stored.hours ?? []),
+        }));
+      this.plants.set(key, history);
+    }
+    return history;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) {
+      return;
+    }
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+// Export singleton instance
+export const historyStore = new HistoryStore();
@@ -1,3 +1,12 @@
 export * from './dataClient';
 export * from './plantModel';
+export * from './historyStore';
+export * from './reminderScheduler';
+export * from './speciesCatalog';
+export * from './serverDiscovery';
+export * from './wateringForecast';
+export * from './progressTracker';
 
+export * from './lifecycleStore';
+export * from './animationRules';
+export * from './bioSignal';
\ No newline at end of file
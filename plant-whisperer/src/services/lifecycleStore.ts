@@ -0,0 +1,106 @@
+/**
+ * Keeps each plant's lifecycle (growth stage, neglect, revival) in AsyncStorage
+ * The rules live in plantModel.ts (advanceLifecycle); this only feeds readings in and persists the result.
+ * Stage changes are saved right away, everything else at most every FLUSH_DELAY_MS.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LifecycleStage, PlantLifecycle, PlantProfile, SensorFault, SensorState } from '../types/plant';
+import { advanceLifecycle, computeOverallHealth, createLifecycle, isFullyNonOptimal } from './plantModel';
+import { DEFAULT_PLANT_PROFILE } from './plantProfile';
+
+export interface LifecycleUpdate {
+  lifecycle: PlantLifecycle;
+  previousStage: LifecycleStage | null; // set when this reading moved the plant to a new stage
+}
+
+const FLUSH_DELAY_MS = 30 * 1000;
+
+const STORAGE_PREFIX = 'lifecycle:v1:';
+const ALL_PLANTS_KEY = 'all'; // lifecycle before a plant was selected
+
+class LifecycleStore {
+  private plants = new Map<string, Promise<PlantLifecycle>>();
+  private dirty = new Set<string>();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Lifecycle of a plant (null = no plant selected); a new plant starts as a seedling
+   */
+  get(plantId: string | null): Promise<PlantLifecycle> {
+    return this.load(plantId ?? ALL_PLANTS_KEY);
+  }
+
+  /**
+   * Fold a live reading into the plant's lifecycle
+   */
+  async record(
+    plantId: string | null,
+    reading: SensorState,
+    faults: SensorFault[] = [],
+    profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+    now: number = Date.now()
+  ): Promise<LifecycleUpdate> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const health = computeOverallHealth(reading.soil, reading.temp, reading.hum, reading.mq2, faults, profile);
+    const fullyNonOptimal = isFullyNonOptimal(reading.soil, reading.temp, reading.hum, reading.mq2, faults, profile);
+    // Chained so readings arriving before the previous one is folded in aren't lost
+    const previous = this.load(key);
+    const next = previous.then((current) => advanceLifecycle(current, health, fullyNonOptimal, now));
+    this.plants.set(key, next);
+    const [current, lifecycle] = await Promise.all([previous, next]);
+    this.dirty.add(key);
+
+    const previousStage = lifecycle.stage !== current.stage ? current.stage : null;
+    if (previousStage) {
+      await this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+    return { lifecycle, previousStage };
+  }
+
+  /**
+   * Write pending changes now (e.g. when the app goes to the background)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    const keys = Array.from(this.dirty);
+    this.dirty.clear();
+    for (const key of keys) {
+      const lifecycle = await this.load(key);
+      try {
+        await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(lifecycle));
+      } catch (error) {
+        console.warn('Could not save plant lifecycle:', error);
+      }
+    }
+  }
+
+  private load(key: string): Promise<PlantLifecycle> {
+    let lifecycle = this.plants.get(key);
+    if (!lifecycle) {
+      lifecycle = AsyncStorage.getItem(STORAGE_PREFIX + key)
+        .then((raw) => (raw ? { ...createLifecycle(), ...(JSON.parse(raw) as PlantLifecycle) } : createLifecycle()))
+        .catch(() => createLifecycle());
+      this.plants.set(key, lifecycle);
+    }
+    return lifecycle;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) {
+      return;
+    }
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+// Export singleton instance
+export const lifecycleStore = new LifecycleStore();
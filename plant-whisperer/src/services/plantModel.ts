@@ -1,6 +1,8 @@
 /**
  * Plant model with sensor guidelines-based logic
  * Implements exact thresholds and states from sensor behavior documentation
+ * Temperature, humidity and soil thresholds come from a PlantProfile (services/plantProfile.ts);
+ * the ranges quoted below are the default (Philodendron Birkin) profile
  */
 
 import {
@@ -14,14 +16,21 @@ import {
   BioSignalState,
   AirQualityState,
   PlantCurrentState,
+  SensorFault,
+  SensorState,
+  PlantProfile,
+  GrowthStage,
+  LifecycleStage,
+  PlantLifecycle,
 } from '../types/plant';
+import { DEFAULT_PLANT_PROFILE } from './plantProfile';
 
 // MQ-2 baseline (normal reading is ~70)
 let mq2Baseline = 70;
 
-// BioAmp EXG moving baseline (stores last 10-20 readings)
-const bioReadings: number[] = [];
-const BIO_BASELINE_WINDOW = 15; // Average of last 15 readings
+// MQ-2 thresholds shared by the air quality state, its score and the animation rules
+export const MQ2_AIR_BAD = 150; // ≥ this is bad air
+export const MQ2_POLLUTED = 200; // > this is a hazard
 
 /**
  * Set MQ-2 baseline for air quality calculations
@@ -45,10 +54,13 @@ export function getMq2Baseline(): number {
  * - Hot: > 27°C → "hot_animation"
  * - Stable: 13-27°C → "stable_animation" (optimal range)
  */
-export function computeTemperatureState(temp: number): TemperatureState {
-  if (temp < 13) {
+export function computeTemperatureState(
+  temp: number,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): TemperatureState {
+  if (temp < profile.temp.min) {
     return 'cold_animation';
-  } else if (temp > 27) {
+  } else if (temp > profile.temp.max) {
     return 'hot_animation';
   } else {
     return 'stable_animation';
@@ -59,11 +71,13 @@ export function computeTemperatureState(temp: number): TemperatureState {
  * Compute temperature score (0-100) based on optimal range 13-27°C
  * Used for health bar display
  */
-export function computeTempScore(temp: number): number {
-  const OPTIMAL_MIN = 13;
-  const OPTIMAL_MAX = 27;
-  const ACCEPTABLE_MIN = 10;
-  const ACCEPTABLE_MAX = 30;
+export function computeTempScore(temp: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE): number {
+  const OPTIMAL_MIN = profile.temp.min;
+  const OPTIMAL_MAX = profile.temp.max;
+  const ACCEPTABLE_MIN = OPTIMAL_MIN - 3;
+  const ACCEPTABLE_MAX = OPTIMAL_MAX + 3;
+  const FREEZING = ACCEPTABLE_MIN - 10; // score reaches 0 here (0°C by default)
+  const SCORCHING = ACCEPTABLE_MAX + 5; // and here (35°C by default)
 
   // Within optimal range (13-27°C) = 100
   if (temp >= OPTIMAL_MIN && temp <= OPTIMAL_MAX) {
@@ -73,10 +87,10 @@ export function computeTempScore(temp: number): number {
   // Outside acceptable range = 0-40
   if (temp < ACCEPTABLE_MIN || temp > ACCEPTABLE_MAX) {
     if (temp < ACCEPTABLE_MIN) {
-      const r = Math.max(0, (temp - 0) / (ACCEPTABLE_MIN - 0));
+      const r = Math.max(0, (temp - FREEZING) / (ACCEPTABLE_MIN - FREEZING));
       return Math.round(r * 40);
     } else {
-      const r = Math.max(0, (35 - temp) / (35 - ACCEPTABLE_MAX));
+      const r = Math.max(0, (SCORCHING - temp) / (SCORCHING - ACCEPTABLE_MAX));
       return Math.round(r * 40);
     }
   }
@@ -98,25 +112,37 @@ export function computeTempScore(temp: number): number {
  * - Low humidity: < 35% → "dry_air"
  * - Normal humidity: 35-80% → "normal_air"
  */
-export function computeHumidityState(hum: number): HumidityState {
-  if (hum > 80) {
+export function computeHumidityState(
+  hum: number,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): HumidityState {
+  if (hum > profile.humidity.max) {
     return 'humid';
-  } else if (hum < 35) {
+  } else if (hum < profile.humidity.min) {
     return 'dry_air';
   } else {
     return 'normal_air';
   }
 }
 
+/**
+ * Humidity range that scores 100: the inner part of the profile's normal range
+ * (40-70% for the default 35-80%)
+ */
+export function getOptimalHumidityRange(profile: PlantProfile = DEFAULT_PLANT_PROFILE): { min: number; max: number } {
+  const { min, max } = profile.humidity;
+  const span = max - min;
+  return { min: Math.round(min + span / 9), max: Math.round(max - (span * 2) / 9) };
+}
+
 /**
  * Compute humidity score (0-100) based on typical range 40-70%
  * Used for health bar display
  */
-export function computeHumScore(hum: number): number {
-  const OPTIMAL_MIN = 40;
-  const OPTIMAL_MAX = 70;
-  const ACCEPTABLE_MIN = 35;
-  const ACCEPTABLE_MAX = 80;
+export function computeHumScore(hum: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE): number {
+  const { min: OPTIMAL_MIN, max: OPTIMAL_MAX } = getOptimalHumidityRange(profile);
+  const ACCEPTABLE_MIN = profile.humidity.min;
+  const ACCEPTABLE_MAX = profile.humidity.max;
 
   // Within optimal range (40-70%) = 100
   if (hum >= OPTIMAL_MIN && hum <= OPTIMAL_MAX) {
@@ -152,12 +178,15 @@ export function computeHumScore(hum: number): number {
  * - Level 2: 400-699 → "okay" (Moist)
  * - Level 3: ≤ 399 → "hydrated" (Wet)
  */
-export function computeSoilMoistureState(soil: number): SoilMoistureState {
-  if (soil >= 900) {
+export function computeSoilMoistureState(
+  soil: number,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): SoilMoistureState {
+  if (soil >= profile.soil.dry) {
     return 'dry';
-  } else if (soil >= 700) {
+  } else if (soil >= profile.soil.thirsty) {
     return 'thirsty';
-  } else if (soil >= 400) {
+  } else if (soil >= profile.soil.wet) {
     return 'okay';
   } else {
     return 'hydrated';
@@ -169,48 +198,59 @@ export function computeSoilMoistureState(soil: number): SoilMoistureState {
  * Used for health bar display
  * Optimal range: 400-699 (okay/moist)
  */
-export function computeHydrationScore(soil: number, rain: number): number {
+export function computeHydrationScore(
+  soil: number,
+  rain: number,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): number {
   // Check if watering animation should trigger (raindrop < 300)
   // This is handled separately in state derivation
+  const { wet, thirsty, dry } = profile.soil;
+  const SOAKED = Math.round(wet * 0.375); // 150 by default
+  const BONE_DRY = 1020;
 
   // Level 2 (400-699) = optimal = 100
-  if (soil >= 400 && soil <= 699) {
+  if (soil >= wet && soil < thirsty) {
     return 100;
   }
 
   // Level 3 (≤ 399) = hydrated/wet = 80-100 (still good, just wet)
-  if (soil < 400) {
-    if (soil <= 150) {
+  if (soil < wet) {
+    if (soil <= SOAKED) {
       // Fully wet - might be too wet
       return 70;
     }
     // Wet but not too wet
-    const r = (soil - 150) / (400 - 150);
+    const r = (soil - SOAKED) / (wet - SOAKED);
     return Math.round(70 + r * 30); // 70 -> 100
   }
 
   // Level 1 (700-899) = thirsty = 40-80
-  if (soil >= 700 && soil < 900) {
-    const r = (soil - 700) / (900 - 700);
+  if (soil >= thirsty && soil < dry) {
+    const r = (soil - thirsty) / (dry - thirsty);
     return Math.round(80 - r * 40); // 80 -> 40
   }
 
   // Level 0 (≥ 900) = dry = 0-40
-  const r = Math.min(1, (soil - 900) / (1020 - 900));
+  const r = Math.min(1, (soil - dry) / Math.max(1, BONE_DRY - dry));
   return Math.round(40 - r * 40); // 40 -> 0
 }
 
 /**
  * Compute comfort score (average of temp and humidity scores)
  */
-export function computeComfortScore(temp: number, hum: number): number {
-  const tempScore = computeTempScore(temp);
-  const humScore = computeHumScore(hum);
+export function computeComfortScore(
+  temp: number,
+  hum: number,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): number {
+  const tempScore = computeTempScore(temp, profile);
+  const humScore = computeHumScore(hum, profile);
   return Math.round((tempScore + humScore) / 2);
 }
 
 /**
- * Compute overall plant health for Philodendron Birkin
+ * Compute overall plant health against the plant's profile
  * Uses weighted average of critical sensors (soil, temp, hum, mq2)
  * Weightages based on plant health priority:
  * - Soil moisture: 40% (most critical for plant survival)
@@ -219,20 +259,30 @@ export function computeComfortScore(temp: number, hum: number): number {
  * - MQ2 (Air Quality): 10% (least critical, but still matters)
  * 
  * Does NOT include bio signal or air quality index (those are for animations only)
+ * Faulty sensors are left out and the remaining weights rescaled; null if all four are faulty
  */
-export function computeOverallHealth(soil: number, temp: number, hum: number, mq2: number): number {
-  const soilScore = computeHydrationScore(soil, 1020); // Use default rain value for soil-only calculation
-  const tempScore = computeTempScore(temp);
-  const humScore = computeHumScore(hum);
-  const mq2Score = computeAirQualityScore(mq2);
+export function computeOverallHealth(
+  soil: number,
+  temp: number,
+  hum: number,
+  mq2: number,
+  faults: SensorFault[] = [],
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): number | null {
+  const parts: [keyof SensorState, number, number][] = [
+    ['soil', computeHydrationScore(soil, 1020, profile), 0.40], // 40% weight - most important (default rain value for soil-only calculation)
+    ['temp', computeTempScore(temp, profile), 0.30],            // 30% weight
+    ['hum', computeHumScore(hum, profile), 0.20],               // 20% weight
+    ['mq2', computeAirQualityScore(mq2), 0.10],        // 10% weight - least important
+  ];
+  const known = parts.filter(([sensor]) => !faults.some((fault) => fault.sensor === sensor));
+  if (known.length === 0) {
+    return null;
+  }
 
   // Weighted average
-  const overallHealth = (
-    soilScore * 0.40 +  // 40% weight - most important
-    tempScore * 0.30 +  // 30% weight
-    humScore * 0.20 +   // 20% weight
-    mq2Score * 0.10     // 10% weight - least important
-  );
+  const totalWeight = known.reduce((sum, [, , weight]) => sum + weight, 0);
+  const overallHealth = known.reduce((sum, [, score, weight]) => sum + score * weight, 0) / totalWeight;
 
   return Math.max(0, Math.min(100, Math.round(overallHealth)));
 }
@@ -241,58 +291,84 @@ export function computeOverallHealth(soil: number, temp: number, hum: number, mq
  * Check if sensor value is in optimal range
  * Returns true if optimal, false if not
  */
-export function isSoilOptimal(soil: number): boolean {
-  // Optimal range aligned with animation thresholds: anything below 700 is considered optimal
-  return soil < 700;
+export function isSoilOptimal(soil: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE): boolean {
+  // Optimal range aligned with animation thresholds: anything below "thirsty" (700) is considered optimal
+  return soil < profile.soil.thirsty;
 }
 
-export function isTempOptimal(temp: number): boolean {
+export function isTempOptimal(temp: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE): boolean {
   // Optimal range: 13-27°C
-  return temp >= 13 && temp <= 27;
+  return temp >= profile.temp.min && temp <= profile.temp.max;
 }
 
-export function isHumOptimal(hum: number): boolean {
+export function isHumOptimal(hum: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE): boolean {
   // Optimal range aligned with animation thresholds: 35-80%
   // - < 35% triggers dry-air animation
   // - > 80% contributes to hot/humid animation
-  return hum >= 35 && hum <= 80;
+  return hum >= profile.humidity.min && hum <= profile.humidity.max;
 }
 
 export function isMq2Optimal(mq2: number): boolean {
   // Optimal: < 200 (200+ considered bad air per latest spec)
-  return mq2 < 200;
+  return mq2 < MQ2_POLLUTED;
 }
 
 /**
- * Update BioAmp EXG moving baseline
- * Guidelines:
- * - Resting range: 400-600
- * - Moving baseline: average of last 10-20 readings
+ * Every sensor outside its optimal range (the full-dead animation condition)
+ * False while any sensor is faulty: its reading says nothing about the plant
  */
-function updateBioBaseline(bio: number): number {
-  bioReadings.push(bio);
-  if (bioReadings.length > BIO_BASELINE_WINDOW) {
-    bioReadings.shift(); // Remove oldest reading
-  }
+export function isFullyNonOptimal(
+  soil: number,
+  temp: number,
+  hum: number,
+  mq2: number,
+  faults: SensorFault[] = [],
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): boolean {
+  return (
+    faults.length === 0 &&
+    !isSoilOptimal(soil, profile) &&
+    !isTempOptimal(temp, profile) &&
+    !isHumOptimal(hum, profile) &&
+    !isMq2Optimal(mq2)
+  );
+}
 
-  // Calculate moving average
-  const sum = bioReadings.reduce((a, b) => a + b, 0);
-  return sum / bioReadings.length;
+/**
+ * Range of a sensor's values that counts as good, for shading history charts
+ * Null for the rain sensor, which has no "good" value
+ */
+export function getOptimalBand(
+  sensor: keyof SensorState,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): { min: number; max: number } | null {
+  switch (sensor) {
+    case 'soil':
+      return { min: profile.soil.wet, max: profile.soil.thirsty };
+    case 'temp':
+      return profile.temp;
+    case 'hum':
+      return profile.humidity;
+    case 'mq2':
+      return { min: 0, max: MQ2_POLLUTED };
+    case 'bio':
+      return { min: 400, max: 600 }; // resting range
+    case 'rain':
+      return null;
+  }
 }
 
 /**
- * Compute bio signal state
+ * Compute bio signal state from a single reading
  * Guidelines:
  * - Resting range: 400-600
  * - Wind simulation: spikes > 900 or drops < 50
- * - Moving baseline: average of last 10-20 readings
  * - Wind trigger: deviation ±60% from baseline → "wind_trigger"
  * - Rest: signal stabilizes → "rest"
+ * Stateless: pass the baseline from a BioSignalProcessor (services/bioSignal.ts), which also
+ * detects wind and touches as events from the sample stream; without one only extremes count
  */
-export function computeBioSignalState(bio: number): BioSignalState {
-  // Update moving baseline
-  const baseline = updateBioBaseline(bio);
-
+export function computeBioSignalState(bio: number, baseline: number = bio): BioSignalState {
   // Check for extreme spikes/drops (wind simulation)
   if (bio > 900 || bio < 25) {
     return 'wind_trigger';
@@ -354,9 +430,9 @@ export function computeBioSignalScore(bio: number): number {
  * - Hazard: > 200 → "dizzy" or "polluted"
  */
 export function computeAirQualityState(mq2: number): AirQualityState {
-  if (mq2 > 200) {
+  if (mq2 > MQ2_POLLUTED) {
     return 'polluted'; // Or 'dizzy' - using 'polluted' as per guidelines
-  } else if (mq2 >= 150) {
+  } else if (mq2 >= MQ2_AIR_BAD) {
     return 'air_bad';
   } else {
     return 'air_good';
@@ -375,8 +451,8 @@ export function computeAirQualityState(mq2: number): AirQualityState {
 export function computeAirQualityScore(mq2: number): number {
   // Normal/baseline is 70
   const NORMAL = 70;
-  const GOOD_THRESHOLD = 150;
-  const BAD_THRESHOLD = 200;
+  const GOOD_THRESHOLD = MQ2_AIR_BAD;
+  const BAD_THRESHOLD = MQ2_POLLUTED;
 
   if (mq2 < GOOD_THRESHOLD) {
     // Good air quality (< 150)
@@ -403,13 +479,25 @@ export function computeAirQualityScore(mq2: number): number {
  * Compute current plant state from raw vitals
  * Returns all sensor states based on guidelines
  */
-export function computePlantCurrentState(vitals: PlantVitalsRaw): PlantCurrentState {
-  const temperature = computeTemperatureState(vitals.temperature);
-  const humidity = computeHumidityState(vitals.humidity);
-  const soilMoisture = computeSoilMoistureState(vitals.soilMoisture);
-  const bioSignal = computeBioSignalState(vitals.bio);
-  const airQuality = computeAirQualityState(vitals.mq2);
-  const isWatering = vitals.raindrop < 300; // Watering animation trigger
+export function computePlantCurrentState(
+  vitals: PlantVitalsRaw,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE
+): PlantCurrentState {
+  return describePlantState({
+    temperature: computeTemperatureState(vitals.temperature, profile),
+    humidity: computeHumidityState(vitals.humidity, profile),
+    soilMoisture: computeSoilMoistureState(vitals.soilMoisture, profile),
+    bioSignal: computeBioSignalState(vitals.bio),
+    airQuality: computeAirQualityState(vitals.mq2),
+    isWatering: vitals.raindrop < 300, // Watering animation trigger
+  });
+}
+
+/**
+ * Add the UI state text to classified sensor states
+ */
+function describePlantState(states: Omit<PlantCurrentState, 'stateText'>): PlantCurrentState {
+  const { temperature, humidity, soilMoisture, bioSignal, airQuality, isWatering } = states;
 
   // Generate state text for UI display
   // Format: "Temp: [state] | Humidity: [state] | Soil: [state] | Bio: [state] | Air: [state] | [Watering]"
@@ -461,31 +549,195 @@ export function computePlantCurrentState(vitals: PlantVitalsRaw): PlantCurrentSt
 
   const stateText = stateParts.join(' | ');
 
-  return {
-    temperature,
-    humidity,
-    soilMoisture,
-    bioSignal,
-    airQuality,
-    isWatering,
-    stateText,
-  };
+  return { ...states, stateText };
+}
+
+/**
+ * Hysteresis on a stateless classifier (computeSoilMoistureState etc.)
+ * - Exit band: the committed state holds while the value is within exitBand of its range,
+ *   so a soil value bouncing between 699 and 701 stays 'okay' until it reaches 700 + exitBand
+ * - Enter band: a new state must be at least enterBand inside its range to count
+ * - Debounce: the new state must hold for debounceMs before it's committed
+ * Ranges narrower than 2 × enterBand can't be entered, so keep enter bands small.
+ */
+export interface HysteresisOptions {
+  enterBand: number;
+  exitBand: number;
+  debounceMs: number;
+}
+
+export class HysteresisClassifier<S extends string> {
+  private committed: S | null = null;
+  private pending: { state: S; since: number } | null = null;
+
+  constructor(
+    private classify: (value: number, profile: PlantProfile) => S,
+    private options: HysteresisOptions
+  ) {}
+
+  /**
+   * Feed a reading; returns the committed state (the first reading commits right away)
+   */
+  update(value: number, profile: PlantProfile = DEFAULT_PLANT_PROFILE, now: number = Date.now()): S {
+    const raw = this.classify(value, profile);
+    if (this.committed === null) {
+      this.committed = raw;
+      return raw;
+    }
+
+    const { enterBand, exitBand, debounceMs } = this.options;
+    const within = (state: S, band: number) =>
+      this.classify(value - band, profile) === state && this.classify(value + band, profile) === state;
+    const near = (state: S, band: number) =>
+      this.classify(value - band, profile) === state || this.classify(value + band, profile) === state;
+
+    if (raw === this.committed || near(this.committed, exitBand) || !within(raw, enterBand)) {
+      this.pending = null;
+      return this.committed;
+    }
+
+    if (!this.pending || this.pending.state !== raw) {
+      this.pending = { state: raw, since: now };
+    }
+    if (now - this.pending.since >= debounceMs) {
+      this.committed = raw;
+      this.pending = null;
+    }
+    return this.committed;
+  }
+
+  get state(): S | null {
+    return this.committed;
+  }
+
+  reset(): void {
+    this.committed = null;
+    this.pending = null;
+  }
+}
+
+export type ClassifiedSensor = 'soil' | 'temp' | 'hum' | 'mq2' | 'rain';
+
+// Bands in each sensor's units; readings are ~1 s apart
+export const DEFAULT_HYSTERESIS: Record<ClassifiedSensor, HysteresisOptions> = {
+  soil: { enterBand: 0, exitBand: 20, debounceMs: 5 * 1000 },
+  temp: { enterBand: 0, exitBand: 1, debounceMs: 10 * 1000 }, // DHT11 reads whole degrees
+  hum: { enterBand: 0, exitBand: 2, debounceMs: 10 * 1000 },
+  mq2: { enterBand: 0, exitBand: 10, debounceMs: 5 * 1000 },
+  rain: { enterBand: 0, exitBand: 30, debounceMs: 2 * 1000 },
+};
+
+// Score points; the margin below moves with every score, so it gets a wider band and a longer debounce
+export const WELLBEING_HYSTERESIS: HysteresisOptions = { enterBand: 0, exitBand: 5, debounceMs: 15 * 1000 };
+
+// Lowest score each category needs for I_FEEL_GREAT (unknown scores count as 0)
+const GREAT_SCORE_CUTOFFS = { hydrationScore: 80, comfortScore: 80, airQualityScore: 70, bioSignalScore: 40 } as const;
+
+type WateringState = 'watering' | 'not_watering';
+type WellbeingState = 'great' | 'okay';
+
+function computeWateringState(raindrop: number): WateringState {
+  return raindrop < 300 ? 'watering' : 'not_watering';
+}
+
+/**
+ * How far the lowest score is above its I_FEEL_GREAT cutoff (negative = below)
+ */
+export function wellbeingMargin(scores: PlantScores): number {
+  return Math.min(
+    ...(Object.keys(GREAT_SCORE_CUTOFFS) as (keyof typeof GREAT_SCORE_CUTOFFS)[]).map(
+      (key) => (scores[key] ?? 0) - GREAT_SCORE_CUTOFFS[key]
+    )
+  );
+}
+
+function computeWellbeingState(margin: number): WellbeingState {
+  return margin >= 0 ? 'great' : 'okay';
+}
+
+/**
+ * Stateful version of computePlantCurrentState: soil, temperature, humidity, air quality and
+ * watering states only change on committed transitions (see HysteresisClassifier)
+ * A faulty sensor's reading is skipped and its last committed state kept
+ * The bio signal state comes from the plant's BioSignalProcessor when there is one
+ * Given the scores, also commits whether they clear the I_FEEL_GREAT cutoffs (feelsGreat)
+ */
+export class PlantStateClassifier {
+  private soil: HysteresisClassifier<SoilMoistureState>;
+  private temp: HysteresisClassifier<TemperatureState>;
+  private hum: HysteresisClassifier<HumidityState>;
+  private mq2: HysteresisClassifier<AirQualityState>;
+  private rain: HysteresisClassifier<WateringState>;
+  private wellbeing = new HysteresisClassifier(computeWellbeingState, WELLBEING_HYSTERESIS);
+
+  constructor(options: Partial<Record<ClassifiedSensor, Partial<HysteresisOptions>>> = {}) {
+    const optionsFor = (sensor: ClassifiedSensor) => ({ ...DEFAULT_HYSTERESIS[sensor], ...options[sensor] });
+    this.soil = new HysteresisClassifier(computeSoilMoistureState, optionsFor('soil'));
+    this.temp = new HysteresisClassifier(computeTemperatureState, optionsFor('temp'));
+    this.hum = new HysteresisClassifier(computeHumidityState, optionsFor('hum'));
+    this.mq2 = new HysteresisClassifier(computeAirQualityState, optionsFor('mq2'));
+    this.rain = new HysteresisClassifier(computeWateringState, optionsFor('rain'));
+  }
+
+  update(
+    vitals: PlantVitalsRaw,
+    faults: SensorFault[] = [],
+    profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+    now: number = Date.now(),
+    bioSignal: BioSignalState = computeBioSignalState(vitals.bio),
+    scores?: PlantScores
+  ): PlantCurrentState {
+    const faulty = new Set(faults.map((fault) => fault.sensor));
+    const step = <S extends string>(
+      sensor: ClassifiedSensor,
+      classifier: HysteresisClassifier<S>,
+      value: number,
+      classify: (value: number, profile: PlantProfile) => S
+    ): S => {
+      if (faulty.has(sensor)) {
+        return classifier.state ?? classify(value, profile);
+      }
+      return classifier.update(value, profile, now);
+    };
+
+    return describePlantState({
+      temperature: step('temp', this.temp, vitals.temperature, computeTemperatureState),
+      humidity: step('hum', this.hum, vitals.humidity, computeHumidityState),
+      soilMoisture: step('soil', this.soil, vitals.soilMoisture, computeSoilMoistureState),
+      bioSignal,
+      airQuality: step('mq2', this.mq2, vitals.mq2, computeAirQualityState),
+      isWatering: step('rain', this.rain, vitals.raindrop, computeWateringState) === 'watering',
+      feelsGreat: scores ? this.wellbeing.update(wellbeingMargin(scores), profile, now) === 'great' : undefined,
+    });
+  }
+
+  reset(): void {
+    this.soil.reset();
+    this.temp.reset();
+    this.hum.reset();
+    this.mq2.reset();
+    this.rain.reset();
+    this.wellbeing.reset();
+  }
 }
 
 /**
  * Derive mood from scores (legacy function, kept for compatibility)
+ * Unknown scores (faulty sensors) count as neither bad nor good
  */
 export function deriveMood(scores: PlantScores): PlantMood {
   const { hydrationScore, comfortScore, airQualityScore, bioSignalScore } = scores;
+  const below = (score: number | null, limit: number) => score !== null && score < limit;
+  const above = (score: number | null, limit: number) => score !== null && score > limit;
 
-  if (hydrationScore < 10) return 'critical';
-  if (hydrationScore < 30) return 'thirsty';
-  if (comfortScore < 30 || airQualityScore < 30 || bioSignalScore < 20) return 'stressed';
+  if (below(hydrationScore, 10)) return 'critical';
+  if (below(hydrationScore, 30)) return 'thirsty';
+  if (below(comfortScore, 30) || below(airQualityScore, 30) || below(bioSignalScore, 20)) return 'stressed';
   if (
-    hydrationScore > 80 &&
-    comfortScore > 80 &&
-    airQualityScore > 70 &&
-    bioSignalScore > 40
+    above(hydrationScore, 80) &&
+    above(comfortScore, 80) &&
+    above(airQualityScore, 70) &&
+    above(bioSignalScore, 40)
   ) return 'thriving';
   return 'ok';
 }
@@ -493,9 +745,21 @@ export function deriveMood(scores: PlantScores): PlantMood {
 /**
  * Derive emotion state from current state (legacy function, kept for compatibility)
  * Maps new state system to legacy emotion states
+ * A faulty sensor wins over everything else: its reading would otherwise be taken at face value
+ * Pass currentState from a PlantStateClassifier so the emotion only changes on committed transitions
  */
-export function deriveEmotionState(scores: PlantScores, vitals: PlantVitalsRaw): EmotionState {
-  const currentState = computePlantCurrentState(vitals);
+export function deriveEmotionState(
+  scores: PlantScores,
+  vitals: PlantVitalsRaw,
+  faults: SensorFault[] = [],
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+  currentState?: PlantCurrentState
+): EmotionState {
+  if (faults.length > 0) {
+    return 'CHECK_MY_CONNECTION';
+  }
+
+  currentState ??= computePlantCurrentState(vitals, profile);
 
   // Watering detection
   if (currentState.isWatering) {
@@ -534,12 +798,7 @@ export function deriveEmotionState(scores: PlantScores, vitals: PlantVitalsRaw):
   }
 
   // Default gradients
-  if (
-    scores.hydrationScore >= 80 &&
-    scores.comfortScore >= 80 &&
-    scores.airQualityScore >= 70 &&
-    scores.bioSignalScore >= 40
-  ) {
+  if (currentState.feelsGreat ?? wellbeingMargin(scores) >= 0) {
     return 'I_FEEL_GREAT';
   }
 
@@ -548,8 +807,13 @@ export function deriveEmotionState(scores: PlantScores, vitals: PlantVitalsRaw):
 
 /**
  * Get human-readable message for emotion state
+ * CHECK_MY_CONNECTION names the failing sensors when faults are given
  */
-export function getEmotionMessage(emotion: EmotionState): string {
+export function getEmotionMessage(emotion: EmotionState, faults: SensorFault[] = []): string {
+  if (emotion === 'CHECK_MY_CONNECTION' && faults.length > 0) {
+    return `Check my clips/electrodes: ${faults.map((fault) => fault.message).join(', ')}.`;
+  }
+
   switch (emotion) {
     case 'I_NEED_WATER':
       return "I'm thirsty, please water me soon.";
@@ -575,3 +839,146 @@ export function getEmotionMessage(emotion: EmotionState): string {
       return 'Status update.';
   }
 }
+
+/**
+ * Plant lifecycle
+ * - Growth: care quality accumulates in careHours (an hour at health 100 adds 1, at health 50 adds
+ *   nothing, below 50 takes away) and the plant grows seedling → sprout → mature → blooming; it never shrinks
+ * - Neglect: WILT_AFTER_MS of sustained full-dead conditions wilts the plant, DORMANT_AFTER_MS makes it dormant
+ * - Revive: healthy conditions (health >= REVIVE_HEALTH) for REVIVE_WILTING_MS bring a wilting plant back;
+ *   a dormant plant needs REVIVE_DORMANT_MS and comes back one growth stage lower
+ */
+export const GROWTH_STAGES: GrowthStage[] = ['seedling', 'sprout', 'mature', 'blooming'];
+
+// careHours needed for each growth stage
+const GROWTH_CARE_HOURS: Record<GrowthStage, number> = {
+  seedling: 0,
+  sprout: 24,
+  mature: 7 * 24,
+  blooming: 21 * 24,
+};
+
+const LIFECYCLE_HOUR_MS = 60 * 60 * 1000;
+const WILT_AFTER_MS = 6 * LIFECYCLE_HOUR_MS;
+const DORMANT_AFTER_MS = 48 * LIFECYCLE_HOUR_MS;
+const REVIVE_HEALTH = 70;
+const REVIVE_WILTING_MS = 1 * LIFECYCLE_HOUR_MS;
+const REVIVE_DORMANT_MS = 6 * LIFECYCLE_HOUR_MS;
+// Gaps between readings longer than this (app closed, server down) count as this long
+const MAX_LIFECYCLE_STEP_MS = 5 * 60 * 1000;
+
+export function createLifecycle(now: number = Date.now()): PlantLifecycle {
+  return {
+    stage: 'seedling',
+    growthStage: 'seedling',
+    careHours: 0,
+    neglectMs: 0,
+    recoveryMs: 0,
+    stageSince: now,
+    updatedAt: null,
+  };
+}
+
+/**
+ * Growth stage a plant with this much care has reached
+ */
+export function growthStageForCare(careHours: number): GrowthStage {
+  let reached: GrowthStage = 'seedling';
+  for (const stage of GROWTH_STAGES) {
+    if (careHours >= GROWTH_CARE_HOURS[stage]) {
+      reached = stage;
+    }
+  }
+  return reached;
+}
+
+/**
+ * How far a wilting or dormant plant is towards reviving (0-1); 0 for a growing plant
+ */
+export function getReviveProgress(lifecycle: PlantLifecycle): number {
+  if (lifecycle.stage === 'wilting') {
+    return Math.min(1, lifecycle.recoveryMs / REVIVE_WILTING_MS);
+  }
+  if (lifecycle.stage === 'dormant') {
+    return Math.min(1, lifecycle.recoveryMs / REVIVE_DORMANT_MS);
+  }
+  return 0;
+}
+
+/**
+ * Fold one reading into the lifecycle (pure: returns a new object)
+ * @param health computeOverallHealth of the reading, null if unknown (faulty sensors)
+ * @param fullyNonOptimal isFullyNonOptimal of the reading
+ */
+export function advanceLifecycle(
+  lifecycle: PlantLifecycle,
+  health: number | null,
+  fullyNonOptimal: boolean,
+  now: number = Date.now()
+): PlantLifecycle {
+  const next: PlantLifecycle = { ...lifecycle, updatedAt: now };
+  if (lifecycle.updatedAt === null || now <= lifecycle.updatedAt) {
+    return next;
+  }
+  const step = Math.min(now - lifecycle.updatedAt, MAX_LIFECYCLE_STEP_MS);
+  const setStage = (stage: LifecycleStage) => {
+    if (next.stage !== stage) {
+      next.stage = stage;
+      next.stageSince = now;
+    }
+  };
+
+  next.neglectMs = fullyNonOptimal ? lifecycle.neglectMs + step : 0;
+  const healthy = health !== null && health >= REVIVE_HEALTH;
+
+  if (lifecycle.stage === 'wilting' || lifecycle.stage === 'dormant') {
+    next.recoveryMs = healthy ? lifecycle.recoveryMs + step : 0;
+    if (lifecycle.stage === 'wilting' && next.neglectMs >= DORMANT_AFTER_MS) {
+      next.recoveryMs = 0;
+      setStage('dormant');
+    } else if (lifecycle.stage === 'wilting' && next.recoveryMs >= REVIVE_WILTING_MS) {
+      next.recoveryMs = 0;
+      setStage(lifecycle.growthStage);
+    } else if (lifecycle.stage === 'dormant' && next.recoveryMs >= REVIVE_DORMANT_MS) {
+      // Dormancy costs a growth stage, and the care it took to get there
+      const index = Math.max(0, GROWTH_STAGES.indexOf(lifecycle.growthStage) - 1);
+      next.growthStage = GROWTH_STAGES[index];
+      next.careHours = Math.min(lifecycle.careHours, GROWTH_CARE_HOURS[next.growthStage]);
+      next.recoveryMs = 0;
+      setStage(next.growthStage);
+    }
+    return next;
+  }
+
+  // Growing: care quality accumulates, neglect wilts
+  if (health !== null) {
+    const quality = Math.max(-1, Math.min(1, (health - 50) / 50));
+    next.careHours = Math.max(0, lifecycle.careHours + quality * (step / LIFECYCLE_HOUR_MS));
+  }
+  const reached = growthStageForCare(next.careHours);
+  if (GROWTH_STAGES.indexOf(reached) > GROWTH_STAGES.indexOf(lifecycle.growthStage)) {
+    next.growthStage = reached;
+  }
+  setStage(next.neglectMs >= WILT_AFTER_MS ? 'wilting' : next.growthStage);
+  return next;
+}
+
+/**
+ * Event log message when the lifecycle moves to a new stage
+ */
+export function getLifecycleMessage(stage: LifecycleStage, previous: LifecycleStage): string {
+  switch (stage) {
+    case 'wilting':
+      return 'I am wilting... I need better conditions soon.';
+    case 'dormant':
+      return 'I have gone dormant. Nurse me back to health to revive me.';
+    default:
+      if (previous === 'dormant') {
+        return `I am alive again! Back to being a ${stage}.`;
+      }
+      if (previous === 'wilting') {
+        return 'Phew, I perked back up!';
+      }
+      return stage === 'blooming' ? 'I am blooming! 🌸' : `I grew into a ${stage}! 🌱`;
+  }
+}
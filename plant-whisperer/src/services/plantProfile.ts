@@ -0,0 +1,171 @@
+/**
+ * Plant profile
+ * Turns the identified species' care data (Plantbook ranges, Perenual watering level and benchmark)
+ * into the thresholds plantModel scores against and the watering reminder interval. Anything the
+ * APIs don't know falls back to the default (Philodendron Birkin) profile.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlantProfile } from '../types/plant';
+import { PlantbookFields } from './plantbook';
+import { CareFields } from './perenual';
+
+export const DEFAULT_PLANT_PROFILE: PlantProfile = {
+  species: null,
+  temp: { min: 13, max: 27 },
+  humidity: { min: 35, max: 80 },
+  soil: { wet: 400, thirsty: 700, dry: 900 },
+  wateringIntervalDays: 7,
+};
+
+// Each plant keeps its own species; the unsuffixed keys hold the species chosen before a plant was selected
+const PROFILE_KEY = 'plantProfile:v1';
+const SPECIES_NAME_KEY = 'selectedSpeciesName';
+
+function plantKey(key: string, plantId: string | null): string {
+  return plantId ? `${key}:${plantId}` : key;
+}
+
+// Raw soil reading with the probe in dry air (0% moisture) and in water (100%)
+const SOIL_RAW_AT_0_PERCENT = 1023;
+const SOIL_RAW_AT_100_PERCENT = 300;
+// Keep a usable thirsty band below the top of the ADC range
+const SOIL_THIRSTY_MAX = 960;
+
+// Where "thirsty" starts for each Perenual watering level, used when Plantbook has no soil range
+const THIRSTY_BY_WATERING: Record<string, number> = {
+  frequent: 600,
+  average: 700,
+  minimum: 820,
+  none: 900,
+};
+
+// Days between waterings for each Perenual watering level, used when there is no benchmark
+const INTERVAL_BY_WATERING: Record<string, number> = {
+  frequent: 3,
+  average: 7,
+  minimum: 14,
+  none: 30,
+};
+
+function soilPercentToRaw(percent: number): number {
+  const clamped = Math.max(0, Math.min(100, percent));
+  return Math.round(SOIL_RAW_AT_0_PERCENT - (clamped / 100) * (SOIL_RAW_AT_0_PERCENT - SOIL_RAW_AT_100_PERCENT));
+}
+
+// "Dry" starts 60% of the way from thirsty to bone dry (700 → 900 for the default profile)
+function soilDryLine(thirsty: number): number {
+  return Math.round(thirsty + (SOIL_RAW_AT_0_PERCENT - thirsty) * 0.6);
+}
+
+// A min/max pair from an API, or null if it is missing or makes no sense
+function validRange(
+  min: number | null | undefined,
+  max: number | null | undefined,
+  lowest: number,
+  highest: number
+): { min: number; max: number } | null {
+  if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max)) {
+    return null;
+  }
+  if (min < lowest || max > highest || min >= max) {
+    return null;
+  }
+  return { min, max };
+}
+
+function soilFromWateringLevel(watering: string | null | undefined): PlantProfile['soil'] | null {
+  const thirsty = THIRSTY_BY_WATERING[(watering ?? '').trim().toLowerCase()];
+  if (thirsty === undefined) {
+    return null;
+  }
+  return { wet: DEFAULT_PLANT_PROFILE.soil.wet, thirsty, dry: soilDryLine(thirsty) };
+}
+
+/**
+ * Days between waterings from Perenual's benchmark (e.g. { value: "7-10", unit: "days" })
+ * The low end of a range is used so the plant doesn't dry out; null if it can't be read
+ */
+export function parseWateringBenchmark(benchmark: CareFields['watering_general_benchmark']): number | null {
+  if (!benchmark || benchmark.value === null || benchmark.value === undefined) {
+    return null;
+  }
+  const match = String(benchmark.value).match(/\d+(\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+  const unit = (benchmark.unit ?? 'days').trim().toLowerCase();
+  const days = parseFloat(match[0]) * (unit.startsWith('week') ? 7 : 1);
+  return days >= 1 && days <= 60 ? Math.round(days) : null;
+}
+
+/**
+ * Build a profile for a species from whatever care data was found
+ */
+export function buildPlantProfile(
+  species: string,
+  plantbook?: PlantbookFields | null,
+  care?: CareFields | null
+): PlantProfile {
+  const temp = validRange(plantbook?.min_temp, plantbook?.max_temp, -20, 50) ?? DEFAULT_PLANT_PROFILE.temp;
+  const humidity =
+    validRange(plantbook?.min_env_humid, plantbook?.max_env_humid, 0, 100) ?? DEFAULT_PLANT_PROFILE.humidity;
+
+  let soil = soilFromWateringLevel(care?.watering) ?? DEFAULT_PLANT_PROFILE.soil;
+  const soilPercent = validRange(plantbook?.min_soil_moist, plantbook?.max_soil_moist, 0, 100);
+  if (soilPercent) {
+    // Higher moisture means a lower raw reading: the wettest allowed % is the "wet" line
+    const thirsty = Math.min(SOIL_THIRSTY_MAX, soilPercentToRaw(soilPercent.min));
+    soil = { wet: soilPercentToRaw(soilPercent.max), thirsty, dry: soilDryLine(thirsty) };
+  }
+
+  const wateringIntervalDays =
+    parseWateringBenchmark(care?.watering_general_benchmark) ??
+    INTERVAL_BY_WATERING[(care?.watering ?? '').trim().toLowerCase()] ??
+    DEFAULT_PLANT_PROFILE.wateringIntervalDays;
+
+  return { species, temp, humidity, soil, wateringIntervalDays };
+}
+
+/**
+ * Profile of the species identified for a plant (null = no plant selected)
+ * A plant without its own species uses the one chosen before any plant was selected, then the default profile
+ */
+export async function loadPlantProfile(plantId: string | null): Promise<PlantProfile> {
+  try {
+    const raw =
+      (plantId ? await AsyncStorage.getItem(plantKey(PROFILE_KEY, plantId)) : null) ??
+      (await AsyncStorage.getItem(PROFILE_KEY));
+    if (!raw) {
+      return DEFAULT_PLANT_PROFILE;
+    }
+    // Fill in fields a profile saved by an older version may not have
+    const stored = JSON.parse(raw) as Partial<PlantProfile>;
+    return { ...DEFAULT_PLANT_PROFILE, ...stored };
+  } catch {
+    return DEFAULT_PLANT_PROFILE;
+  }
+}
+
+export async function savePlantProfile(plantId: string | null, profile: PlantProfile): Promise<void> {
+  try {
+    await AsyncStorage.setItem(plantKey(PROFILE_KEY, plantId), JSON.stringify(profile));
+  } catch {}
+}
+
+/**
+ * Remember the species chosen for a plant (identified by photo or picked by hand) and its profile
+ */
+export async function saveSelectedSpecies(
+  plantId: string | null,
+  species: string,
+  plantbook?: PlantbookFields | null,
+  care?: CareFields | null
+): Promise<PlantProfile> {
+  const profile = buildPlantProfile(species, plantbook, care);
+  try {
+    await AsyncStorage.setItem(plantKey(SPECIES_NAME_KEY, plantId), species);
+  } catch {}
+  await savePlantProfile(plantId, profile);
+  return profile;
+}
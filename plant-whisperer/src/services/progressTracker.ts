@@ -0,0 +1,380 @@
+/**
+ * Plant progression: XP, levels, care streaks and achievements, kept per plant in AsyncStorage
+ * - Live readings (from the plant's sensors, not sim or mock) are rolled up per clock hour; an hour
+ *   whose average computeOverallHealth is at least HEALTHY_THRESHOLD earns XP_PER_HEALTHY_HOUR
+ * - Care reminders done on time earn XP_ON_TIME (late ones XP_LATE); a watering the rain sensor
+ *   sees is only on time while the watering reminder is due
+ * - A care day is one with a reminder done on time, or with only healthy hours; consecutive care
+ *   days make the streak
+ * - Hours are rolled up into days for the day-based achievements (hydrated days, heatwaves)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Achievement, AchievementId, PlantProfile, PlantProgress, Reminder, SensorFault, SensorState } from '../types/plant';
+import { computeOverallHealth, computeSoilMoistureState } from './plantModel';
+import { DEFAULT_PLANT_PROFILE } from './plantProfile';
+
+export interface ProgressUpdate {
+  progress: PlantProgress;
+  levelUps: number[];        // levels reached by this update, lowest first
+  unlocked: Achievement[];   // achievements unlocked by this update
+}
+
+export type ProgressListener = (plantId: string | null, progress: PlantProgress) => void;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-drink', title: 'First drink', description: 'Water your plant for the first time', icon: '💧' },
+  { id: 'good-day', title: 'A good day', description: '24 healthy hours', icon: '🌞' },
+  { id: 'reliable-gardener', title: 'Reliable gardener', description: 'Finish 5 reminders on time', icon: '⏰' },
+  { id: 'week-streak', title: 'One week of care', description: 'A 7-day care streak', icon: '🔥' },
+  { id: 'month-streak', title: 'Care champion', description: 'A 30-day care streak', icon: '🏆' },
+  { id: 'hydrated-30', title: '30 days hydrated', description: '30 days without thirsty soil', icon: '🌊' },
+  { id: 'heatwave', title: 'Survived a heatwave', description: '3 hot hours in a day without the soil drying out', icon: '🥵' },
+  { id: 'level-5', title: 'Blooming', description: 'Reach level 5', icon: '🌸' },
+  { id: 'level-10', title: 'Mighty tree', description: 'Reach level 10', icon: '🌳' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const HEALTHY_THRESHOLD = 70;
+const XP_PER_HEALTHY_HOUR = 10;
+const XP_ON_TIME = 25;
+const XP_LATE = 5;
+// Hot hours (average above the species' optimal max) in one day that make a heatwave
+const HEATWAVE_HOURS = 3;
+const FLUSH_DELAY_MS = 30 * 1000;
+
+const STORAGE_PREFIX = 'progress:v1:';
+const ALL_PLANTS_KEY = 'all'; // progress made before a plant was selected
+
+// Hour being rolled up
+interface HourStats {
+  t: number; // hour start, ms since epoch
+  healthSum: number;
+  healthN: number;
+  tempSum: number;
+  tempN: number;
+  soilMax: number | null; // driest soil reading
+}
+
+// Day being rolled up, from closed hours
+interface DayStats {
+  day: string; // local YYYY-MM-DD
+  healthyHours: number;
+  unhealthyHours: number;
+  hotHours: number;
+  dryWhileHot: boolean;
+  thirstyHours: number;
+  hydratedHours: number;
+}
+
+// Shape written to AsyncStorage
+interface StoredProgress extends PlantProgress {
+  hour: HourStats | null;
+  today: DayStats | null;
+}
+
+const EMPTY_PROGRESS: StoredProgress = {
+  xp: 0,
+  level: 1,
+  healthyHours: 0,
+  onTimeReminders: 0,
+  waterings: 0,
+  hydratedDays: 0,
+  streak: { days: 0, best: 0, lastDay: null },
+  achievements: {},
+  hour: null,
+  today: null,
+};
+
+/**
+ * Total XP needed to reach a level: 0, 100, 300, 600, 1000, ... (each level takes 100 more than the last)
+ */
+export function xpForLevel(level: number): number {
+  return 50 * level * (level - 1);
+}
+
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) {
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Care streak as of now: a streak whose last care day is before yesterday is over
+ */
+export function currentStreak(progress: PlantProgress, now: number = Date.now()): number {
+  const { lastDay, days } = progress.streak;
+  if (!lastDay) {
+    return 0;
+  }
+  const today = dayKey(now);
+  return lastDay === today || lastDay === previousDay(today) ? days : 0;
+}
+
+export function getAchievement(id: AchievementId): Achievement {
+  return ACHIEVEMENTS.find((achievement) => achievement.id === id) as Achievement;
+}
+
+function dayKey(t: number): string {
+  const date = new Date(t);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function previousDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return dayKey(new Date(year, month - 1, date - 1).getTime());
+}
+
+function emptyDay(day: string): DayStats {
+  return { day, healthyHours: 0, unhealthyHours: 0, hotHours: 0, dryWhileHot: false, thirstyHours: 0, hydratedHours: 0 };
+}
+
+// Public part of the stored progress
+function publicProgress(stored: StoredProgress): PlantProgress {
+  const { hour, today, ...progress } = stored;
+  return { ...progress, streak: { ...progress.streak }, achievements: { ...progress.achievements } };
+}
+
+class ProgressTracker {
+  private plants = new Map<string, Promise<StoredProgress>>();
+  private listeners: Set<ProgressListener> = new Set();
+  private dirty = new Set<string>();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Progress of a plant (null = no plant selected)
+   */
+  async get(plantId: string | null): Promise<PlantProgress> {
+    return publicProgress(await this.load(plantId ?? ALL_PLANTS_KEY));
+  }
+
+  /**
+   * Count a live reading; XP is only awarded once its hour is over
+   */
+  async record(
+    plantId: string | null,
+    reading: SensorState,
+    faults: SensorFault[] = [],
+    profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+    now: number = Date.now()
+  ): Promise<ProgressUpdate> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const stored = await this.load(key);
+    const before = publicProgress(stored);
+
+    const hourStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+    if (stored.hour && stored.hour.t !== hourStart) {
+      this.closeHour(stored, stored.hour, profile, now);
+      stored.hour = null;
+    }
+    if (!stored.hour) {
+      stored.hour = { t: hourStart, healthSum: 0, healthN: 0, tempSum: 0, tempN: 0, soilMax: null };
+    }
+
+    const hour = stored.hour;
+    const health = computeOverallHealth(reading.soil, reading.temp, reading.hum, reading.mq2, faults, profile);
+    if (health !== null) {
+      hour.healthSum += health;
+      hour.healthN++;
+    }
+    if (!faults.some((fault) => fault.sensor === 'temp')) {
+      hour.tempSum += reading.temp;
+      hour.tempN++;
+    }
+    if (!faults.some((fault) => fault.sensor === 'soil')) {
+      hour.soilMax = Math.max(hour.soilMax ?? reading.soil, reading.soil);
+    }
+
+    return this.finish(plantId, key, stored, before, now);
+  }
+
+  /**
+   * A care reminder was done (or the rain sensor saw a watering); on time when it wasn't overdue
+   */
+  async recordCare(
+    plantId: string | null,
+    type: Reminder['type'],
+    onTime: boolean,
+    now: number = Date.now()
+  ): Promise<ProgressUpdate> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const stored = await this.load(key);
+    const before = publicProgress(stored);
+
+    stored.xp += onTime ? XP_ON_TIME : XP_LATE;
+    if (type === 'water') {
+      stored.waterings++;
+    }
+    if (onTime) {
+      stored.onTimeReminders++;
+      this.markCareDay(stored, dayKey(now));
+    }
+
+    const update = this.finish(plantId, key, stored, before, now);
+    await this.flush();
+    return update;
+  }
+
+  /**
+   * Subscribe to progress changes
+   */
+  onChange(callback: ProgressListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Write pending changes now (e.g. when the app goes to the background)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    const keys = Array.from(this.dirty);
+    this.dirty.clear();
+    for (const key of keys) {
+      const stored = await this.load(key);
+      try {
+        await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(stored));
+      } catch (error) {
+        console.warn('Could not save plant progress:', error);
+      }
+    }
+  }
+
+  // Award a finished hour and roll it into its day
+  private closeHour(stored: StoredProgress, hour: HourStats, profile: PlantProfile, now: number): void {
+    const day = dayKey(hour.t);
+    if (stored.today && stored.today.day !== day) {
+      this.closeDay(stored, stored.today, now);
+      stored.today = null;
+    }
+    const today = stored.today ?? (stored.today = emptyDay(day));
+
+    if (hour.healthN > 0) {
+      if (hour.healthSum / hour.healthN >= HEALTHY_THRESHOLD) {
+        stored.xp += XP_PER_HEALTHY_HOUR;
+        stored.healthyHours++;
+        today.healthyHours++;
+      } else {
+        today.unhealthyHours++;
+      }
+    }
+    if (hour.soilMax !== null) {
+      const soilState = computeSoilMoistureState(hour.soilMax, profile);
+      if (soilState === 'thirsty' || soilState === 'dry') {
+        today.thirstyHours++;
+      } else {
+        today.hydratedHours++;
+      }
+      if (hour.tempN > 0 && hour.tempSum / hour.tempN > profile.temp.max) {
+        today.hotHours++;
+        today.dryWhileHot = today.dryWhileHot || soilState === 'dry';
+      }
+    }
+  }
+
+  private closeDay(stored: StoredProgress, day: DayStats, now: number): void {
+    if (day.healthyHours > 0 && day.unhealthyHours === 0) {
+      this.markCareDay(stored, day.day);
+    }
+    if (day.hydratedHours > 0 && day.thirstyHours === 0) {
+      stored.hydratedDays++;
+    }
+    if (day.hotHours >= HEATWAVE_HOURS && !day.dryWhileHot && !stored.achievements.heatwave) {
+      stored.achievements.heatwave = now;
+    }
+  }
+
+  private markCareDay(stored: StoredProgress, day: string): void {
+    const { streak } = stored;
+    if (streak.lastDay !== null && day <= streak.lastDay) {
+      return; // already counted (or an older day closing late)
+    }
+    streak.days = streak.lastDay === previousDay(day) ? streak.days + 1 : 1;
+    streak.best = Math.max(streak.best, streak.days);
+    streak.lastDay = day;
+  }
+
+  // Level up, unlock achievements, save and notify
+  private finish(
+    plantId: string | null,
+    key: string,
+    stored: StoredProgress,
+    before: PlantProgress,
+    now: number
+  ): ProgressUpdate {
+    stored.level = levelForXp(stored.xp);
+
+    const earned: Record<AchievementId, boolean> = {
+      'first-drink': stored.waterings >= 1,
+      'good-day': stored.healthyHours >= 24,
+      'reliable-gardener': stored.onTimeReminders >= 5,
+      'week-streak': stored.streak.best >= 7,
+      'month-streak': stored.streak.best >= 30,
+      'hydrated-30': stored.hydratedDays >= 30,
+      heatwave: !!stored.achievements.heatwave,
+      'level-5': stored.level >= 5,
+      'level-10': stored.level >= 10,
+    };
+    for (const achievement of ACHIEVEMENTS) {
+      if (earned[achievement.id] && !stored.achievements[achievement.id]) {
+        stored.achievements[achievement.id] = now;
+      }
+    }
+
+    const levelUps: number[] = [];
+    for (let level = before.level + 1; level <= stored.level; level++) {
+      levelUps.push(level);
+    }
+    const unlocked = ACHIEVEMENTS.filter(
+      (achievement) => stored.achievements[achievement.id] && !before.achievements[achievement.id]
+    );
+
+    const progress = publicProgress(stored);
+    if (JSON.stringify(progress) !== JSON.stringify(before)) {
+      this.listeners.forEach((callback) => callback(plantId, progress));
+    }
+    this.dirty.add(key);
+    this.scheduleFlush();
+    return { progress, levelUps, unlocked };
+  }
+
+  private load(key: string): Promise<StoredProgress> {
+    let stored = this.plants.get(key);
+    if (!stored) {
+      stored = AsyncStorage.getItem(STORAGE_PREFIX + key)
+        .then((raw) => (raw ? (JSON.parse(raw) as Partial<StoredProgress>) : {}))
+        .catch((): Partial<StoredProgress> => ({}))
+        .then((loaded) => ({
+          ...EMPTY_PROGRESS,
+          ...loaded,
+          streak: { ...EMPTY_PROGRESS.streak, ...loaded.streak },
+          achievements: { ...loaded.achievements },
+        }));
+      this.plants.set(key, stored);
+    }
+    return stored;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) {
+      return;
+    }
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+// Export singleton instance
+export const progressTracker = new ProgressTracker();
@@ -0,0 +1,332 @@
+/**
+ * Care reminder scheduler
+ * Recurring water / check / fertilize reminders for each plant, kept in AsyncStorage:
+ * - Watering comes round every profile.wateringIntervalDays (seeded from Perenual's watering benchmark)
+ * - Complete and skip move a reminder to its next occurrence; snooze hides it for a while
+ * - Watering seen by the rain sensor counts as completing the watering reminder
+ * - Once the watering forecast has enough soil history, it sets when the watering reminder is due
+ * - Each upcoming occurrence has a local notification scheduled for when it falls due
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Reminder, ReminderSchedule } from '../types/plant';
+
+type ReminderType = Reminder['type'];
+
+export type ReminderListener = (plantId: string | null, schedules: ReminderSchedule[]) => void;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_SNOOZE_MS = 2 * 60 * 60 * 1000;
+// A reminder left this long past its due time is shown as urgent
+const URGENT_AFTER_MS = DAY_MS;
+// Rain sensor readings this close to the last watering belong to the same watering
+const WATERING_DEBOUNCE_MS = 60 * 60 * 1000;
+// Forecast due dates closer than this to the current one leave the reminder alone
+const FORECAST_TOLERANCE_MS = 60 * 60 * 1000;
+
+const STORAGE_PREFIX = 'reminders:v1:';
+const ALL_PLANTS_KEY = 'all'; // reminders kept before a plant was selected
+const CHANNEL_ID = 'care-reminders';
+
+const REMINDER_TYPES: ReminderType[] = ['water', 'check', 'fertilize'];
+
+// Checking and feeding don't depend on the species
+const FIXED_INTERVAL_DAYS: Record<Exclude<ReminderType, 'water'>, number> = {
+  check: 3,
+  fertilize: 30,
+};
+
+const MESSAGES: Record<ReminderType, string> = {
+  water: 'Time to water your plant!',
+  check: 'Time to check on your plant (leaves, pests, soil).',
+  fertilize: 'Time to give your plant some fertilizer.',
+};
+
+const supportsNotifications = Platform.OS !== 'web';
+
+if (supportsNotifications) {
+  // Show reminders that fall due while the app is open too
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+class ReminderScheduler {
+  private plants = new Map<string, Promise<ReminderSchedule[]>>();
+  private listeners: Set<ReminderListener> = new Set();
+  private notificationsReady: Promise<boolean> | null = null;
+
+  /**
+   * Create any missing reminders for a plant and apply its watering interval
+   * (a newly identified species moves the next watering accordingly)
+   */
+  async sync(plantId: string | null, wateringIntervalDays: number, now: number = Date.now()): Promise<ReminderSchedule[]> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const schedules = await this.load(key);
+    let changed = false;
+
+    for (const type of REMINDER_TYPES) {
+      const intervalDays = type === 'water' ? wateringIntervalDays : FIXED_INTERVAL_DAYS[type];
+      const existing = schedules.find((schedule) => schedule.type === type);
+      if (!existing) {
+        const schedule: ReminderSchedule = {
+          id: `${key}:${type}`,
+          type,
+          intervalDays,
+          nextDue: now + intervalDays * DAY_MS,
+          snoozedUntil: null,
+          lastDoneAt: null,
+          notificationId: null,
+        };
+        schedules.push(schedule);
+        await this.scheduleNotification(schedule, now);
+        changed = true;
+      } else if (existing.intervalDays !== intervalDays) {
+        // Keep the cycle's starting point, only its length changes
+        const cycleStart = existing.lastDoneAt ?? existing.nextDue - existing.intervalDays * DAY_MS;
+        existing.intervalDays = intervalDays;
+        existing.nextDue = cycleStart + intervalDays * DAY_MS;
+        await this.scheduleNotification(existing, now);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.save(key, schedules);
+    }
+    return schedules.slice();
+  }
+
+  /**
+   * Reminders that are due (and not snoozed), urgent ones first
+   */
+  async getDue(plantId: string | null, now: number = Date.now()): Promise<Reminder[]> {
+    const schedules = await this.load(plantId ?? ALL_PLANTS_KEY);
+    return schedules
+      .filter((schedule) => effectiveDue(schedule) <= now)
+      .map((schedule) => ({
+        id: schedule.id,
+        type: schedule.type,
+        message: MESSAGES[schedule.type],
+        dueDate: new Date(schedule.nextDue),
+        isUrgent: now - schedule.nextDue >= URGENT_AFTER_MS,
+      }))
+      .sort((a, b) => Number(!!b.isUrgent) - Number(!!a.isUrgent) || a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  /**
+   * Mark a reminder done; the next occurrence is one interval from now
+   */
+  async complete(plantId: string | null, reminderId: string, now: number = Date.now()): Promise<ReminderSchedule | null> {
+    return this.update(plantId, reminderId, now, (schedule) => {
+      schedule.lastDoneAt = now;
+      schedule.nextDue = now + schedule.intervalDays * DAY_MS;
+      schedule.snoozedUntil = null;
+    });
+  }
+
+  /**
+   * Skip this occurrence without doing it
+   */
+  async skip(plantId: string | null, reminderId: string, now: number = Date.now()): Promise<ReminderSchedule | null> {
+    return this.update(plantId, reminderId, now, (schedule) => {
+      schedule.nextDue = now + schedule.intervalDays * DAY_MS;
+      schedule.snoozedUntil = null;
+    });
+  }
+
+  /**
+   * Hide a due reminder for a while
+   */
+  async snooze(
+    plantId: string | null,
+    reminderId: string,
+    durationMs: number = DEFAULT_SNOOZE_MS,
+    now: number = Date.now()
+  ): Promise<ReminderSchedule | null> {
+    return this.update(plantId, reminderId, now, (schedule) => {
+      schedule.snoozedUntil = now + durationMs;
+    });
+  }
+
+  /**
+   * The rain sensor saw the plant being watered: count it as the watering reminder done
+   * Returns the watering schedule and whether the reminder was due but not yet overdue (a watering
+   * nobody was reminded of isn't on time), or null if this watering was already counted
+   */
+  async recordWatering(
+    plantId: string | null,
+    now: number = Date.now()
+  ): Promise<{ schedule: ReminderSchedule; onTime: boolean } | null> {
+    const schedules = await this.load(plantId ?? ALL_PLANTS_KEY);
+    const water = schedules.find((schedule) => schedule.type === 'water');
+    if (!water || (water.lastDoneAt !== null && now - water.lastDoneAt < WATERING_DEBOUNCE_MS)) {
+      return null;
+    }
+    const onTime = water.nextDue <= now && now - water.nextDue < URGENT_AFTER_MS;
+    const schedule = await this.complete(plantId, water.id, now);
+    return schedule ? { schedule, onTime } : null;
+  }
+
+  /**
+   * Dry soil: make the watering reminder due now instead of waiting for its date
+   * Notifies right away; does nothing if it is already due, snoozed or was just done
+   * (the soil takes a while to read wet after watering)
+   */
+  async bringWateringForward(plantId: string | null, now: number = Date.now()): Promise<void> {
+    const schedules = await this.load(plantId ?? ALL_PLANTS_KEY);
+    const water = schedules.find((schedule) => schedule.type === 'water');
+    if (
+      !water ||
+      water.nextDue <= now ||
+      (water.snoozedUntil ?? 0) > now ||
+      (water.lastDoneAt !== null && now - water.lastDoneAt < WATERING_DEBOUNCE_MS)
+    ) {
+      return;
+    }
+    await this.update(plantId, water.id, now, (schedule) => {
+      schedule.nextDue = now;
+    });
+    await this.presentNow(MESSAGES.water);
+  }
+
+  /**
+   * Move the watering reminder to when the soil is forecast to turn thirsty
+   * Left alone while snoozed, and when the forecast is within FORECAST_TOLERANCE_MS of the current date
+   */
+  async setWateringDue(plantId: string | null, dueAt: number, now: number = Date.now()): Promise<void> {
+    const schedules = await this.load(plantId ?? ALL_PLANTS_KEY);
+    const water = schedules.find((schedule) => schedule.type === 'water');
+    const due = Math.max(now, Math.round(dueAt));
+    if (
+      !water ||
+      (water.snoozedUntil ?? 0) > now ||
+      Math.abs(Math.max(water.nextDue, now) - due) < FORECAST_TOLERANCE_MS
+    ) {
+      return;
+    }
+    await this.update(plantId, water.id, now, (schedule) => {
+      schedule.nextDue = due;
+    });
+  }
+
+  /**
+   * Subscribe to reminder changes
+   */
+  onChange(callback: ReminderListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private async update(
+    plantId: string | null,
+    reminderId: string,
+    now: number,
+    change: (schedule: ReminderSchedule) => void
+  ): Promise<ReminderSchedule | null> {
+    const key = plantId ?? ALL_PLANTS_KEY;
+    const schedules = await this.load(key);
+    const schedule = schedules.find((candidate) => candidate.id === reminderId);
+    if (!schedule) {
+      return null;
+    }
+    change(schedule);
+    await this.scheduleNotification(schedule, now);
+    await this.save(key, schedules);
+    this.listeners.forEach((callback) => callback(plantId, schedules.slice()));
+    return schedule;
+  }
+
+  private load(key: string): Promise<ReminderSchedule[]> {
+    let schedules = this.plants.get(key);
+    if (!schedules) {
+      schedules = AsyncStorage.getItem(STORAGE_PREFIX + key)
+        .then((raw) => (raw ? (JSON.parse(raw) as ReminderSchedule[]) : []))
+        .catch((): ReminderSchedule[] => []);
+      this.plants.set(key, schedules);
+    }
+    return schedules;
+  }
+
+  private async save(key: string, schedules: ReminderSchedule[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(schedules));
+    } catch (error) {
+      console.warn('Could not save reminders:', error);
+    }
+  }
+
+  // Replace the schedule's pending notification with one for its next due time
+  private async scheduleNotification(schedule: ReminderSchedule, now: number): Promise<void> {
+    if (schedule.notificationId) {
+      const notificationId = schedule.notificationId;
+      schedule.notificationId = null;
+      await Notifications.cancelScheduledNotificationAsync(notificationId).catch(() => {});
+    }
+    const due = effectiveDue(schedule);
+    if (due <= now || !(await this.ensureNotifications())) {
+      return;
+    }
+    try {
+      schedule.notificationId = await Notifications.scheduleNotificationAsync({
+        content: { title: 'Plant Whisperer', body: MESSAGES[schedule.type] },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: due, channelId: CHANNEL_ID },
+      });
+    } catch (error) {
+      console.warn('Could not schedule reminder notification:', error);
+    }
+  }
+
+  private async presentNow(body: string): Promise<void> {
+    if (!(await this.ensureNotifications())) {
+      return;
+    }
+    await Notifications.scheduleNotificationAsync({
+      content: { title: 'Plant Whisperer', body },
+      trigger: null,
+    }).catch(() => {});
+  }
+
+  // Ask for permission (once) and create the Android channel
+  private ensureNotifications(): Promise<boolean> {
+    if (!supportsNotifications) {
+      return Promise.resolve(false);
+    }
+    if (!this.notificationsReady) {
+      this.notificationsReady = (async () => {
+        try {
+          if (Platform.OS === 'android') {
+            await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+              name: 'Care reminders',
+              importance: Notifications.AndroidImportance.DEFAULT,
+            });
+          }
+          const current = await Notifications.getPermissionsAsync();
+          if (current.granted) {
+            return true;
+          }
+          return (await Notifications.requestPermissionsAsync()).granted;
+        } catch {
+          return false;
+        }
+      })();
+    }
+    return this.notificationsReady;
+  }
+}
+
+function effectiveDue(schedule: ReminderSchedule): number {
+  return Math.max(schedule.nextDue, schedule.snoozedUntil ?? 0);
+}
+
+// Export singleton instance
+export const reminderScheduler = new ReminderScheduler();
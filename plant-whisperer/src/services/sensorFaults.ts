@@ -0,0 +1,163 @@
+/**
+ * Sensor fault detection
+ * Tells a broken sensor apart from a plant in trouble, so a loose clip doesn't
+ * show up as a freezing, bone-dry plant:
+ * - Zero: the firmware turns DHT NaN readings into temp = 0 and hum = 0
+ * - Rail: an analog channel pinned at 0 or 1023 (unplugged or shorted)
+ * - Frozen: an analog channel that stops jittering while the others keep changing
+ * - Jump: a change no real room can make between two readings (e.g. +15°C in a second)
+ */
+
+import { SensorState, SensorFault, SensorFaultKind } from '../types/plant';
+
+type SensorField = keyof SensorState;
+
+interface ChannelRule {
+  zero?: boolean;      // exactly 0 means the sensor didn't answer
+  rails?: number[];    // ADC values that mean the pin is floating or shorted
+  frozenAfter?: number; // unchanged for this many distinct readings
+  maxJump?: number;    // largest plausible change between two readings
+}
+
+// Readings are ~1 s apart. Rules are per channel because a value that means "broken" on one
+// sensor is real on another: mq2 at 1023 can be actual smoke, rain at ~1020 is a dry sensor,
+// and DHT11 temp/hum are integers that can sit still for hours.
+const CHANNEL_RULES: Record<SensorField, ChannelRule> = {
+  soil: { rails: [0, 1023], frozenAfter: 60 },
+  temp: { zero: true, maxJump: 8 },
+  hum: { zero: true, maxJump: 30 },
+  mq2: { rails: [0], frozenAfter: 60 },
+  rain: { rails: [0] },
+  bio: { rails: [0, 1023], frozenAfter: 30 },
+};
+
+export const SENSOR_NAMES: Record<SensorField, string> = {
+  soil: 'soil moisture sensor',
+  temp: 'temperature sensor',
+  hum: 'humidity sensor',
+  mq2: 'air quality sensor',
+  rain: 'rain sensor',
+  bio: 'BioAmp electrodes',
+};
+
+// A jumped value is trusted once it has held this long (it was a real change after all)
+const JUMP_SETTLE_MS = 30 * 1000;
+// Readings further apart than this aren't compared for jumps
+const JUMP_MAX_GAP_MS = 60 * 1000;
+
+interface ChannelState {
+  trusted: number | null;
+  jumpSince: number | null;
+  unchangedCount: number;
+}
+
+function faultMessage(sensor: SensorField, kind: SensorFaultKind, value: number): string {
+  const name = SENSOR_NAMES[sensor];
+  switch (kind) {
+    case 'zero':
+      return `${name} reads 0 (not responding)`;
+    case 'rail':
+      return `${name} is stuck at ${value} (unplugged or shorted)`;
+    case 'frozen':
+      return `${name} stopped changing at ${value}`;
+    case 'jump':
+      return `${name} jumped to an impossible ${value}`;
+    case 'detached':
+      return `${name} look detached from the leaf`;
+  }
+}
+
+/**
+ * A fault found outside this detector (e.g. electrode detachment from the bio-signal processor)
+ */
+export function createFault(sensor: SensorField, kind: SensorFaultKind, value: number): SensorFault {
+  return { sensor, kind, value, message: faultMessage(sensor, kind, value) };
+}
+
+export class SensorFaultDetector {
+  private channels = new Map<SensorField, ChannelState>();
+  private lastReading: SensorState | null = null;
+  private lastAt = 0;
+
+  /**
+   * Check a live reading; returns the faults it shows (empty if every sensor looks fine)
+   */
+  check(reading: SensorState, now: number = Date.now()): SensorFault[] {
+    // Repeats of the whole reading (server rebroadcasts, mock mode) say nothing about frozen channels
+    const isRepeat = this.lastReading !== null && sameReading(this.lastReading, reading);
+    const gapTooLong = now - this.lastAt > JUMP_MAX_GAP_MS;
+    const faults: SensorFault[] = [];
+
+    for (const sensor of Object.keys(CHANNEL_RULES) as SensorField[]) {
+      const rule = CHANNEL_RULES[sensor];
+      const value = reading[sensor];
+      const state = this.stateFor(sensor);
+      let kind: SensorFaultKind | null = null;
+
+      if (rule.zero && value === 0) {
+        kind = 'zero';
+      } else if (rule.rails?.includes(value)) {
+        kind = 'rail';
+      }
+
+      if (rule.frozenAfter && !isRepeat && this.lastReading) {
+        state.unchangedCount = value === this.lastReading[sensor] ? state.unchangedCount + 1 : 0;
+        if (!kind && state.unchangedCount >= rule.frozenAfter) {
+          kind = 'frozen';
+        }
+      }
+
+      if (rule.maxJump !== undefined && kind !== 'zero') {
+        if (state.trusted === null || gapTooLong || Math.abs(value - state.trusted) <= rule.maxJump) {
+          state.trusted = value;
+          state.jumpSince = null;
+        } else {
+          state.jumpSince ??= now;
+          if (now - state.jumpSince >= JUMP_SETTLE_MS) {
+            state.trusted = value;
+            state.jumpSince = null;
+          } else if (!kind) {
+            kind = 'jump';
+          }
+        }
+      }
+
+      if (kind) {
+        faults.push({ sensor, kind, value, message: faultMessage(sensor, kind, value) });
+      }
+    }
+
+    this.lastReading = { ...reading };
+    this.lastAt = now;
+    return faults;
+  }
+
+  /**
+   * Forget history (e.g. after switching to another plant's board)
+   */
+  reset(): void {
+    this.channels.clear();
+    this.lastReading = null;
+    this.lastAt = 0;
+  }
+
+  private stateFor(sensor: SensorField): ChannelState {
+    let state = this.channels.get(sensor);
+    if (!state) {
+      state = { trusted: null, jumpSince: null, unchangedCount: 0 };
+      this.channels.set(sensor, state);
+    }
+    return state;
+  }
+}
+
+function sameReading(a: SensorState, b: SensorState): boolean {
+  return (Object.keys(CHANNEL_RULES) as SensorField[]).every((sensor) => a[sensor] === b[sensor]);
+}
+
+/**
+ * Whether any of the given sensors is faulty
+ */
+export function hasFault(faults: SensorFault[], ...sensors: SensorField[]): boolean {
+  return faults.some((fault) => sensors.includes(fault.sensor));
+}
@@ -0,0 +1,269 @@
+/**
+ * Finding and remembering the sensor server
+ * - The server advertises itself over mDNS/DNS-SD as _plantagotchi._tcp; browsing needs the
+ *   react-native-zeroconf native module (development build), so Expo Go and web can't browse
+ * - Pairing by QR code works everywhere: the server's web UI shows a plantwhisperer://pair link
+ * - The chosen server is kept in AsyncStorage, so discovery only runs until one has been picked,
+ *   or again when the saved address stops answering (e.g. the server got a new DHCP lease)
+ */
+
+import { NativeModules, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Zeroconf, { ZeroconfService } from 'react-native-zeroconf';
+
+export type ServerSource = 'mdns' | 'qr' | 'manual';
+
+export interface SavedServer {
+  url: string; // WebSocket URL, e.g. ws://192.168.1.20:4000/ws
+  name: string;
+  source: ServerSource;
+  savedAt: number;
+}
+
+export interface DiscoveredServer {
+  name: string;
+  url: string;
+  host: string;
+}
+
+export type ServerListener = (server: SavedServer | null) => void;
+
+const STORAGE_KEY = 'server:v1';
+const SERVICE_TYPE = 'plantagotchi';
+// How long the first launch browses before falling back to the default addresses
+const DISCOVERY_TIMEOUT_MS = 4000;
+
+/**
+ * Server address from a scanned QR code: a plantwhisperer://pair?url=...&name=... link,
+ * or a plain ws:// / http:// address (http is turned into the server's /ws endpoint)
+ */
+export function parsePairingLink(data: string): { url: string; name: string | null } | null {
+  const text = data.trim();
+  let url: string | null = text;
+  let name: string | null = null;
+
+  if (/^plantwhisperer:\/\/pair\b/i.test(text)) {
+    const params = queryParams(text);
+    url = params.url ?? null;
+    name = params.name ?? null;
+  }
+  if (!url) {
+    return null;
+  }
+  const match = url.match(/^(wss?|https?):\/\/([^/?#\s]+)(\/[^?#\s]*)?/i);
+  if (!match) {
+    return null;
+  }
+  const scheme = match[1].toLowerCase();
+  if (scheme.startsWith('http')) {
+    return { url: `${scheme === 'https' ? 'wss' : 'ws'}://${match[2]}/ws`, name };
+  }
+  return { url: `${scheme}://${match[2]}${match[3] ?? '/ws'}`, name };
+}
+
+function queryParams(link: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const query = link.split('?')[1]?.split('#')[0] ?? '';
+  for (const pair of query.split('&')) {
+    const [key, value = ''] = pair.split('=');
+    if (key) {
+      try {
+        params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+      } catch {
+        // Skip malformed escapes
+      }
+    }
+  }
+  return params;
+}
+
+/**
+ * WebSocket URL of a resolved DNS-SD service; IPv4 first since that's what the server binds
+ */
+function serviceUrl(service: ZeroconfService): string | null {
+  const address =
+    service.addresses?.find((candidate) => /^\d+\.\d+\.\d+\.\d+$/.test(candidate)) ??
+    service.addresses?.[0] ??
+    service.host?.replace(/\.$/, '');
+  if (!address || !service.port) {
+    return null;
+  }
+  const host = address.includes(':') ? `[${address}]` : address;
+  const path = service.txt?.path || '/ws';
+  return `ws://${host}:${service.port}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+class ServerDiscovery {
+  private saved: Promise<SavedServer | null> | null = null;
+  private listeners: Set<ServerListener> = new Set();
+
+  /**
+   * Whether mDNS browsing is available (not in Expo Go or on web)
+   */
+  isSupported(): boolean {
+    return Platform.OS !== 'web' && !!NativeModules.RNZeroconf;
+  }
+
+  /**
+   * The server picked earlier, if any
+   */
+  getSavedServer(): Promise<SavedServer | null> {
+    if (!this.saved) {
+      this.saved = AsyncStorage.getItem(STORAGE_KEY)
+        .then((stored) => {
+          const server = stored ? JSON.parse(stored) : null;
+          return server && typeof server.url === 'string' ? (server as SavedServer) : null;
+        })
+        .catch((error) => {
+          console.warn('Failed to load saved server:', error);
+          return null;
+        });
+    }
+    return this.saved;
+  }
+
+  /**
+   * Remember a server and tell listeners, so the connection moves to it
+   */
+  async saveServer(url: string, name: string | null, source: ServerSource): Promise<SavedServer> {
+    const server: SavedServer = { url, name: name || url, source, savedAt: Date.now() };
+    this.saved = Promise.resolve(server);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(server));
+    } catch (error) {
+      console.warn('Failed to save server:', error);
+    }
+    this.notify(server);
+    return server;
+  }
+
+  /**
+   * Forget the saved server; the next connection looks for one again
+   */
+  async forgetServer(): Promise<void> {
+    this.saved = Promise.resolve(null);
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to forget server:', error);
+    }
+    this.notify(null);
+  }
+
+  /**
+   * Subscribe to the saved server changing
+   */
+  onServerChange(listener: ServerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Browse for servers; onUpdate gets the full list whenever it changes
+   * @returns Function that stops browsing
+   */
+  browse(onUpdate: (servers: DiscoveredServer[]) => void): () => void {
+    if (!this.isSupported()) {
+      return () => {};
+    }
+    const servers = new Map<string, DiscoveredServer>();
+    const zeroconf = new Zeroconf();
+
+    zeroconf.on('resolved', (service) => {
+      const url = serviceUrl(service);
+      if (url) {
+        servers.set(service.name, { name: service.name, url, host: service.host });
+        onUpdate([...servers.values()]);
+      }
+    });
+    zeroconf.on('remove', (name) => {
+      if (servers.delete(name)) {
+        onUpdate([...servers.values()]);
+      }
+    });
+    zeroconf.on('error', (error) => {
+      console.warn('mDNS browse error:', error.message);
+    });
+
+    try {
+      zeroconf.scan(SERVICE_TYPE, 'tcp', 'local.');
+    } catch (error) {
+      console.warn('Failed to start mDNS browse:', error);
+    }
+
+    return () => {
+      try {
+        zeroconf.stop();
+      } catch {
+        // Ignore errors during cleanup
+      }
+      zeroconf.removeDeviceListeners();
+      zeroconf.removeAllListeners();
+    };
+  }
+
+  /**
+   * URL to connect to: the saved server, or the first one found by browsing (which is then saved)
+   * Null if there's neither, and the caller falls back to its default addresses
+   */
+  async resolveServerUrl(): Promise<string | null> {
+    const saved = await this.getSavedServer();
+    if (saved) {
+      return saved.url;
+    }
+    const found = await this.findServer();
+    if (!found) {
+      return null;
+    }
+    console.log(`🔍 Found sensor server "${found.name}" at ${found.url}`);
+    const server = await this.saveServer(found.url, found.name, 'mdns');
+    return server.url;
+  }
+
+  /**
+   * Browse again for a server that stopped answering at its saved address
+   * A server found at another address is saved (so listeners move to it); returns whether one was
+   */
+  async rediscover(): Promise<boolean> {
+    const saved = await this.getSavedServer();
+    const found = await this.findServer(saved?.name);
+    if (!found || found.url === saved?.url) {
+      return false;
+    }
+    console.log(`🔍 Sensor server "${found.name}" moved to ${found.url}`);
+    await this.saveServer(found.url, found.name, 'mdns');
+    return true;
+  }
+
+  // First server found by browsing (preferring one with the given name), or null after DISCOVERY_TIMEOUT_MS
+  private findServer(preferredName?: string): Promise<DiscoveredServer | null> {
+    return new Promise<DiscoveredServer | null>((resolve) => {
+      let stop: () => void = () => {};
+      const timeout = setTimeout(() => {
+        stop();
+        resolve(null);
+      }, DISCOVERY_TIMEOUT_MS);
+      stop = this.browse((servers) => {
+        const match = servers.find((server) => server.name === preferredName) ?? servers[0];
+        if (match) {
+          clearTimeout(timeout);
+          stop();
+          resolve(match);
+        }
+      });
+      if (!this.isSupported()) {
+        clearTimeout(timeout);
+        resolve(null);
+      }
+    });
+  }
+
+  private notify(server: SavedServer | null): void {
+    this.listeners.forEach((listener) => listener(server));
+  }
+}
+
+// Export singleton instance
+export const serverDiscovery = new ServerDiscovery();
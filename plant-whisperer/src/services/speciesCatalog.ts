@@ -0,0 +1,202 @@
+/**
+ * Offline species catalog
+ * Common houseplants with their scientific and common names and default care ranges, bundled
+ * with the app so a species can be picked (and a profile built) without PlantNet or a network.
+ * Ranges use the same fields as Plantbook/Perenual so they can fill in whatever the APIs lack.
+ */
+
+import { PlantbookFields } from './plantbook';
+import { CareFields } from './perenual';
+
+export interface CatalogSpecies {
+  scientificName: string;
+  commonNames: string[];
+  plantbook: PlantbookFields;
+  care: CareFields;
+}
+
+export interface CatalogMatch {
+  species: CatalogSpecies;
+  matchedName: string; // the name the query matched (scientific or common)
+  score: number;
+}
+
+type Watering = 'Frequent' | 'Average' | 'Minimum';
+type CareLevel = 'Low' | 'Medium' | 'High';
+
+// [scientific name, common names, temp °C, air humidity %, soil moisture %, watering, benchmark in days, care level]
+type CatalogRow = [string, string[], [number, number], [number, number], [number, number], Watering, string, CareLevel];
+
+const ROWS: CatalogRow[] = [
+  ['Philodendron erubescens', ['Philodendron Birkin', 'Blushing philodendron'], [13, 27], [35, 80], [15, 60], 'Average', '7-10', 'Medium'],
+  ['Philodendron hederaceum', ['Heartleaf philodendron', 'Sweetheart plant'], [15, 30], [40, 80], [15, 60], 'Average', '7-10', 'Low'],
+  ['Monstera deliciosa', ['Swiss cheese plant', 'Monstera'], [15, 30], [40, 80], [15, 60], 'Average', '7-10', 'Medium'],
+  ['Epipremnum aureum', ['Golden pothos', "Devil's ivy", 'Pothos'], [15, 30], [30, 80], [15, 60], 'Average', '7-10', 'Low'],
+  ['Dracaena trifasciata', ['Snake plant', "Mother-in-law's tongue", 'Sansevieria'], [13, 32], [20, 70], [7, 50], 'Minimum', '14-21', 'Low'],
+  ['Zamioculcas zamiifolia', ['ZZ plant', 'Zanzibar gem'], [15, 30], [30, 70], [7, 50], 'Minimum', '14-21', 'Low'],
+  ['Spathiphyllum wallisii', ['Peace lily'], [16, 30], [40, 85], [20, 65], 'Frequent', '5-7', 'Medium'],
+  ['Chlorophytum comosum', ['Spider plant', 'Airplane plant'], [10, 30], [30, 80], [15, 60], 'Average', '7-10', 'Low'],
+  ['Ficus lyrata', ['Fiddle-leaf fig'], [15, 30], [30, 70], [15, 60], 'Average', '7-10', 'High'],
+  ['Ficus elastica', ['Rubber plant', 'Rubber fig'], [13, 30], [30, 70], [15, 60], 'Average', '7-10', 'Low'],
+  ['Ficus benjamina', ['Weeping fig'], [15, 30], [40, 70], [15, 60], 'Average', '7-10', 'Medium'],
+  ['Aloe vera', ['Aloe', 'Medicinal aloe'], [10, 32], [10, 50], [7, 40], 'Minimum', '21-28', 'Low'],
+  ['Goeppertia orbifolia', ['Calathea orbifolia', 'Prayer plant'], [16, 28], [50, 90], [25, 70], 'Frequent', '5-7', 'High'],
+  ['Maranta leuconeura', ['Prayer plant', 'Herringbone plant'], [16, 29], [50, 90], [25, 70], 'Frequent', '5-7', 'Medium'],
+  ['Dracaena marginata', ['Dragon tree', 'Madagascar dragon tree'], [15, 30], [30, 70], [10, 55], 'Average', '10-14', 'Low'],
+  ['Dracaena fragrans', ['Corn plant', 'Cornstalk dracaena'], [15, 30], [30, 70], [15, 55], 'Average', '10-14', 'Low'],
+  ['Nephrolepis exaltata', ['Boston fern', 'Sword fern'], [13, 27], [50, 90], [30, 75], 'Frequent', '3-5', 'Medium'],
+  ['Pilea peperomioides', ['Chinese money plant', 'Pancake plant'], [12, 28], [30, 70], [15, 55], 'Average', '7-10', 'Low'],
+  ['Hedera helix', ['English ivy', 'Common ivy'], [8, 25], [40, 80], [20, 60], 'Average', '5-7', 'Medium'],
+  ['Aglaonema commutatum', ['Chinese evergreen'], [16, 30], [40, 80], [15, 60], 'Average', '7-10', 'Low'],
+  ['Dieffenbachia seguine', ['Dumb cane', 'Dieffenbachia'], [16, 30], [40, 80], [20, 60], 'Average', '7-10', 'Medium'],
+  ['Syngonium podophyllum', ['Arrowhead plant', 'Goosefoot'], [15, 30], [40, 80], [20, 60], 'Average', '7-10', 'Low'],
+  ['Schefflera arboricola', ['Dwarf umbrella tree'], [15, 30], [30, 70], [15, 55], 'Average', '7-10', 'Low'],
+  ['Crassula ovata', ['Jade plant', 'Money tree'], [10, 30], [10, 50], [7, 40], 'Minimum', '14-21', 'Low'],
+  ['Echeveria elegans', ['Mexican snowball', 'Echeveria'], [10, 30], [10, 50], [5, 35], 'Minimum', '14-21', 'Low'],
+  ['Peperomia obtusifolia', ['Baby rubber plant', 'Pepper face'], [15, 28], [40, 70], [15, 55], 'Minimum', '10-14', 'Low'],
+  ['Tradescantia zebrina', ['Inch plant', 'Wandering dude'], [13, 28], [40, 80], [20, 60], 'Average', '5-7', 'Low'],
+  ['Phalaenopsis amabilis', ['Moth orchid', 'Orchid'], [18, 30], [50, 80], [20, 60], 'Average', '7-10', 'Medium'],
+  ['Anthurium andraeanum', ['Flamingo flower', 'Anthurium'], [18, 30], [50, 85], [20, 65], 'Average', '5-7', 'Medium'],
+  ['Strelitzia reginae', ['Bird of paradise', 'Crane flower'], [15, 30], [40, 70], [15, 60], 'Average', '7-10', 'Medium'],
+  ['Chamaedorea elegans', ['Parlor palm', 'Neanthe bella palm'], [15, 30], [40, 80], [20, 60], 'Average', '7-10', 'Low'],
+];
+
+export const SPECIES_CATALOG: CatalogSpecies[] = ROWS.map(
+  ([scientificName, commonNames, temp, humidity, soil, watering, benchmark, careLevel]) => ({
+    scientificName,
+    commonNames,
+    plantbook: {
+      min_temp: temp[0],
+      max_temp: temp[1],
+      min_env_humid: humidity[0],
+      max_env_humid: humidity[1],
+      min_soil_moist: soil[0],
+      max_soil_moist: soil[1],
+    },
+    care: {
+      watering,
+      watering_general_benchmark: { value: benchmark, unit: 'days' },
+      care_level: careLevel,
+      hardiness: null,
+      source: { idUsed: 0, note: 'offline catalog' },
+    },
+  })
+);
+
+function normalize(s: string): string {
+  return s
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function isSubsequence(query: string, name: string): boolean {
+  let i = 0;
+  for (const ch of name) {
+    if (ch === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return false;
+}
+
+// How well a normalized query matches a normalized name (0 = no match)
+function matchScore(query: string, name: string): number {
+  if (name === query) return 100;
+  if (name.startsWith(query)) return 90;
+  const words = name.split(' ');
+  if (words.some((word) => word.startsWith(query))) return 80;
+  if (name.includes(query)) return 70;
+  // Typos: the start of some word is within a letter or two of the query
+  const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  if (allowed > 0 && words.some((word) => editDistance(query, word.slice(0, query.length)) <= allowed)) return 50;
+  // Letters in order, e.g. "fidleaf" for "fiddle leaf fig"
+  if (query.length >= 3 && isSubsequence(query.replace(/ /g, ''), name.replace(/ /g, ''))) return 30;
+  return 0;
+}
+
+/**
+ * Fuzzy search by scientific or common name, best matches first
+ * An empty query lists the whole catalog alphabetically by common name
+ */
+export function searchCatalog(query: string, limit: number = 8): CatalogMatch[] {
+  const q = normalize(query);
+  if (!q) {
+    return SPECIES_CATALOG.map((species) => ({ species, matchedName: species.commonNames[0], score: 0 }))
+      .sort((a, b) => a.matchedName.localeCompare(b.matchedName))
+      .slice(0, limit);
+  }
+
+  const matches: CatalogMatch[] = [];
+  for (const species of SPECIES_CATALOG) {
+    let best: CatalogMatch | null = null;
+    for (const name of [species.scientificName, ...species.commonNames]) {
+      const score = matchScore(q, normalize(name));
+      if (score > 0 && (!best || score > best.score)) {
+        best = { species, matchedName: name, score };
+      }
+    }
+    if (best) matches.push(best);
+  }
+  return matches
+    .sort((a, b) => b.score - a.score || a.matchedName.length - b.matchedName.length)
+    .slice(0, limit);
+}
+
+/**
+ * Catalog entry for an exact scientific or common name (any case), if bundled
+ */
+export function findCatalogSpecies(name: string): CatalogSpecies | null {
+  const q = normalize(name);
+  return (
+    SPECIES_CATALOG.find(
+      (species) => normalize(species.scientificName) === q || species.commonNames.some((common) => normalize(common) === q)
+    ) ?? null
+  );
+}
+
+/**
+ * Fill the gaps in online care data with the catalog's defaults (the online value wins when present)
+ */
+export function withCatalogFallback(
+  species: CatalogSpecies | null,
+  plantbook: PlantbookFields | null,
+  care: CareFields | null
+): { plantbook: PlantbookFields | null; care: CareFields | null } {
+  if (!species) {
+    return { plantbook, care };
+  }
+  const mergedPlantbook: PlantbookFields = {
+    ...plantbook,
+    min_temp: plantbook?.min_temp ?? species.plantbook.min_temp,
+    max_temp: plantbook?.max_temp ?? species.plantbook.max_temp,
+    min_env_humid: plantbook?.min_env_humid ?? species.plantbook.min_env_humid,
+    max_env_humid: plantbook?.max_env_humid ?? species.plantbook.max_env_humid,
+    min_soil_moist: plantbook?.min_soil_moist ?? species.plantbook.min_soil_moist,
+    max_soil_moist: plantbook?.max_soil_moist ?? species.plantbook.max_soil_moist,
+  };
+  const mergedCare: CareFields = care
+    ? {
+        ...care,
+        watering: care.watering ?? species.care.watering,
+        watering_general_benchmark: care.watering_general_benchmark?.value
+          ? care.watering_general_benchmark
+          : species.care.watering_general_benchmark,
+        care_level: care.care_level ?? species.care.care_level,
+      }
+    : species.care;
+  return { plantbook: mergedPlantbook, care: mergedCare };
+}
@@ -0,0 +1,323 @@
+/**
+ * Transports to the sensor server
+ * DataClient tries them in TRANSPORT_ORDER: a WebSocket, then Server-Sent Events (/events) for
+ * networks that block WebSocket upgrades, then polling /api/state as a last resort.
+ * Every transport hands DataClient parsed messages: v1 envelopes, or bare legacy readings from an
+ * older server's WebSocket. Only the WebSocket can send; the others take the plant filter in the URL.
+ */
+
+import { fetch as streamingFetch } from 'expo/fetch';
+
+export type TransportKind = 'websocket' | 'sse' | 'polling';
+
+export const TRANSPORT_ORDER: TransportKind[] = ['websocket', 'sse', 'polling'];
+
+export interface TransportOptions {
+  wsUrl: string; // e.g. ws://10.0.2.2:4000/ws
+  httpBaseUrl: string; // e.g. http://10.0.2.2:4000
+  plantId: string | null;
+}
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: unknown) => void;
+  onAlive: () => void; // Data arrived that carries no message (keepalive comment, unchanged poll)
+  onClose: (code?: number) => void; // Connection lost or refused; not called after close()
+}
+
+export interface Transport {
+  readonly kind: TransportKind;
+  open(): void;
+  /** Send a message to the server; false if it can't be sent (one-way transport or not open) */
+  send(message: object): boolean;
+  close(): void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5000;
+
+function plantQuery(plantId: string | null): string {
+  return plantId ? `?plantId=${encodeURIComponent(plantId)}` : '';
+}
+
+class WebSocketTransport implements Transport {
+  readonly kind = 'websocket';
+  private ws: WebSocket | null = null;
+
+  constructor(private options: TransportOptions, private handlers: TransportHandlers) {}
+
+  open(): void {
+    const url = this.options.wsUrl;
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.onopen = () => this.handlers.onOpen();
+    ws.onmessage = (event) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error);
+        this.handlers.onAlive();
+        return;
+      }
+      this.handlers.onMessage(message);
+    };
+    ws.onerror = () => {
+      // Log a simplified error message instead of the full error object
+      // Don't report the failure yet - onclose follows with the code
+      console.warn('WebSocket connection error. Check if server is running at', url);
+    };
+    ws.onclose = (event) => {
+      const code = 'code' in event ? event.code : undefined;
+      // Close code 1006 is "abnormal closure" - usually means connection failed
+      // This can happen if the server isn't running or isn't accessible
+      if (code === 1006) {
+        console.warn(
+          'WebSocket connection failed (code 1006). ' +
+          'Make sure the mock server is running at ' + url.replace('ws://', 'http://')
+        );
+      } else if (code !== 1000 && code !== 1001) {
+        // Only log non-normal closures
+        console.log('WebSocket disconnected', code ? `(code: ${code})` : '');
+      }
+      this.ws = null;
+      this.handlers.onClose(code);
+    };
+  }
+
+  send(message: object): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    try {
+      this.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.warn('Failed to send WebSocket message:', error);
+      return false;
+    }
+  }
+
+  close(): void {
+    const ws = this.ws;
+    this.ws = null;
+    if (!ws) {
+      return;
+    }
+    // Remove handlers first so an intentional close reports nothing
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    try {
+      ws.close();
+    } catch {
+      // Ignore errors during cleanup
+    }
+  }
+}
+
+/**
+ * Server-Sent Events over a streaming fetch (React Native has no EventSource)
+ */
+class EventStreamTransport implements Transport {
+  readonly kind = 'sse';
+  private abort: AbortController | null = null;
+
+  constructor(private options: TransportOptions, private handlers: TransportHandlers) {}
+
+  open(): void {
+    const abort = new AbortController();
+    this.abort = abort;
+    this.stream(abort).catch((error) => {
+      if (abort.signal.aborted) {
+        return;
+      }
+      console.warn('Event stream failed:', error?.message ?? error);
+      this.finish(abort);
+    });
+  }
+
+  send(): boolean {
+    return false;
+  }
+
+  close(): void {
+    this.abort?.abort();
+    this.abort = null;
+  }
+
+  private async stream(abort: AbortController): Promise<void> {
+    const url = `${this.options.httpBaseUrl}/events${plantQuery(this.options.plantId)}`;
+    const response = await streamingFetch(url, {
+      headers: { Accept: 'text/event-stream' },
+      signal: abort.signal,
+    });
+    if (!response.ok || !response.body) {
+      console.warn(`Event stream unavailable (HTTP ${response.status})`);
+      this.finish(abort, response.status);
+      return;
+    }
+    this.handlers.onOpen();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || abort.signal.aborted) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      // Events end with a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+      events.forEach((event) => this.dispatch(event));
+    }
+    this.finish(abort);
+  }
+
+  private dispatch(event: string): void {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) {
+      // Comment (keepalive) or retry/id-only event
+      this.handlers.onAlive();
+      return;
+    }
+    try {
+      this.handlers.onMessage(JSON.parse(data));
+    } catch (error) {
+      console.error('Error parsing event stream message:', error);
+      this.handlers.onAlive();
+    }
+  }
+
+  private finish(abort: AbortController, code?: number): void {
+    if (this.abort !== abort) {
+      return;
+    }
+    this.abort = null;
+    this.handlers.onClose(code);
+  }
+}
+
+/**
+ * Polls /api/state; the server answers 304 while nothing has changed
+ */
+class PollingTransport implements Transport {
+  readonly kind = 'polling';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private abort: AbortController | null = null;
+  private etag: string | null = null;
+  // Latest snapshot's readings, re-delivered on 304 like the WebSocket stream's re-sends
+  private lastSnapshot: { v: number; readings: unknown[] } | null = null;
+  private opened = false;
+  private closed = false;
+
+  constructor(private options: TransportOptions, private handlers: TransportHandlers) {}
+
+  open(): void {
+    this.poll();
+  }
+
+  send(): boolean {
+    return false;
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.abort?.abort();
+    this.abort = null;
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    const abort = new AbortController();
+    this.abort = abort;
+    const timeout = setTimeout(() => abort.abort(), POLL_TIMEOUT_MS);
+    let status: number | undefined;
+    try {
+      const response = await fetch(`${this.options.httpBaseUrl}/api/state${plantQuery(this.options.plantId)}`, {
+        headers: this.etag ? { 'If-None-Match': this.etag } : {},
+        signal: abort.signal,
+      });
+      status = response.status;
+      if (this.closed) {
+        return;
+      }
+      if (response.status === 304) {
+        // Keeps time-based state in the app (e.g. debounced classifiers) moving when nothing changed
+        if (this.lastSnapshot && this.lastSnapshot.readings.length > 0) {
+          this.deliver(this.lastSnapshot.v, Date.now(), this.lastSnapshot.readings);
+        } else {
+          this.handlers.onAlive();
+        }
+      } else if (response.ok) {
+        const snapshot = await response.json();
+        this.etag = response.headers.get('ETag');
+        if (!this.opened) {
+          this.opened = true;
+          this.handlers.onOpen();
+          // The snapshot format is the v1 protocol's
+          this.handlers.onMessage({ v: snapshot.v, type: 'hello', seq: 0, ts: snapshot.ts, data: { v: snapshot.v } });
+        }
+        const readings: unknown[] = Array.isArray(snapshot?.readings) ? snapshot.readings : [];
+        this.deliver(snapshot.v, snapshot.ts, readings);
+        // Re-deliveries carry no sample batch: its samples were delivered once already
+        this.lastSnapshot = { v: snapshot.v, readings: readings.map(withoutBioBatch) };
+        if (readings.length === 0) {
+          this.handlers.onAlive();
+        }
+      } else {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      if (!this.closed) {
+        console.warn('Polling sensor server failed:', error?.message ?? error);
+        this.closed = true;
+        this.handlers.onClose(status);
+      }
+      return;
+    } finally {
+      clearTimeout(timeout);
+      if (this.abort === abort) {
+        this.abort = null;
+      }
+    }
+    if (!this.closed) {
+      this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  private deliver(v: number, ts: number, readings: unknown[]): void {
+    readings.forEach((reading) => this.handlers.onMessage({ v, type: 'reading', seq: 0, ts, data: reading }));
+  }
+}
+
+function withoutBioBatch(reading: unknown): unknown {
+  if (!reading || typeof reading !== 'object') {
+    return reading;
+  }
+  const { bioBatch: _bioBatch, ...rest } = reading as Record<string, unknown>;
+  return rest;
+}
+
+export function createTransport(kind: TransportKind, options: TransportOptions, handlers: TransportHandlers): Transport {
+  switch (kind) {
+    case 'websocket':
+      return new WebSocketTransport(options, handlers);
+    case 'sse':
+      return new EventStreamTransport(options, handlers);
+    case 'polling':
+      return new PollingTransport(options, handlers);
+  }
+}
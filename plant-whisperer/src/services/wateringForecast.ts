@@ -0,0 +1,163 @@
+/**
+ * Watering forecast
+ * Fits a straight line to the soil readings since the last watering (hourly rollups from the
+ * history store) and extrapolates when the soil will read thirsty and dry by the profile's
+ * thresholds, i.e. when computeSoilMoistureState moves from 'okay' to 'thirsty' and then 'dry'.
+ * - A watering is a bucket where the rain sensor read wet (< RAIN_WET) or the soil jumped wetter
+ * - The interval comes from the slope's standard error; a slope that may be flat has no upper bound
+ */
+
+import { PlantProfile } from '../types/plant';
+import { DEFAULT_PLANT_PROFILE } from './plantProfile';
+import { HistoryPoint, historyStore } from './historyStore';
+
+export interface CrossingEstimate {
+  at: number;             // most likely time (ms since epoch); now or earlier if already past
+  earliest: number;
+  latest: number | null;  // null when the drying rate might be zero
+}
+
+export interface WateringForecast {
+  computedAt: number;
+  soil: number;           // fitted soil level now
+  ratePerHour: number;    // raw soil units per hour (drying is positive)
+  since: number;          // start of the fitted drying period (the last watering)
+  samples: number;
+  thirsty: CrossingEstimate;
+  dry: CrossingEstimate;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Rain sensor reading below this means the plant is being watered (same as the watering animation)
+const RAIN_WET = 300;
+// Soil this much wetter than the previous hour counts as a watering the rain sensor missed
+const SOIL_DROP = 60;
+// Least data to fit: MIN_SAMPLES hourly points covering MIN_SPAN_MS
+const MIN_SAMPLES = 4;
+const MIN_SPAN_MS = 3 * HOUR_MS;
+// Slower than this (raw units per hour) isn't drying at all
+const MIN_RATE = 0.05;
+// Two-sided 80% interval on the slope
+const Z_80 = 1.2816;
+// Estimates further out than this are reported without an upper bound
+const HORIZON_MS = 30 * DAY_MS;
+
+/**
+ * Forecast from hourly soil and rain rollups (oldest first); null until there's enough drying data
+ */
+export function forecastWatering(
+  soil: HistoryPoint[],
+  rain: HistoryPoint[],
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+  now: number = Date.now()
+): WateringForecast | null {
+  const wetHours = new Set(rain.filter((point) => point.min < RAIN_WET).map((point) => point.t));
+
+  // Keep only the points after the most recent watering
+  let segment: HistoryPoint[] = [];
+  let since = soil[0]?.t ?? now;
+  for (let i = 0; i < soil.length; i++) {
+    const point = soil[i];
+    const previous = soil[i - 1];
+    if (wetHours.has(point.t) || (previous && previous.avg - point.avg > SOIL_DROP)) {
+      segment = [];
+      since = point.t;
+      // The watering hour itself mixes before and after
+      continue;
+    }
+    segment.push(point);
+  }
+
+  if (segment.length < MIN_SAMPLES || segment[segment.length - 1].t - segment[0].t < MIN_SPAN_MS) {
+    return null;
+  }
+
+  // Least squares on hours relative to now
+  const xs = segment.map((point) => (point.t + HOUR_MS / 2 - now) / HOUR_MS);
+  const ys = segment.map((point) => point.avg);
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  let sse = 0;
+  for (let i = 0; i < n; i++) {
+    sse += (ys[i] - (intercept + slope * xs[i])) ** 2;
+  }
+  const slopeError = n > 2 ? Math.sqrt(sse / (n - 2) / sxx) : 0;
+
+  if (slope < MIN_RATE) {
+    return null;
+  }
+
+  const level = intercept; // x = 0 is now
+  const crossing = (threshold: number): CrossingEstimate => {
+    if (level >= threshold) {
+      return { at: now, earliest: now, latest: now };
+    }
+    const remaining = threshold - level;
+    const fast = slope + Z_80 * slopeError;
+    const slow = slope - Z_80 * slopeError;
+    const latest = slow >= MIN_RATE ? now + (remaining / slow) * HOUR_MS : null;
+    return {
+      at: now + (remaining / slope) * HOUR_MS,
+      earliest: now + (remaining / fast) * HOUR_MS,
+      latest: latest !== null && latest - now <= HORIZON_MS ? latest : null,
+    };
+  };
+
+  return {
+    computedAt: now,
+    soil: Math.round(level),
+    ratePerHour: slope,
+    since,
+    samples: n,
+    thirsty: crossing(profile.soil.thirsty),
+    dry: crossing(profile.soil.dry),
+  };
+}
+
+/**
+ * Forecast for a plant from its on-device history (last 7 days)
+ */
+export async function loadWateringForecast(
+  plantId: string | null,
+  profile: PlantProfile = DEFAULT_PLANT_PROFILE,
+  now: number = Date.now()
+): Promise<WateringForecast | null> {
+  const [soil, rain] = await Promise.all([
+    historyStore.getSeries(plantId, 'soil', '7d', now),
+    historyStore.getSeries(plantId, 'rain', '7d', now),
+  ]);
+  return forecastWatering(soil.points, rain.points, profile, now);
+}
+
+/**
+ * Short dashboard label, e.g. "Water in ~2 days"
+ */
+export function formatWateringForecast(forecast: WateringForecast | null, now: number = Date.now()): string {
+  if (!forecast) {
+    return 'Learning drying rate…';
+  }
+  const remaining = forecast.thirsty.at - now;
+  if (remaining <= 0) {
+    return 'Water now';
+  }
+  if (remaining > HORIZON_MS) {
+    return 'Water in 30+ days';
+  }
+  const days = Math.round(remaining / DAY_MS);
+  if (days >= 2) {
+    return `Water in ~${days} days`;
+  }
+  const hours = Math.max(1, Math.round(remaining / HOUR_MS));
+  return hours >= 20 ? 'Water in ~1 day' : `Water in ~${hours} h`;
+}
@@ -57,6 +57,15 @@ export interface SensorState {
   bio: number;       // raw 0-1023 (A2 - BioAmp EXG Sensor)
 }
 
+// Plant registered on the sensor server (one sensor board per plant)
+export interface PlantInfo {
+  id: string;
+  name: string;
+  species?: string;
+  deviceIds: string[];
+  lastSeen: number | null; // ms since epoch, null if no board has reported yet
+}
+
 // Raw vitals with timestamp
 export interface PlantVitalsRaw {
   soilMoisture: number;
@@ -68,17 +77,63 @@ export interface PlantVitalsRaw {
   timestamp: Date;
 }
 
-// Computed scores (0-100)
+// Computed scores (0-100), null when the underlying sensor is faulty (unknown, not bad)
 export interface PlantScores {
-  hydrationScore: number;
-  comfortScore: number;
-  airQualityScore: number;
-  bioSignalScore: number;
+  hydrationScore: number | null;
+  comfortScore: number | null;
+  airQualityScore: number | null;
+  bioSignalScore: number | null;
+}
+
+// Thresholds for one species (see services/plantProfile.ts); defaults are for a Philodendron Birkin
+export interface PlantProfile {
+  species: string | null;                    // scientific name, null for the default profile
+  temp: { min: number; max: number };        // optimal °C; below is cold, above is hot
+  humidity: { min: number; max: number };    // normal % RH; below is dry air, above is humid
+  soil: { wet: number; thirsty: number; dry: number }; // raw 0-1023 (higher is drier): < wet hydrated, >= thirsty thirsty, >= dry dry
+  wateringIntervalDays: number;              // how often the watering reminder comes round
+}
+
+// Raw BioAmp samples sent with a reading by newer servers, oldest first
+export interface BioBatch {
+  rate: number;      // samples per second
+  samples: number[]; // raw 0-1023
+}
+
+// Server mode a reading came from; only 'real' readings are from the plant's own sensors
+export type ReadingSource = 'real' | 'mock' | 'replay' | 'sim';
+
+export type BioBand = 'slow' | 'mid' | 'fast';
+
+// Something the plant felt, detected once by the bio-signal processor (see services/bioSignal.ts)
+export interface BioEvent {
+  kind: 'wind' | 'touch';
+  at: number;        // ms since epoch
+  magnitude: number; // wind: spikes in the gust window; touch: peak deviation from baseline
+}
+
+export interface BioAnalysis {
+  baseline: number;                     // rolling resting level
+  noise: number;                        // standard deviation around the baseline while resting
+  bandPower: Record<BioBand, number>;   // mean square per band over the last batch
+  detached: boolean;                    // electrodes off the leaf (pinned at a rail or flat)
+  state: BioSignalState;                // wind_trigger for a while after a wind event
+  events: BioEvent[];                   // events detected in the last batch
+}
+
+// Why a sensor reading can't be trusted (see services/sensorFaults.ts)
+export type SensorFaultKind = 'zero' | 'rail' | 'frozen' | 'jump' | 'detached';
+
+export interface SensorFault {
+  sensor: keyof SensorState;
+  kind: SensorFaultKind;
+  value: number;
+  message: string; // e.g. "temperature sensor reads 0 (not responding)"
 }
 
 export interface PlantEvent {
   id: string;
-  type: 'watered' | 'checked' | 'level-up' | 'warning' | 'error';
+  type: 'watered' | 'checked' | 'level-up' | 'warning' | 'error' | 'bio';
   message: string;
   timestamp: Date;
 }
@@ -91,9 +146,26 @@ export interface PlantCurrentState {
   bioSignal: BioSignalState;
   airQuality: AirQualityState;
   isWatering: boolean; // true if raindrop < 300 (watering animation trigger)
+  feelsGreat?: boolean; // scores clear the I_FEEL_GREAT cutoffs (committed; set by PlantStateClassifier)
   stateText: string; // Combined state text for UI display
 }
 
+// Alert fired by the sensor server's rule engine (pushed over WebSocket)
+export interface ServerAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: 'info' | 'warning' | 'critical';
+  deviceId: string;
+  plantId: string | null;
+  message: string;
+  firedAt: number;
+  clearedAt: number | null;
+  acknowledgedAt: number | null;
+}
+
+export type ServerAlertEvent = 'fired' | 'cleared' | 'acknowledged';
+
 export interface Reminder {
   id: string;
   type: 'water' | 'check' | 'fertilize';
@@ -102,3 +174,59 @@ export interface Reminder {
   isUrgent?: boolean;
 }
 
+// Recurring care task of one plant (see services/reminderScheduler.ts)
+export interface ReminderSchedule {
+  id: string;                       // `${plantKey}:${type}`
+  type: Reminder['type'];
+  intervalDays: number;
+  nextDue: number;                  // ms since epoch
+  snoozedUntil: number | null;
+  lastDoneAt: number | null;
+  notificationId: string | null;    // scheduled local notification, if any
+}
+
+
+// Badge the plant can earn (see services/progressTracker.ts)
+export type AchievementId =
+  | 'first-drink'
+  | 'good-day'
+  | 'reliable-gardener'
+  | 'week-streak'
+  | 'month-streak'
+  | 'hydrated-30'
+  | 'heatwave'
+  | 'level-5'
+  | 'level-10';
+
+export interface Achievement {
+  id: AchievementId;
+  title: string;
+  description: string;
+  icon: string;                     // emoji
+}
+
+// Game progress of one plant, kept on the device
+export interface PlantProgress {
+  xp: number;
+  level: number;
+  healthyHours: number;
+  onTimeReminders: number;
+  waterings: number;
+  hydratedDays: number;
+  streak: { days: number; best: number; lastDay: string | null }; // lastDay: local YYYY-MM-DD of the last care day
+  achievements: Partial<Record<AchievementId, number>>;          // unlocked, ms since epoch
+}
+
+// Life stage of the plant (see plantModel.ts advanceLifecycle)
+export type GrowthStage = 'seedling' | 'sprout' | 'mature' | 'blooming';
+export type LifecycleStage = GrowthStage | 'wilting' | 'dormant';
+
+export interface PlantLifecycle {
+  stage: LifecycleStage;
+  growthStage: GrowthStage;          // stage it grows from, and returns to after wilting
+  careHours: number;                 // cumulative care quality, in healthy-hour equivalents
+  neglectMs: number;                 // how long every sensor has been out of its optimal range
+  recoveryMs: number;                // healthy time while wilting or dormant (counts towards reviving)
+  stageSince: number;                // ms since epoch
+  updatedAt: number | null;          // last reading counted, null before the first
+}
@@ -0,0 +1,33 @@
+/**
+ * Type declarations for react-native-zeroconf (the package ships none)
+ * Only the browsing side the app uses
+ */
+
+declare module 'react-native-zeroconf' {
+  import { EventEmitter } from 'events';
+
+  export interface ZeroconfService {
+    name: string;
+    fullName: string;
+    host: string;
+    addresses: string[];
+    port: number;
+    txt: Record<string, string>;
+  }
+
+  export const ImplType: {
+    NSD: 'NSD';
+    DNSSD: 'DNSSD';
+  };
+
+  export default class Zeroconf extends EventEmitter {
+    scan(type?: string, protocol?: string, domain?: string, implType?: string): void;
+    stop(implType?: string): void;
+    getServices(): Record<string, ZeroconfService>;
+    removeDeviceListeners(): void;
+    on(event: 'resolved', listener: (service: ZeroconfService) => void): this;
+    on(event: 'remove', listener: (name: string) => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+    on(event: 'start' | 'stop' | 'update', listener: () => void): this;
+  }
+}